@@ -0,0 +1,27 @@
+// server/firestore.ts
+// Firestore for server-side code, with the browser app's Firebase settings from .env.
+
+import { initializeApp } from 'firebase/app';
+import { Firestore, getFirestore } from 'firebase/firestore';
+
+const requireEnvVar = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return value;
+};
+
+export const hasFirebaseConfig = (): boolean => Boolean(process.env.VITE_FIREBASE_PROJECT_ID);
+
+export const createFirestore = (): Firestore => {
+  const app = initializeApp({
+    apiKey: requireEnvVar('VITE_FIREBASE_API_KEY'),
+    authDomain: requireEnvVar('VITE_FIREBASE_AUTH_DOMAIN'),
+    projectId: requireEnvVar('VITE_FIREBASE_PROJECT_ID'),
+    storageBucket: requireEnvVar('VITE_FIREBASE_STORAGE_BUCKET'),
+    messagingSenderId: requireEnvVar('VITE_FIREBASE_MESSAGING_SENDER_ID'),
+    appId: requireEnvVar('VITE_FIREBASE_APP_ID')
+  });
+  return getFirestore(app);
+};
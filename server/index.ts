@@ -0,0 +1,257 @@
+// server/index.ts
+// Small API server that owns the OpenAI key and the Assistants thread/run lifecycle.
+// Run locally with `npm run server`; the Vite dev server proxies /api here.
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AssistantsProvider } from '../src/services/llm/AssistantsProvider';
+import type {
+  CreateConversationRequest,
+  CreateConversationResponse,
+  ErrorResponse,
+  RunStatusResponse,
+  SendMessageRequest,
+  SendMessageResponse
+} from '../src/services/llm/proxyApi';
+import { ChatError } from '../src/services/errors';
+import { isConversationSeed } from '../src/services/llm/seed';
+import { classifyError } from '../src/services/retry';
+import { APP_CONFIG } from '../src/types/constants';
+import { createFirestore } from './firestore';
+import { FirestoreInterviewDirectory, InterviewDirectory, UnverifiedInterviewDirectory } from './interviewDirectory';
+import { InterviewSessions } from './interviewSessions';
+import { InterviewStore } from './interviewStore';
+import { RateLimiter } from './rateLimiter';
+import { SessionTokens } from './sessionTokens';
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const requireEnvVar = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable: ${name}`);
+  }
+  return value;
+};
+
+const PORT = Number(process.env.API_PORT || 8787);
+const ALLOWED_ORIGIN = process.env.API_ALLOWED_ORIGIN || '';
+// Large enough for a compaction seed, which carries the phase reports in full
+const MAX_BODY_BYTES = 256 * 1024;
+const INTERVIEW_ID_PATTERN = '[A-Za-z0-9_-]{1,64}';
+
+const sessions = new InterviewSessions({
+  provider: new AssistantsProvider({
+    apiKey: requireEnvVar('OPENAI_API_KEY'),
+    assistantId: requireEnvVar('OPENAI_ASSISTANT_ID')
+  }),
+  threadStore: new InterviewStore(process.env.THREAD_STORE_PATH || '.data/threads.json'),
+  usageStore: new InterviewStore(process.env.USAGE_STORE_PATH || '.data/usage.json'),
+  tokenBudget: Math.max(0, Number(process.env.INTERVIEW_TOKEN_BUDGET) || 0)
+});
+const sessionTokens = new SessionTokens(
+  new InterviewStore(process.env.SESSION_STORE_PATH || '.data/sessions.json'),
+  Number(process.env.SESSION_IDLE_MINUTES || 30) * 60 * 1000
+);
+// Only interviews the browser app really created can be claimed
+const interviewDirectory: InterviewDirectory = process.env.ALLOW_UNVERIFIED_INTERVIEWS === 'true'
+  ? new UnverifiedInterviewDirectory()
+  : new FirestoreInterviewDirectory(createFirestore());
+// Every POST claims an interview or starts work for OpenAI, so they are limited per client address, whatever the interview
+const rateLimiter = new RateLimiter(Number(process.env.RATE_LIMIT_PER_MINUTE || 30), 60 * 1000);
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = async <T>(req: IncomingMessage): Promise<T> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}') as T;
+  } catch {
+    throw new HttpError(400, 'Request body must be valid JSON');
+  }
+};
+
+const bearerToken = (req: IncomingMessage): string | null => {
+  const match = req.headers.authorization?.match(/^Bearer (\S+)$/);
+  return match ? match[1] : null;
+};
+
+// Every route but the one that claims an interview needs the interview's session token
+const requireSession = async (req: IncomingMessage, interviewId: string): Promise<void> => {
+  if (!(await sessionTokens.verify(interviewId, bearerToken(req)))) {
+    throw new HttpError(401, 'A valid session token for this interview is required');
+  }
+};
+
+type RouteHandler = (req: IncomingMessage, res: ServerResponse, params: string[]) => Promise<void>;
+
+const routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }> = [
+  {
+    // Create (or return) the conversation for an interview; with a seed, replace it with a compacted one.
+    // The first call for an interview claims it and receives its session token, as does a call once the holder has gone idle
+    method: 'POST',
+    pattern: new RegExp(`^/api/interviews/(${INTERVIEW_ID_PATTERN})/conversation$`),
+    handler: async (req, res, [interviewId]) => {
+      let sessionToken: string | null = null;
+      if (!(await sessionTokens.verify(interviewId, bearerToken(req)))) {
+        if (!(await interviewDirectory.isOpen(interviewId))) {
+          throw new HttpError(404, 'Interview not found');
+        }
+        sessionToken = await sessionTokens.claim(interviewId);
+        if (!sessionToken) {
+          throw new HttpError(401, 'This interview is open in another session');
+        }
+      }
+
+      const { seed } = await readJsonBody<CreateConversationRequest>(req);
+      if (seed === undefined) {
+        await sessions.ensureConversation(interviewId);
+      } else if (isConversationSeed(seed)) {
+        await sessions.restartConversation(interviewId, seed);
+      } else {
+        throw new HttpError(400, 'seed is malformed');
+      }
+      const body: CreateConversationResponse = {
+        conversationId: interviewId,
+        ...(sessionToken ? { sessionToken } : {})
+      };
+      sendJson(res, 200, body);
+    }
+  },
+  {
+    // Send a user turn and start the assistant run
+    method: 'POST',
+    pattern: new RegExp(`^/api/interviews/(${INTERVIEW_ID_PATTERN})/messages$`),
+    handler: async (req, res, [interviewId]) => {
+      await requireSession(req, interviewId);
+      const { content } = await readJsonBody<Partial<SendMessageRequest>>(req);
+      if (typeof content !== 'string' || !content.trim()) {
+        throw new HttpError(400, 'content is required');
+      }
+      if (content.length > APP_CONFIG.MAX_MESSAGE_LENGTH * 2) {
+        throw new HttpError(413, 'Message too long');
+      }
+
+      const runId = await sessions.sendMessage(interviewId, content);
+      const body: SendMessageResponse = { runId };
+      sendJson(res, 202, body);
+    }
+  },
+  {
+    // Poll a run for its status and the reply streamed so far
+    method: 'GET',
+    pattern: new RegExp(`^/api/interviews/(${INTERVIEW_ID_PATTERN})/runs/([A-Za-z0-9_-]+)$`),
+    handler: async (req, res, [interviewId, runId]) => {
+      await requireSession(req, interviewId);
+      const run: RunStatusResponse | null = sessions.getRun(interviewId, runId);
+      if (!run) {
+        throw new HttpError(404, 'Run not found');
+      }
+      sendJson(res, 200, run);
+    }
+  },
+  {
+    // Stop one run and remove its turn from the thread
+    method: 'POST',
+    pattern: new RegExp(`^/api/interviews/(${INTERVIEW_ID_PATTERN})/runs/([A-Za-z0-9_-]+)/cancel$`),
+    handler: async (req, res, [interviewId, runId]) => {
+      await requireSession(req, interviewId);
+      if (!(await sessions.cancelRun(interviewId, runId))) {
+        throw new HttpError(404, 'Run not found');
+      }
+      res.writeHead(204);
+      res.end();
+    }
+  },
+  {
+    // Cancel whatever run is still generating for the interview
+    method: 'POST',
+    pattern: new RegExp(`^/api/interviews/(${INTERVIEW_ID_PATTERN})/cancel$`),
+    handler: async (req, res, [interviewId]) => {
+      await requireSession(req, interviewId);
+      await sessions.cancel(interviewId);
+      res.writeHead(204);
+      res.end();
+    }
+  }
+];
+
+const server = createServer(async (req, res) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+  if (req.method === 'POST') {
+    const waitMs = rateLimiter.take(req.socket.remoteAddress || 'unknown');
+    if (waitMs !== null) {
+      res.setHeader('Retry-After', String(Math.ceil(waitMs / 1000)));
+      const body: ErrorResponse = { error: 'Too many requests, please slow down' };
+      sendJson(res, 429, body);
+      return;
+    }
+  }
+
+  try {
+    for (const route of routes) {
+      const match = route.method === req.method ? path.match(route.pattern) : null;
+      if (match) {
+        await route.handler(req, res, match.slice(1));
+        return;
+      }
+    }
+    throw new HttpError(404, 'Not found');
+  } catch (error) {
+    if (error instanceof HttpError) {
+      const body: ErrorResponse = { error: error.message };
+      sendJson(res, error.status, body);
+      return;
+    }
+    if (error instanceof ChatError && error.type === 'budget') {
+      const body: ErrorResponse = { error: error.message };
+      sendJson(res, 402, body);
+      return;
+    }
+
+    console.error(`${req.method} ${path} failed:`, error);
+    // Still rate limited after our own retries: pass the wait on so the browser backs off too
+    const { kind, retryAfterMs } = classifyError(error);
+    if (kind === 'rate_limit') {
+      res.setHeader('Retry-After', String(Math.ceil((retryAfterMs ?? APP_CONFIG.RETRY_DELAY_BASE) / 1000)));
+      const body: ErrorResponse = { error: 'Assistant service is busy, please try again shortly' };
+      sendJson(res, 429, body);
+      return;
+    }
+    const body: ErrorResponse = { error: 'Assistant service unavailable' };
+    sendJson(res, 502, body);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Aurum Agent API listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,35 @@
+// server/interviewDirectory.ts
+
+import { doc, getDoc } from 'firebase/firestore';
+import type { Firestore } from 'firebase/firestore';
+import { APP_CONFIG } from '../src/types/constants';
+
+/** Tells the server which interview ids are real, so a session can only be claimed for one of them */
+export interface InterviewDirectory {
+  /** Whether the interview exists and is still young enough to be worked on */
+  isOpen(interviewId: string): Promise<boolean>;
+}
+
+/** Interviews as the browser app stores them, in the `interviews` collection */
+export class FirestoreInterviewDirectory implements InterviewDirectory {
+  constructor(private readonly db: Firestore) {}
+
+  public async isOpen(interviewId: string): Promise<boolean> {
+    const snapshot = await getDoc(doc(this.db, 'interviews', interviewId));
+    if (!snapshot.exists()) return false;
+
+    // Same expiry as the browser's session check
+    const createdAt = snapshot.get('createdAt')?.toDate?.() as Date | undefined;
+    return !!createdAt && Date.now() - createdAt.getTime() < APP_CONFIG.SESSION_TIMEOUT_HOURS * 60 * 60 * 1000;
+  }
+}
+
+/**
+ * Accepts every id. Only for local development against the in-memory storage
+ * backend, whose interviews the server cannot see.
+ */
+export class UnverifiedInterviewDirectory implements InterviewDirectory {
+  public async isOpen(): Promise<boolean> {
+    return true;
+  }
+}
@@ -0,0 +1,187 @@
+// server/interviewSessions.ts
+
+import { ChatError } from '../src/services/errors';
+import type { LLMProvider } from '../src/services/llm/types';
+import type { RunStatusResponse } from '../src/services/llm/proxyApi';
+import type { ConversationSeed } from '../src/services/llm/seed';
+import { InterviewStore } from './interviewStore';
+
+interface RunRecord extends RunStatusResponse {
+  interviewId: string;
+  finishedAt: number | null;
+}
+
+interface InterviewSessionsOptions {
+  provider: LLMProvider;
+  /** Thread id per interview */
+  threadStore: InterviewStore;
+  /** Tokens used so far per interview */
+  usageStore: InterviewStore;
+  /** Tokens an interview may use before further runs are refused; 0 means unlimited */
+  tokenBudget?: number;
+  /** How long finished runs stay available for polling */
+  runRetentionMs?: number;
+}
+
+/**
+ * Owns the thread and run lifecycle for every interview.
+ * Runs are started in the background and their streamed text is buffered
+ * here, so the browser only ever polls for status and never sees the API key.
+ */
+export class InterviewSessions {
+  private readonly provider: LLMProvider;
+  private readonly threadStore: InterviewStore;
+  private readonly usageStore: InterviewStore;
+  private readonly tokenBudget: number;
+  private readonly runRetentionMs: number;
+  private readonly runs = new Map<string, RunRecord>();
+  private readonly pendingConversations = new Map<string, Promise<string>>();
+
+  constructor({ provider, threadStore, usageStore, tokenBudget = 0, runRetentionMs = 10 * 60 * 1000 }: InterviewSessionsOptions) {
+    this.provider = provider;
+    this.threadStore = threadStore;
+    this.usageStore = usageStore;
+    this.tokenBudget = tokenBudget;
+    this.runRetentionMs = runRetentionMs;
+  }
+
+  /** Return the interview's thread, creating it on first use */
+  public ensureConversation(interviewId: string): Promise<string> {
+    // Requests that arrive together share one lookup, so they never create two threads
+    const pending = this.pendingConversations.get(interviewId);
+    if (pending) return pending;
+
+    const conversation = this.findOrCreateConversation(interviewId)
+      .finally(() => this.pendingConversations.delete(interviewId));
+    this.pendingConversations.set(interviewId, conversation);
+    return conversation;
+  }
+
+  private async findOrCreateConversation(interviewId: string): Promise<string> {
+    const existing = await this.threadStore.get(interviewId);
+    if (existing) return existing;
+
+    const threadId = await this.provider.createConversation(interviewId);
+    await this.threadStore.set(interviewId, threadId);
+    console.log(`Created thread ${threadId} for interview ${interviewId}`);
+    return threadId;
+  }
+
+  /** Replace the interview's thread with a fresh one started from a compact seed */
+  public async restartConversation(interviewId: string, seed: ConversationSeed): Promise<string> {
+    await this.cancel(interviewId);
+    const threadId = await this.provider.createConversation(interviewId, seed);
+    await this.threadStore.set(interviewId, threadId);
+    console.log(`Compacted interview ${interviewId} into thread ${threadId}`);
+    return threadId;
+  }
+
+  public async sendMessage(interviewId: string, content: string): Promise<string> {
+    this.pruneFinishedRuns();
+    await this.checkBudget(interviewId);
+
+    const threadId = await this.ensureConversation(interviewId);
+    const runId = await this.provider.sendUserTurn(threadId, content);
+
+    const record: RunRecord = {
+      interviewId,
+      runId,
+      status: 'in_progress',
+      content: '',
+      toolCalls: [],
+      usage: null,
+      finishedAt: null
+    };
+    this.runs.set(runId, record);
+
+    this.provider.awaitAssistantTurn(threadId, runId, {
+      onDelta: contentSoFar => {
+        record.content = contentSoFar;
+      }
+    })
+      .then(async reply => {
+        // Counted before the run shows as completed, so the next message is checked against it
+        if (reply.usage) {
+          await this.recordUsage(interviewId, reply.usage.promptTokens + reply.usage.completionTokens);
+        }
+        record.content = reply.content;
+        record.toolCalls = reply.toolCalls;
+        record.usage = reply.usage;
+        record.status = 'completed';
+      })
+      .catch(error => {
+        console.error(`Run ${runId} for interview ${interviewId} failed:`, error);
+        // A run cancelled through cancel() keeps its status; anything else is a failure
+        if (record.status !== 'cancelled') {
+          record.status = 'failed';
+          record.error = error instanceof ChatError ? error.message : 'Assistant run failed';
+        }
+      })
+      .finally(() => {
+        record.finishedAt = Date.now();
+      });
+
+    return runId;
+  }
+
+  public getRun(interviewId: string, runId: string): RunStatusResponse | null {
+    const record = this.runs.get(runId);
+    if (!record || record.interviewId !== interviewId) return null;
+
+    const { runId: id, status, content, toolCalls, usage, error } = record;
+    return { runId: id, status, content, toolCalls, usage, error };
+  }
+
+  public async cancel(interviewId: string): Promise<void> {
+    const threadId = await this.threadStore.get(interviewId);
+    if (!threadId) return;
+
+    this.runs.forEach(record => {
+      if (record.interviewId === interviewId && record.status === 'in_progress') {
+        record.status = 'cancelled';
+      }
+    });
+    await this.provider.cancel(threadId);
+  }
+
+  /** Stop a single run and remove it from the thread, e.g. when the user presses stop */
+  public async cancelRun(interviewId: string, runId: string): Promise<boolean> {
+    const record = this.runs.get(runId);
+    const threadId = await this.threadStore.get(interviewId);
+    if (!record || record.interviewId !== interviewId || !threadId) return false;
+
+    if (record.status === 'in_progress') {
+      record.status = 'cancelled';
+      await this.provider.cancelTurn(threadId, runId);
+    }
+    return true;
+  }
+
+  // The browser checks the budget too, but only the server can be trusted to enforce it
+  private async checkBudget(interviewId: string): Promise<void> {
+    if (this.tokenBudget <= 0) return;
+    const used = Number(await this.usageStore.get(interviewId)) || 0;
+    if (used >= this.tokenBudget) {
+      console.warn(`Interview ${interviewId} is over its token budget (${used}/${this.tokenBudget})`);
+      throw new ChatError('Interview token budget exceeded', 'budget');
+    }
+  }
+
+  // A reply that could not be counted is still delivered
+  private async recordUsage(interviewId: string, tokens: number): Promise<void> {
+    try {
+      await this.usageStore.update(interviewId, used => String((Number(used) || 0) + tokens));
+    } catch (error) {
+      console.error(`Could not record usage for interview ${interviewId}:`, error);
+    }
+  }
+
+  private pruneFinishedRuns() {
+    const cutoff = Date.now() - this.runRetentionMs;
+    this.runs.forEach((record, runId) => {
+      if (record.finishedAt !== null && record.finishedAt < cutoff) {
+        this.runs.delete(runId);
+      }
+    });
+  }
+}
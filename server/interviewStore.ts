@@ -0,0 +1,59 @@
+// server/interviewStore.ts
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/**
+ * A string per interview id, e.g. the Assistants thread holding its conversation.
+ * Persisted as a small JSON file so values survive server restarts.
+ */
+export class InterviewStore {
+  private values: Promise<Record<string, string>> | null = null;
+  // Writes go out one at a time, each with every value changed so far
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  public async get(interviewId: string): Promise<string | null> {
+    const values = await this.load();
+    return values[interviewId] ?? null;
+  }
+
+  public async set(interviewId: string, value: string): Promise<void> {
+    await this.update(interviewId, () => value);
+  }
+
+  /** Replace a value based on the current one; the change is made in memory at once, so none is lost between calls */
+  public async update(interviewId: string, change: (value: string | null) => string): Promise<void> {
+    const values = await this.load();
+    values[interviewId] = change(values[interviewId] ?? null);
+
+    const write = this.writing.then(() => this.write(values));
+    this.writing = write.catch(() => undefined);
+    await write;
+  }
+
+  // Written next to the file and renamed over it, so a write cut short never leaves half a file behind
+  private async write(values: Record<string, string>): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(values, null, 2));
+    await rename(tempPath, this.filePath);
+  }
+
+  // Read once and shared, so calls that arrive together all see the same values
+  private load(): Promise<Record<string, string>> {
+    if (!this.values) {
+      this.values = readFile(this.filePath, 'utf8')
+        .then(contents => JSON.parse(contents) as Record<string, string>)
+        .catch(error => {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+          return {};
+        });
+      this.values.catch(() => {
+        this.values = null;
+      });
+    }
+    return this.values;
+  }
+}
@@ -0,0 +1,23 @@
+// server/migrateInterviews.ts
+// Upgrade every interview document to the current schema version in one go, instead of
+// waiting for each interview to be opened again. Uses the browser app's Firebase settings.
+// Run with `npm run migrate:interviews`; add `-- --dry-run` to only list what is outdated.
+
+import { FirestoreInterviewRepository } from '../src/services/interviews/FirestoreInterviewRepository';
+import { CURRENT_SCHEMA_VERSION } from '../src/services/interviews/migrations';
+import { createFirestore } from './firestore';
+
+const dryRun = process.argv.includes('--dry-run');
+
+const repository = new FirestoreInterviewRepository(createFirestore());
+
+try {
+  const { checked, outdated } = await repository.migrateAll({ dryRun });
+  const verb = dryRun ? 'need migrating' : 'migrated';
+  console.log(`${outdated.length} of ${checked} interviews ${verb} to schema version ${CURRENT_SCHEMA_VERSION}`);
+  outdated.forEach(interviewId => console.log(`- ${interviewId}`));
+  process.exit(0);
+} catch (error) {
+  console.error('Migration failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,35 @@
+// server/rateLimiter.ts
+
+/**
+ * Fixed-window request counter per key, e.g. per client address. Keys are
+ * never chosen by the client, so opening more interviews does not buy more requests.
+ */
+export class RateLimiter {
+  private readonly windows = new Map<string, { startedAt: number; count: number }>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  /** Count a request; returns how long to wait when it is over the limit, otherwise null */
+  public take(key: string): number | null {
+    const now = Date.now();
+    const window = this.windows.get(key);
+    if (!window || now - window.startedAt >= this.windowMs) {
+      this.prune(now);
+      this.windows.set(key, { startedAt: now, count: 1 });
+      return null;
+    }
+    if (window.count >= this.limit) {
+      return window.startedAt + this.windowMs - now;
+    }
+    window.count++;
+    return null;
+  }
+
+  private prune(now: number) {
+    this.windows.forEach((window, key) => {
+      if (now - window.startedAt >= this.windowMs) {
+        this.windows.delete(key);
+      }
+    });
+  }
+}
@@ -0,0 +1,50 @@
+// server/sessionTokens.ts
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { InterviewStore } from './interviewStore';
+
+const hash = (token: string): Buffer => createHash('sha256').update(token).digest();
+
+/**
+ * One bearer token per interview, handed to whoever claims the interview first:
+ * in practice the browser that created it. Every other call for the interview
+ * must present it. Only a hash of each token is stored. A session left idle for
+ * `idleMs` can be claimed again, e.g. to carry on from another device; the old
+ * token then stops working.
+ */
+export class SessionTokens {
+  private readonly pendingClaims = new Map<string, Promise<string | null>>();
+  // In memory only: after a restart every stored session counts as just used
+  private readonly lastUsed = new Map<string, number>();
+  private readonly startedAt = Date.now();
+
+  constructor(private readonly store: InterviewStore, private readonly idleMs: number) {}
+
+  /** Issue the interview's token, or return null while another session holds it */
+  public claim(interviewId: string): Promise<string | null> {
+    // Claims that arrive together share one attempt, so at most one of them gets the token
+    const pending = this.pendingClaims.get(interviewId);
+    if (pending) return pending.then(() => null);
+
+    const claim = this.issue(interviewId).finally(() => this.pendingClaims.delete(interviewId));
+    this.pendingClaims.set(interviewId, claim);
+    return claim;
+  }
+
+  public async verify(interviewId: string, token: string | null): Promise<boolean> {
+    const stored = await this.store.get(interviewId);
+    if (!stored || !token || !timingSafeEqual(Buffer.from(stored, 'hex'), hash(token))) return false;
+    this.lastUsed.set(interviewId, Date.now());
+    return true;
+  }
+
+  private async issue(interviewId: string): Promise<string | null> {
+    const idleFor = Date.now() - (this.lastUsed.get(interviewId) ?? this.startedAt);
+    if (await this.store.get(interviewId) && idleFor < this.idleMs) return null;
+
+    const token = randomBytes(32).toString('base64url');
+    await this.store.set(interviewId, hash(token).toString('hex'));
+    this.lastUsed.set(interviewId, Date.now());
+    return token;
+  }
+}
@@ -0,0 +1,121 @@
+import React from 'react';
+import type { AnswerInput, StructuredAnswer } from './types/questionnaire';
+import { format } from './i18n';
+import { useLocale } from './i18n/context';
+
+interface AnswerWidgetProps {
+  input: Exclude<AnswerInput, { type: 'text' }>;
+  value: StructuredAnswer | null;
+  onChange: (value: StructuredAnswer | null) => void;
+  disabled: boolean;
+}
+
+const optionClass = (selected: boolean) => `px-3 py-1.5 rounded-full border text-sm transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+  selected
+    ? 'border-goldenrod bg-goldenrod/10 text-dark-gray font-medium'
+    : 'border-neutral-gray/30 text-neutral-gray hover:border-goldenrod/60'
+}`;
+
+/** The control for a question's answer input; MessageInput shows it above the text box */
+const AnswerWidget: React.FC<AnswerWidgetProps> = ({ input, value, onChange, disabled }) => {
+  const text = useLocale().strings.answerWidget;
+  switch (input.type) {
+    case 'scale': {
+      const selected = value?.type === 'scale' ? value.value : null;
+      return (
+        <div className="space-y-2">
+          <input
+            type="range"
+            min={input.min}
+            max={input.max}
+            step={1}
+            value={selected ?? Math.round((input.min + input.max) / 2)}
+            onChange={e => onChange({ type: 'scale', value: Number(e.target.value) })}
+            disabled={disabled}
+            className={`w-full accent-goldenrod ${selected === null ? 'opacity-50' : ''}`}
+            aria-label={format(text.scaleLabel, { min: input.minLabel, max: input.maxLabel })}
+          />
+          <div className="flex justify-between text-xs text-neutral-gray">
+            <span>{input.minLabel}</span>
+            <span className="font-semibold text-goldenrod">{selected ?? text.slideToAnswer}</span>
+            <span>{input.maxLabel}</span>
+          </div>
+        </div>
+      );
+    }
+
+    case 'single-choice': {
+      const selected = value?.type === 'single-choice' ? value.value : null;
+      return (
+        <div className="flex flex-wrap gap-2">
+          {input.options.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => onChange(selected === option ? null : { type: 'single-choice', value: option })}
+              disabled={disabled}
+              className={optionClass(selected === option)}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    case 'multi-choice': {
+      const selected = value?.type === 'multi-choice' ? value.values : [];
+      const limit = input.maxSelections ?? input.options.length;
+      const toggle = (option: string) => {
+        // Keep the options' own order rather than the order they were clicked
+        const values = selected.includes(option)
+          ? selected.filter(candidate => candidate !== option)
+          : input.options.filter(candidate => candidate === option || selected.includes(candidate));
+        onChange(values.length > 0 ? { type: 'multi-choice', values } : null);
+      };
+      return (
+        <div className="flex flex-wrap gap-2">
+          {input.options.map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => toggle(option)}
+              disabled={disabled || (!selected.includes(option) && selected.length >= limit)}
+              className={optionClass(selected.includes(option))}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    case 'ranked': {
+      const values = value?.type === 'ranked' ? value.values : Array<string>(input.count).fill('');
+      const update = (index: number, text: string) => {
+        const next = values.map((current, i) => (i === index ? text : current));
+        onChange(next.some(entry => entry.trim()) ? { type: 'ranked', values: next } : null);
+      };
+      return (
+        <ol className="space-y-2">
+          {values.map((entry, i) => (
+            <li key={i} className="flex items-center gap-2">
+              <span className="w-5 text-sm font-semibold text-goldenrod">{i + 1}.</span>
+              <input
+                type="text"
+                value={entry}
+                onChange={e => update(i, e.target.value)}
+                disabled={disabled}
+                maxLength={500}
+                placeholder={`${input.itemLabel || text.item} ${i + 1}${i === 0 ? text.mostImportant : ''}`}
+                className="flex-grow px-3 py-2 border-2 border-neutral-gray/30 rounded-lg text-sm focus:outline-none focus:border-goldenrod"
+              />
+            </li>
+          ))}
+        </ol>
+      );
+    }
+  }
+};
+
+export default AnswerWidget;
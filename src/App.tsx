@@ -4,25 +4,28 @@ import BrandEntry from './BrandEntry';
 import Chat from './Chat';
 import { ProtectedRoute } from './ProtectedRoute';
 import ErrorBoundary from './ErrorBoundary';
+import { LocaleProvider } from './LocaleProvider';
 
 const App: React.FC = () => {
   return (
-    <ErrorBoundary>
-      <Router>
-        <Routes>
-          <Route path="/" element={<BrandEntry />} />
-          <Route 
-            path="/chat/:interviewId" 
-            element={
-              <ProtectedRoute>
-                <Chat />
-              </ProtectedRoute>
-            } 
-          />
-          <Route path="*" element={<Navigate to="/" replace />} />
-        </Routes>
-      </Router>
-    </ErrorBoundary>
+    <LocaleProvider>
+      <ErrorBoundary>
+        <Router>
+          <Routes>
+            <Route path="/" element={<BrandEntry />} />
+            <Route 
+              path="/chat/:interviewId" 
+              element={
+                <ProtectedRoute>
+                  <Chat />
+                </ProtectedRoute>
+              } 
+            />
+            <Route path="*" element={<Navigate to="/" replace />} />
+          </Routes>
+        </Router>
+      </ErrorBoundary>
+    </LocaleProvider>
   );
 };
 
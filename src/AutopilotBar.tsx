@@ -0,0 +1,69 @@
+import React from 'react';
+import { Bot, Hand, Loader, Play } from 'lucide-react';
+import { format } from './i18n';
+import { useLocale } from './i18n/context';
+import type { AutopilotStatus } from './useAutopilot';
+
+interface AutopilotBarProps {
+  status: AutopilotStatus;
+  /** Label of the demo persona whose answers are sent */
+  personaLabel: string;
+  isTyping: boolean;
+  onStart: () => void;
+  onTakeOver: () => void;
+}
+
+const AutopilotBar: React.FC<AutopilotBarProps> = ({
+  status,
+  personaLabel,
+  isTyping,
+  onStart,
+  onTakeOver
+}) => {
+  const text = useLocale().strings.autopilot;
+  const message = status === 'on'
+    ? format(text.running, { persona: personaLabel })
+    : status === 'paused'
+    ? text.paused
+    : format(text.offHint, { persona: personaLabel });
+
+  return (
+    <div className={`border-b border-neutral-gray/20 ${status === 'off' ? '' : 'bg-goldenrod/10'}`}>
+      <div className="max-w-4xl mx-auto px-3 py-2 flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          {isTyping ? (
+            <Loader className="h-4 w-4 text-goldenrod animate-spin flex-shrink-0" />
+          ) : (
+            <Bot className="h-4 w-4 text-goldenrod flex-shrink-0" />
+          )}
+          <span className="text-sm text-dark-gray truncate">
+            <span className="font-medium">{text.label}:</span> {message}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {status !== 'on' && (
+            <button
+              onClick={onStart}
+              className="inline-flex items-center gap-1 px-3 py-1 text-sm font-medium text-dark-gray bg-gradient-to-r from-desert-sand to-champagne hover:from-champagne hover:to-goldenrod rounded-lg transition-all duration-200"
+            >
+              <Play className="h-3 w-3" />
+              <span>{status === 'paused' ? text.resume : text.start}</span>
+            </button>
+          )}
+          {status !== 'off' && (
+            <button
+              onClick={onTakeOver}
+              className="inline-flex items-center gap-1 px-3 py-1 text-sm font-medium text-white bg-dark-gray hover:bg-black rounded-lg transition-colors"
+            >
+              <Hand className="h-3 w-3" />
+              <span>{text.takeOver}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutopilotBar;
@@ -1,12 +1,14 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { db } from './firebase';
-import { doc, setDoc, collection, getDoc } from 'firebase/firestore';
 import { useNavigate } from 'react-router-dom';
 import { Loader, Sparkles, CheckCircle, AlertCircle } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { motion, AnimatePresence } from 'framer-motion';
 import blackLogo from './assets/black-logo2.png';
 import { validateBrandName, validateUserName, validateEmail, APP_CONFIG } from './types/constants';
+import { CURRENT_SCHEMA_VERSION, getInterviewRepository } from './services/interviews';
+import { DEFAULT_PERSONA_ID, getPersona, getPersonas, getQuestionnaire } from './services/questionnaire';
+import { LOCALES, format, isLocale } from './i18n';
+import { useLocale } from './i18n/context';
 
 interface FormData {
     brandName: string;
@@ -59,6 +61,11 @@ const BrandEntry: React.FC = () => {
     const [isFormValid, setIsFormValid] = useState(false);
     
     const navigate = useNavigate();
+    const { locale, setLocale, strings } = useLocale();
+    const text = strings.brandEntry;
+    // Demo sessions suggest answers from the chosen persona and borrow its brand name
+    const [personaId, setPersonaId] = useState(DEFAULT_PERSONA_ID);
+    const persona = APP_CONFIG.DEMO_MODE_ENABLED ? getPersona(personaId, locale) : null;
 
     // Enhanced validation with real-time feedback
     const validateField = useCallback((fieldName: keyof FormData, value: string): { isValid: boolean; error?: string } => {
@@ -72,8 +79,8 @@ const BrandEntry: React.FC = () => {
                     return { 
                         isValid: false, 
                         error: value.length > APP_CONFIG.MAX_BRAND_NAME_LENGTH 
-                            ? `Brand name too long (max ${APP_CONFIG.MAX_BRAND_NAME_LENGTH} characters)`
-                            : 'Brand name contains invalid characters'
+                            ? format(text.brandNameTooLong, { max: APP_CONFIG.MAX_BRAND_NAME_LENGTH })
+                            : text.brandNameInvalid
                     };
                 }
                 break;
@@ -83,8 +90,8 @@ const BrandEntry: React.FC = () => {
                     return { 
                         isValid: false, 
                         error: value.length > APP_CONFIG.MAX_USER_NAME_LENGTH 
-                            ? `Name too long (max ${APP_CONFIG.MAX_USER_NAME_LENGTH} characters)`
-                            : 'Name contains invalid characters'
+                            ? format(text.nameTooLong, { max: APP_CONFIG.MAX_USER_NAME_LENGTH })
+                            : text.nameInvalid
                     };
                 }
                 break;
@@ -93,14 +100,14 @@ const BrandEntry: React.FC = () => {
                 if (!validateEmail(value)) {
                     return { 
                         isValid: false, 
-                        error: 'Please enter a valid email address'
+                        error: text.emailInvalid
                     };
                 }
                 break;
         }
         
         return { isValid: true };
-    }, []);
+    }, [text]);
 
     // Generate preview of default values with enhanced logic
     useEffect(() => {
@@ -117,14 +124,14 @@ const BrandEntry: React.FC = () => {
         if (!formData.brandName.trim()) {
             const firstname = formData.name.trim() || defaults.name || `Demo_${uniqueId}`;
             const cleanName = firstname.split(' ')[0].replace(/[^a-zA-Z]/g, '');
-            defaults.brandName = `${cleanName}'s Brand`;
+            defaults.brandName = persona ? persona.brandName : format(text.demoBrandName, { name: cleanName });
         }
         if (!formData.email.trim()) {
             defaults.email = `demo.${uniqueId.toLowerCase()}@example.com`;
         }
 
         setPreviewDefaults(defaults);
-    }, [formData]);
+    }, [formData, text, persona]);
 
     // Real-time validation with debouncing
     useEffect(() => {
@@ -186,7 +193,7 @@ const BrandEntry: React.FC = () => {
 
         if (!sanitizedData.brandName) {
             const firstname = sanitizedData.name.split(' ')[0].replace(/[^a-zA-Z]/g, '');
-            sanitizedData.brandName = `${firstname}'s Brand`;
+            sanitizedData.brandName = persona ? persona.brandName : format(text.demoBrandName, { name: firstname });
         }
 
         if (!sanitizedData.email) {
@@ -214,24 +221,23 @@ const BrandEntry: React.FC = () => {
             const validation = validateForm();
             if (!validation.isValid) {
                 setIsLoading(false);
-                toast.error('Please fix the errors before continuing');
+                toast.error(text.fixErrors);
                 return;
             }
 
             const { sanitizedData } = validation;
 
-            // Enhanced interview document creation with retry logic
-            const interviewsCollection = collection(db, 'interviews');
-            const newInterviewRef = doc(interviewsCollection);
-            
             const interviewData = {
+                schemaVersion: CURRENT_SCHEMA_VERSION,
                 brandName: sanitizedData.brandName.trim(),
                 threadId: null,
                 createdAt: new Date(),
                 lastUpdated: new Date(),
-                currentPhase: 'discovery',
+                currentPhase: getQuestionnaire(locale).phases[0].id,
+                locale,
+                ...(persona ? { persona: persona.id } : {}),
                 questionCount: 0,
-                messages: [],
+                actualQuestionIndex: 0,
                 reports: {},
                 contactInfo: {
                     name: sanitizedData.name.trim(),
@@ -247,42 +253,18 @@ const BrandEntry: React.FC = () => {
 
             console.log('Creating enhanced interview document:', interviewData);
 
-            // Retry logic for Firestore operations
-            let retryCount = 0;
-            const maxRetries = 3;
-            
-            while (retryCount < maxRetries) {
-                try {
-                    await setDoc(newInterviewRef, interviewData);
-                    
-                    // Enhanced verification
-                    const verifyDoc = await getDoc(newInterviewRef);
-                    if (!verifyDoc.exists()) {
-                        throw new Error('Failed to create interview document');
-                    }
-                    
-                    const verifiedData = verifyDoc.data();
-                    if (!verifiedData.brandName || !verifiedData.contactInfo) {
-                        throw new Error('Interview document incomplete');
-                    }
-                    
-                    console.log('Interview document verified successfully:', verifiedData);
-                    break;
-                    
-                } catch (error) {
-                    retryCount++;
-                    if (retryCount >= maxRetries) {
-                        throw error;
-                    }
-                    
-                    console.warn(`Retry ${retryCount}/${maxRetries} for document creation`);
-                    await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
-                }
-            }
+            // Retried and verified by the repository
+            const interviewId = await getInterviewRepository().create(interviewData);
 
             // Enhanced session storage with metadata
-            sessionStorage.setItem('interviewId', newInterviewRef.id);
+            sessionStorage.setItem('interviewId', interviewId);
             sessionStorage.setItem('brandName', sanitizedData.brandName.trim());
+            if (persona) {
+                sessionStorage.setItem('persona', persona.id);
+            } else {
+                sessionStorage.removeItem('persona');
+            }
+            setLocale(locale);
             sessionStorage.setItem('sessionMetadata', JSON.stringify({
                 startTime: new Date().toISOString(),
                 isDemo: interviewData.metadata.isDemo,
@@ -292,11 +274,11 @@ const BrandEntry: React.FC = () => {
             // Success animation delay
             await new Promise(resolve => setTimeout(resolve, 500));
 
-            toast.success('Session created successfully! Starting your brand journey...');
+            toast.success(text.created);
             
             // Navigate with slight delay for better UX
             setTimeout(() => {
-                navigate(`/chat/${newInterviewRef.id}`);
+                navigate(`/chat/${interviewId}`);
             }, 800);
 
         } catch (error) {
@@ -305,14 +287,14 @@ const BrandEntry: React.FC = () => {
             // Enhanced error handling
             if (error instanceof Error) {
                 if (error.message.includes('network') || error.message.includes('offline')) {
-                    toast.error('Network error. Please check your connection and try again.');
+                    toast.error(text.networkError);
                 } else if (error.message.includes('permission') || error.message.includes('auth')) {
-                    toast.error('Access denied. Please refresh the page and try again.');
+                    toast.error(text.accessDenied);
                 } else {
-                    toast.error('Failed to create session. Please try again.');
+                    toast.error(text.createFailed);
                 }
             } else {
-                toast.error('An unexpected error occurred. Please try again.');
+                toast.error(text.unexpectedError);
             }
         } finally {
             setIsLoading(false);
@@ -337,6 +319,16 @@ const BrandEntry: React.FC = () => {
         }));
     };
 
+    const handleLocaleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        if (isLocale(e.target.value)) {
+            setLocale(e.target.value);
+        }
+    };
+
+    const handlePersonaChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        setPersonaId(e.target.value);
+    };
+
     const handleInputFocus = (fieldName: keyof FormData) => {
         setFieldStates(prev => ({
             ...prev,
@@ -402,11 +394,11 @@ const BrandEntry: React.FC = () => {
                         </motion.div> */}
                         
                         <h1 className="text-2xl font-bold text-dark-gray mb-2">
-                            Brand Alchemy Spark
+                            {text.title}
                         </h1>
                         
                         <p className="text-dark-gray/80 text-sm">
-                            Discover your brand's authentic essence in minutes
+                            {text.subtitle}
                         </p>
                     </div>
 
@@ -424,10 +416,10 @@ const BrandEntry: React.FC = () => {
                                 </div>
                                 <div>
                                     <h4 className="font-semibold text-dark-gray text-sm">
-                                        Demo Mode Available
+                                        {text.demoTitle}
                                     </h4>
                                     <p className="text-xs text-neutral-gray">
-                                        Leave fields blank for automatic demo values
+                                        {text.demoHint}
                                     </p>
                                 </div>
                             </div>
@@ -439,6 +431,55 @@ const BrandEntry: React.FC = () => {
                         
                         {/* Form fields */}
                         <div className="space-y-4">
+                            {/* Interview language: the questions, the assistant's replies and the reports follow it */}
+                            <motion.div
+                                initial={{ opacity: 0, x: -20 }}
+                                animate={{ opacity: 1, x: 0 }}
+                                transition={{ delay: 0.65 }}
+                            >
+                                <label htmlFor="locale" className="block text-sm font-medium text-dark-gray mb-2">
+                                    {text.languageLabel}
+                                </label>
+                                <select
+                                    id="locale"
+                                    className="w-full px-4 py-3 rounded-lg border-2 border-neutral-gray/30 bg-white transition-all duration-200 focus:border-goldenrod focus:ring-goldenrod/20 focus:outline-none focus:ring-4"
+                                    value={locale}
+                                    onChange={handleLocaleChange}
+                                    disabled={isLoading}
+                                >
+                                    {LOCALES.map(option => (
+                                        <option key={option.id} value={option.id}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </motion.div>
+
+                            {/* Demo persona: whose answers are suggested during the interview */}
+                            {persona && (
+                                <motion.div
+                                    initial={{ opacity: 0, x: -20 }}
+                                    animate={{ opacity: 1, x: 0 }}
+                                    transition={{ delay: 0.68 }}
+                                >
+                                    <label htmlFor="persona" className="block text-sm font-medium text-dark-gray mb-2">
+                                        {text.personaLabel}
+                                    </label>
+                                    <select
+                                        id="persona"
+                                        className="w-full px-4 py-3 rounded-lg border-2 border-neutral-gray/30 bg-white transition-all duration-200 focus:border-goldenrod focus:ring-goldenrod/20 focus:outline-none focus:ring-4"
+                                        value={persona.id}
+                                        onChange={handlePersonaChange}
+                                        disabled={isLoading}
+                                    >
+                                        {getPersonas(locale).map(option => (
+                                            <option key={option.id} value={option.id}>{option.label}</option>
+                                        ))}
+                                    </select>
+                                    <p className="text-xs text-neutral-gray mt-2">
+                                        {format(text.personaHint, { description: persona.description })}
+                                    </p>
+                                </motion.div>
+                            )}
+
                             {/* Brand Name Field */}
                             <motion.div
                                 initial={{ opacity: 0, x: -20 }}
@@ -446,7 +487,7 @@ const BrandEntry: React.FC = () => {
                                 transition={{ delay: 0.7 }}
                             >
                                 <label className="block text-sm font-medium text-dark-gray mb-2">
-                                    Brand Name
+                                    {text.brandNameLabel}
                                 </label>
                                 <div className="relative">
                                     <input
@@ -458,7 +499,7 @@ const BrandEntry: React.FC = () => {
                                                 : 'border-neutral-gray/30 focus:border-goldenrod focus:ring-goldenrod/20'
                                         } focus:outline-none focus:ring-4`}
                                         type="text"
-                                        placeholder="Your Brand Name (Leave blank for demo)"
+                                        placeholder={text.brandNamePlaceholder}
                                         name="brandName"
                                         value={formData.brandName}
                                         onChange={handleInputChange}
@@ -479,7 +520,7 @@ const BrandEntry: React.FC = () => {
                                             exit={{ opacity: 0, y: -10 }}
                                             className="text-xs text-goldenrod mt-2 bg-goldenrod/5 px-2 py-1 rounded"
                                         >
-                                            Demo value: <span className="font-medium">{previewDefaults.brandName}</span>
+                                            {text.demoValue} <span className="font-medium">{previewDefaults.brandName}</span>
                                         </motion.p>
                                     )}
                                     
@@ -503,7 +544,7 @@ const BrandEntry: React.FC = () => {
                                 transition={{ delay: 0.8 }}
                             >
                                 <label className="block text-sm font-medium text-dark-gray mb-2">
-                                    Your Name
+                                    {text.nameLabel}
                                 </label>
                                 <div className="relative">
                                     <input
@@ -515,7 +556,7 @@ const BrandEntry: React.FC = () => {
                                                 : 'border-neutral-gray/30 focus:border-goldenrod focus:ring-goldenrod/20'
                                         } focus:outline-none focus:ring-4`}
                                         type="text"
-                                        placeholder="Your Name (Leave blank for demo)"
+                                        placeholder={text.namePlaceholder}
                                         name="name"
                                         value={formData.name}
                                         onChange={handleInputChange}
@@ -536,7 +577,7 @@ const BrandEntry: React.FC = () => {
                                             exit={{ opacity: 0, y: -10 }}
                                             className="text-xs text-goldenrod mt-2 bg-goldenrod/5 px-2 py-1 rounded"
                                         >
-                                            Demo value: <span className="font-medium">{previewDefaults.name}</span>
+                                            {text.demoValue} <span className="font-medium">{previewDefaults.name}</span>
                                         </motion.p>
                                     )}
                                     
@@ -560,7 +601,7 @@ const BrandEntry: React.FC = () => {
                                 transition={{ delay: 0.9 }}
                             >
                                 <label className="block text-sm font-medium text-dark-gray mb-2">
-                                    Email Address
+                                    {text.emailLabel}
                                 </label>
                                 <div className="relative">
                                     <input
@@ -572,7 +613,7 @@ const BrandEntry: React.FC = () => {
                                                 : 'border-neutral-gray/30 focus:border-goldenrod focus:ring-goldenrod/20'
                                         } focus:outline-none focus:ring-4`}
                                         type="email"
-                                        placeholder="Email Address (Leave blank for demo)"
+                                        placeholder={text.emailPlaceholder}
                                         name="email"
                                         value={formData.email}
                                         onChange={handleInputChange}
@@ -593,7 +634,7 @@ const BrandEntry: React.FC = () => {
                                             exit={{ opacity: 0, y: -10 }}
                                             className="text-xs text-goldenrod mt-2 bg-goldenrod/5 px-2 py-1 rounded"
                                         >
-                                            Demo value: <span className="font-medium">{previewDefaults.email}</span>
+                                            {text.demoValue} <span className="font-medium">{previewDefaults.email}</span>
                                         </motion.p>
                                     )}
                                     
@@ -632,7 +673,7 @@ const BrandEntry: React.FC = () => {
                                         className="flex items-center justify-center gap-3"
                                     >
                                         <Loader className="animate-spin h-5 w-5" />
-                                        Creating Your Brand Journey...
+                                        {text.submitting}
                                     </motion.span>
                                 ) : (
                                     <motion.span
@@ -643,7 +684,7 @@ const BrandEntry: React.FC = () => {
                                         className="flex items-center justify-center gap-3"
                                     >
                                         {/* <Sparkles className="h-5 w-5" /> */}
-                                        Get Your Brand Alchemy Spark
+                                        {text.submit}
                                     </motion.span>
                                 )}
                             </AnimatePresence>
@@ -656,7 +697,7 @@ const BrandEntry: React.FC = () => {
                             transition={{ delay: 1.1 }}
                             className="text-xs text-neutral-gray text-center"
                         >
-                            Personal info not required for this 5-10 min demo
+                            {text.timeNote}
                         </motion.p>
                     </form>
                 </div>
@@ -1,8 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import OpenAI from 'openai';
 import { useNavigate, useParams } from 'react-router-dom';
-import { db } from './firebase';
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
 import toast from 'react-hot-toast';
 import { motion } from 'framer-motion';
 import { Download, FileText } from 'lucide-react';
@@ -11,72 +8,148 @@ import { Interview, Message, PhaseId, isValidPhase } from './types/interview';
 import MessageInput from './MessageInput';
 import MessageBubble from './MessageBubble';
 import PhaseProgress from './PhaseProgress';
+import AutopilotBar from './AutopilotBar';
+import { useAutopilot } from './useAutopilot';
+import { useOutbox } from './useOutbox';
+import OutboxBar from './OutboxBar';
+import { AssistantTurn, AwaitTurnOptions, CompletablePhase, getLLMProvider, renderLanguageNote } from './services/llm';
+import { applyRunUsage, createRunUsageRecord, isOverBudget } from './services/usage';
+import { changedMessages, getInterviewRepository, loadMessages } from './services/interviews';
+import { OutboxItem, QueuedTurn, pendingMessages, queuedTurns, withQueuedSaves } from './services/outbox';
+import { buildConversationSeed } from './services/compaction';
 import { config } from './config/environment';
-import { PREDEFINED_QUESTIONS, MOCK_ANSWERS, QUESTION_SIGNATURES_FLAT, getDemoAnswerForQuestion } from './types/constants';
-import { ProcessingStage, processingMessages } from './types/constants';
+import { ChatError } from './services/errors';
+import { StreamingContent, parseStreamingContent } from './services/streamingContent';
+import { InvalidReport, REQUIRED_SECTIONS, ReportVersions, createReportVersion, extractReports, withUnversionedReports } from './services/reports';
+import { REPORT_TYPES, ReportType, ReportVersion, StructuredReport, isReportType } from './types/report';
+import { InterviewUsage, RunKind } from './types/usage';
+import type { TimingStats } from './types/timing';
+import { measureLatestAnswer } from './services/timings';
+import { Questionnaire, getPersona, getQuestionnaire, questionnaire } from './services/questionnaire';
+import { QuestionProgress, backfillQuestionIds, countFollowUps, deriveQuestionProgress, settleLatestAnswer } from './services/questionnaire/progress';
+import { assessAnswer } from './services/questionnaire/depth';
+import { composeAnswer, getAnswerNote, isAnswerComplete } from './services/questionnaire/answers';
+import { RevisableAnswer, buildRevisionPrompt, getAffectedReports, getRevisableAnswers, reviseAnswer } from './services/revision';
+import type { QuestionnaireQuestion, StructuredAnswer } from './types/questionnaire';
+import { ProcessingStage } from './types/constants';
 import { generatePDF } from './pdfGenerator';
+import { DEFAULT_LOCALE, Locale, format, formatNumber } from './i18n';
+import { useLocale } from './i18n/context';
 
-// Enhanced error types for better error handling
-class ChatError extends Error {
-  constructor(message: string, public type: 'network' | 'api' | 'validation' | 'timeout' = 'api') {
-    super(message);
-    this.name = 'ChatError';
-  }
+// Tag an assistant message with the question it asks: the next open question on the path
+const withAskedQuestion = (message: Message, { path, nextQuestionIndex }: QuestionProgress): Message => {
+  const question = message.phase === 'complete' ? null : path.getQuestion(nextQuestionIndex);
+  return question ? { ...message, questionId: question.id } : message;
+};
+
+interface DepthGate {
+  /** True when the assistant should ask for more; false when the follow-ups are used up */
+  followUp: boolean;
+  note: string;
 }
 
-// NEW: A more flexible and robust check for whether an answer is substantive.
-const isSubstantive = (content: string, questionIndex: number): boolean => {
-  const trimmed = content.trim();
-  // An answer is not substantive if it's very short.
-  if (trimmed.length < 20) return false;
-
-  // Check if the answer is an exact match for any of the mock answers.
-  const allMockAnswers = [
-    ...MOCK_ANSWERS.discovery,
-    ...MOCK_ANSWERS.messaging,
-    ...MOCK_ANSWERS.audience
-  ];
-
-  // If the user's answer exactly matches a known mock answer...
-  if (allMockAnswers.includes(trimmed as typeof allMockAnswers[number])) {
-    // ...it's only considered substantive if it matches the mock answer for the *current* question.
-    // This allows the user to use the suggestion, but prevents them from copy-pasting answers for other questions.
-    return trimmed === allMockAnswers[questionIndex];
+/**
+ * Hold a shallow answer back for a follow-up, up to the question's cap.
+ * Once the cap is reached the assistant is told to accept the answer and move on.
+ */
+const gateAnswerDepth = (content: string, questionId: string, history: Message[], source: Questionnaire): DepthGate | null => {
+  const { sufficient, missing } = assessAnswer(content, questionId, source);
+  const followUpsAllowed = source.getDepthRubric(questionId).maxFollowUps ?? 0;
+  if (sufficient || followUpsAllowed === 0) return null;
+
+  if (countFollowUps(history, questionId) < followUpsAllowed) {
+    return {
+      followUp: true,
+      note: `My previous answer was brief. Please ask me a clarifying follow-up question to help me provide more detail before we move on. It is missing: ${missing.join('; ')}.`
+    };
   }
+  return {
+    followUp: false,
+    note: 'I have already been asked for more detail on this question. Please accept my answer as it is and continue with the next question.'
+  };
+};
 
-  // If it's long enough and not a mismatched mock answer, it's substantive.
-  return true;
+// A widget answer counts once complete; the text box then holds an optional note rather than the answer
+const getWidgetAnswer = (question: QuestionnaireQuestion | null | undefined, answer: StructuredAnswer | null): StructuredAnswer | null => {
+  return question?.input && answer && isAnswerComplete(question.input, answer) ? answer : null;
 };
 
+// The assistant's instructions list the default questions in English; name the question when this
+// interview's path branches, and always when it runs in another language
+const withNextQuestionNote = (content: string, nextQuestion: QuestionnaireQuestion | null, locale: Locale): string => {
+  if (!nextQuestion || (!nextQuestion.when && locale === DEFAULT_LOCALE)) return content;
+  return `${content}\n\n[Interview Path: the next question for this interview is "${nextQuestion.text}" Ask it in place of the listed question when you reach it.]`;
+};
+
+const COMPLETABLE_PHASES: readonly CompletablePhase[] = questionnaire.completablePhases;
+const FIRST_PHASE = questionnaire.phases[0].id;
+
+// Lines where the assistant moves on to the next phase, in each language it may reply in
+const TRANSITION_PHRASES = [
+  'now that we', 'building upon', 'let\'s transform', 'let\'s explore', 'let\'s move on',
+  'ahora que', 'partiendo de', 'transformemos', 'exploremos', 'pasemos'
+];
 
 const Chat: React.FC = () => {
+  // ProtectedRoute has already switched to the interview's locale
+  const { locale, strings } = useLocale();
+  const text = strings.chat;
+  // Worded for the interview's locale, with the demo persona picked at BrandEntry supplying suggested answers
+  const personaId = sessionStorage.getItem('persona');
+  const persona = getPersona(personaId, locale);
+  const source = getQuestionnaire(locale, personaId);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
-  const [currentPhase, setCurrentPhase] = useState<PhaseId>('discovery');
+  const [currentPhase, setCurrentPhase] = useState<PhaseId>(FIRST_PHASE);
   const [questionCount, setQuestionCount] = useState(0);
   const [reports, setReports] = useState<Interview['reports']>({});
   const [threadId, setThreadId] = useState<string | null>(null);
   const [suggestedAnswer, setSuggestedAnswer] = useState<string | null>(null);
   const [processingStage, setProcessingStage] = useState<ProcessingStage>('sending');
   const [lastProcessedMessageCount, setLastProcessedMessageCount] = useState(0);
-  const [retryCount, setRetryCount] = useState(0);
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [isStopping, setIsStopping] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<StreamingContent | null>(null);
   const [actualQuestionIndex, setActualQuestionIndex] = useState(0);
+  // The questions this interview is asked, given its answers and attributes so far
+  const [questionPath, setQuestionPath] = useState<Questionnaire>(() => source.resolvePath());
+  // The earlier answer being edited in the input box, if any
+  const [revision, setRevision] = useState<RevisableAnswer | null>(null);
+  // Value of the open question's answer widget, sent as text alongside any note typed in the input box
+  const [structuredAnswer, setStructuredAnswer] = useState<StructuredAnswer | null>(null);
+  // How long each question takes across interviews, for the time-left estimate
+  const [timingStats, setTimingStats] = useState<TimingStats>({});
   const messageListRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const progressManager = useRef<ProgressManager | null>(null);
+  // A ref, not state: runs chain across awaits and must always see the latest totals
+  const usageRef = useRef<InterviewUsage | undefined>(undefined);
+  // Stop-generating state: the turn currently running, whether stop was pressed, and the cleanup in flight
+  const activeTurnRef = useRef<string | null>(null);
+  const stopRequestedRef = useRef(false);
+  const pendingCancelRef = useRef<Promise<void> | null>(null);
+  // Latest transcript for compaction, which runs at the end of a long async chain
+  const messagesRef = useRef<Message[]>([]);
+  // The transcript as last stored, so a save writes only the messages added or changed since
+  const storedMessagesRef = useRef<Message[]>([]);
+  // Attributes from record_attribute calls; read while working out the question path
+  const attributesRef = useRef<Record<string, string>>({});
+  // Every saved version of each report; a new version is added, never replaced
+  const reportVersionsRef = useRef<ReportVersions>({});
+  // How many versions of each report are stored, so a save writes only the versions added since
+  const storedVersionCountsRef = useRef<Partial<Record<ReportType, number>>>({});
+  // Strings for the load effect, which runs once per interview and not again when the language changes
+  const textRef = useRef(text);
   const navigate = useNavigate();
   const { interviewId: urlInterviewId } = useParams<{ interviewId: string }>();
   const inputBoxRef = useRef<HTMLDivElement>(null);
 
   const interviewId = urlInterviewId || sessionStorage.getItem('interviewId');
 
-  const openai = new OpenAI({
-    apiKey: config.openai.apiKey,
-    dangerouslyAllowBrowser: true
-  });
+  const llm = getLLMProvider();
+  const interviews = getInterviewRepository();
 
   const scrollToBottom = useCallback((behavior: ScrollBehavior = 'smooth') => {
     if (messageListRef.current) {
@@ -87,61 +160,26 @@ const Chat: React.FC = () => {
     }
   }, []);
 
-  // REWRITTEN: A single-pass, more accurate progress calculation function.
-  const calculateQuestionProgress = useCallback((messageHistory: Message[]): { answeredCount: number; nextQuestionIndex: number } => {
-    let answeredCount = 0;
-    const answeredQuestionIndices = new Set<number>();
-
-    // This single loop accurately ties user answers to the questions that precede them.
-    for (let i = 0; i < messageHistory.length - 1; i++) {
-        const currentMessage = messageHistory[i];
-        if (currentMessage.role !== 'assistant') continue;
-
-        const messageContent = currentMessage.content.toLowerCase();
-        let questionIndexFound = -1;
-
-        // Find which predefined question is in this assistant message.
-        for (let qIndex = 0; qIndex < PREDEFINED_QUESTIONS.length; qIndex++) {
-            // Skip questions that we've already confirmed are answered.
-            if (answeredQuestionIndices.has(qIndex)) continue;
-
-            // Use the more reliable, longer signatures for matching.
-            const questionSignatures = QUESTION_SIGNATURES_FLAT[qIndex];
-            for (const signature of questionSignatures) {
-                if (messageContent.includes(signature.toLowerCase())) {
-                    questionIndexFound = qIndex;
-                    break;
-                }
-            }
+  // Progress comes from the questionId and answerStatus stored on each message
+  const calculateQuestionProgress = useCallback((messageHistory: Message[]): QuestionProgress => {
+    const progress = deriveQuestionProgress(messageHistory, attributesRef.current, source);
+    console.log(`Question tracking: answered=${progress.answeredCount}, nextIndex=${progress.nextQuestionIndex}`);
+    return progress;
+  }, [source]);
 
-            if (questionIndexFound !== -1) {
-                // A question was found. Check if the immediately following message is a substantive answer from the user.
-                const nextMessage = messageHistory[i + 1];
-                if (nextMessage && nextMessage.role === 'user' && isSubstantive(nextMessage.content, questionIndexFound)) {
-                    answeredCount++;
-                    answeredQuestionIndices.add(questionIndexFound);
-                }
-                break; // Stop searching for questions in this message.
-            }
-        }
-    }
 
-    const nextQuestionIndex = answeredCount;
-    console.log(`Question tracking REVISED: answered=${answeredCount}, nextIndex=${nextQuestionIndex}`);
-    return {
-        answeredCount,
-        nextQuestionIndex
-    };
+  // Render the reply as it streams in, holding back any report that is still being written
+  const handleStreamDelta = useCallback((contentSoFar: string) => {
+    setStreamingReply(parseStreamingContent(contentSoFar));
   }, []);
 
-
-  const findAndSetSuggestedAnswer = useCallback((assistantContent: string, phase: PhaseId, currentQuestionIndex: number) => {
+  const findAndSetSuggestedAnswer = useCallback((assistantContent: string, phase: PhaseId, path: Questionnaire, currentQuestionIndex: number) => {
     if (phase === 'complete') {
       setSuggestedAnswer(null);
       return;
     }
     // This now uses the much more reliable index from the new `calculateQuestionProgress`.
-    const demoAnswer = getDemoAnswerForQuestion(assistantContent, phase, currentQuestionIndex);
+    const demoAnswer = path.getDemoAnswer(assistantContent, phase, currentQuestionIndex);
     if (demoAnswer) {
       console.log(`Setting demo answer for ${phase} phase, question index: ${currentQuestionIndex}`);
       setSuggestedAnswer(demoAnswer);
@@ -150,31 +188,27 @@ const Chat: React.FC = () => {
     }
   }, []);
 
-  const downloadReport = async (reportType: 'discovery' | 'messaging' | 'audience' | 'complete') => {
+  const downloadReport = async (reportType: ReportType) => {
     if (!reports[reportType]) {
-      toast.error('Report not available');
+      toast.error(text.reportUnavailable);
       return;
     }
     
     try {
       const brandName = sessionStorage.getItem('brandName') || 'Brand';
-      const phaseNames = {
-        discovery: 'Discovery',
-        messaging: 'Messaging', 
-        audience: 'Audience',
-        complete: 'Complete Brand Analysis'
-      };
       
       await generatePDF({
         brandName,
         reportParts: [reports[reportType]!],
-        phaseName: phaseNames[reportType]
+        phaseName: strings.reports.fileNames[reportType],
+        reportType,
+        locale
       });
       
-      toast.success('Report downloaded successfully!');
+      toast.success(text.reportDownloaded);
     } catch (error) {
       console.error('Download failed:', error);
-      toast.error('Failed to download report');
+      toast.error(text.reportDownloadFailed);
     }
   };
 
@@ -184,14 +218,24 @@ const Chat: React.FC = () => {
     }
   }, [messages, isTyping, scrollToBottom]);
 
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    textRef.current = text;
+  }, [text]);
+
   useEffect(() => {
     if (messages.length > lastProcessedMessageCount) {
-      const { answeredCount, nextQuestionIndex } = calculateQuestionProgress(messages);
+      const { answeredCount, nextQuestionIndex, path } = calculateQuestionProgress(messages);
+      // A recorded attribute can change the path without changing the count
+      setQuestionPath(path);
       
       if (answeredCount !== questionCount) {
         setQuestionCount(answeredCount);
         setActualQuestionIndex(nextQuestionIndex); // This state is now more reliable.
-        console.log(`Question count updated: ${answeredCount}/${PREDEFINED_QUESTIONS.length}, nextQuestionIndex: ${nextQuestionIndex}`);
+        console.log(`Question count updated: ${answeredCount}/${path.totalQuestions}, nextQuestionIndex: ${nextQuestionIndex}`);
       }
       setLastProcessedMessageCount(messages.length);
     }
@@ -258,117 +302,6 @@ const Chat: React.FC = () => {
     }
   }, [isTyping]);
 
-  // FIXED: Enhanced API call with context trimming and better timeout handling
-  const waitForRunCompletion = async (threadId: string, runId: string, maxAttempts = 40) => { // Increased attempts
-    let attempts = 0;
-    
-    while (attempts < maxAttempts) {
-      try {
-        const runStatus = await openai.beta.threads.runs.retrieve(threadId, runId);
-        
-        if (runStatus.status === 'completed') {
-          return true;
-        }
-        
-        if (runStatus.status === 'failed' || runStatus.status === 'cancelled') {
-          console.error('Run failed:', runStatus.last_error);
-          throw new ChatError(`Run ${runStatus.status}: ${runStatus.last_error?.message || 'Unknown error'}`, 'api');
-        }
-        
-        if (runStatus.status === 'requires_action') {
-          console.log('Run requires action, waiting...');
-        }
-        
-        // Progressive timeout increase for long operations
-        const waitTime = attempts < 10 ? 1000 : attempts < 20 ? 2000 : 3000;
-        await new Promise(resolve => setTimeout(resolve, waitTime));
-        attempts++;
-        
-        // Show progress for long operations
-        if (attempts > 15 && attempts % 5 === 0) {
-          console.log(`Still processing... (${attempts}/${maxAttempts})`);
-          setProcessingStage('thinking');
-        }
-        
-      } catch (error) {
-        console.error(`Attempt ${attempts + 1} failed:`, error);
-        if (attempts >= maxAttempts - 1) throw error;
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        attempts++;
-      }
-    }
-    
-    throw new ChatError('Request timed out after extended wait', 'timeout');
-  };
-
-  // NEW: Context trimming to prevent overflow
-  const trimContextIfNeeded = async (threadId: string) => {
-    try {
-      const messages = await openai.beta.threads.messages.list(threadId, { limit: 50 });
-      const messageCount = messages.data.length;
-      
-      // If we have too many messages, we need to manage context
-      if (messageCount > 40) {
-        console.log(`Context has ${messageCount} messages, considering trimming`);
-        
-        // For now, just log - in production, you might implement context summarization
-        // or selective message removal while preserving key information
-        toast('Large conversation detected. Processing may take longer.', {
-          icon: 'ℹ️',
-          duration: 4000
-        });
-      }
-    } catch (error) {
-      console.warn('Could not check context size:', error);
-    }
-  };
-
-  const checkRunStatus = async (threadId: string, runId: string) => {
-    try {
-      const runStatus = await openai.beta.threads.runs.retrieve(threadId, runId);
-      return runStatus.status;
-    } catch (error) {
-      console.error('Error checking run status:', error);
-      return 'failed';
-    }
-  };
-
-  const cancelRun = async (threadId: string, runId: string) => {
-    try {
-      await openai.beta.threads.runs.cancel(threadId, runId);
-      
-      let status;
-      do {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        status = await checkRunStatus(threadId, runId);
-      } while (status === 'cancelling');
-      
-    } catch (error) {
-      console.log('Run already completed or cancelled');
-    }
-  };
-
-  const ensureNoActiveRuns = async (threadId: string) => {
-    try {
-      const runs = await openai.beta.threads.runs.list(threadId);
-      const activeRuns = runs.data.filter(run => 
-        ['in_progress', 'queued', 'cancelling'].includes(run.status)
-      );
-      
-      for (const run of activeRuns) {
-        console.log(`Cancelling active run: ${run.id}`);
-        await cancelRun(threadId, run.id);
-      }
-      
-      if (activeRuns.length > 0) {
-        await new Promise(resolve => setTimeout(resolve, 3000));
-      }
-    } catch (error) {
-      console.error('Error managing active runs:', error);
-      throw new ChatError('Failed to manage active runs', 'api');
-    }
-  };
-
   // Enhanced initialization with better error recovery
   const initializeChat = async () => {
     const savedState = sessionStorage.getItem(`interview_${interviewId}_state`);
@@ -397,130 +330,195 @@ const Chat: React.FC = () => {
     }
 
     try {
-      const interviewDoc = await getDoc(doc(db, 'interviews', interviewId));
-      if (!interviewDoc.exists()) {
+      const interviewData = await interviews.load(interviewId);
+      if (!interviewData) {
         throw new ChatError('Interview not found', 'validation');
       }
 
-      const interviewData = interviewDoc.data() as Interview;
       console.log('Chat initialization - Interview data:', interviewData);
       
       let threadId = interviewData.threadId;
 
       if (!threadId) {
-        const newThread = await openai.beta.threads.create();
-        threadId = newThread.id;
+        threadId = await llm.createConversation(interviewId);
+        await interviews.saveThreadId(interviewId, threadId);
+      }
 
-        await updateDoc(doc(db, 'interviews', interviewId), {
-          threadId: newThread.id,
-          lastUpdated: new Date()
-        });
+      attributesRef.current = interviewData.attributes || {};
+
+      // The estimate falls back to the questionnaire's durations until these arrive, or if they never do
+      interviews.loadTimingStats()
+        .then(setTimingStats)
+        .catch(error => console.error('Error loading question timings:', error));
+
+      // Saves still in the outbox count as stored: it owns them until they go through
+      const queued = await outbox.load().catch(error => {
+        console.error('Error reading the outbox:', error);
+        return [];
+      });
+      const storedMessages = withQueuedSaves(await loadMessages(interviews, interviewId), queued);
+      storedMessagesRef.current = storedMessages;
+      // Older interviews have no question ids on their messages yet
+      const savedMessages = backfillQuestionIds(storedMessages);
+      if (savedMessages !== storedMessages) {
+        await updateInterviewMessages(savedMessages);
       }
 
+      const progress = calculateQuestionProgress(savedMessages);
+
       setThreadId(threadId);
-      setMessages(interviewData.messages || []);
-      setCurrentPhase(interviewData.currentPhase || 'discovery');
-      setQuestionCount(interviewData.questionCount || 0);
-      setActualQuestionIndex(interviewData.questionCount || 0);
+      // Unsent turns are shown as pending until they are replayed
+      setMessages([...savedMessages, ...queuedTurns(queued).map(turn => turn.message)]);
+      setCurrentPhase(interviewData.currentPhase || FIRST_PHASE);
+      setQuestionCount(progress.answeredCount);
+      setActualQuestionIndex(progress.nextQuestionIndex);
+      setQuestionPath(progress.path);
       setReports(interviewData.reports || {});
+      const storedVersions = await interviews.loadReportVersions(interviewId);
+      storedVersionCountsRef.current = Object.fromEntries(
+        Object.entries(storedVersions).map(([type, versions]) => [type, versions.length])
+      );
+      reportVersionsRef.current = withUnversionedReports(storedVersions, interviewData);
+      usageRef.current = interviewData.usage;
 
-      if (interviewData.messages.length === 0) {
+      if (savedMessages.length === 0) {
         await startNewConversation(threadId);
       } else {
         // Set demo answer when resuming existing conversation
-        const lastAssistantMessage = interviewData.messages
+        const lastAssistantMessage = savedMessages
           .filter(m => m.role === 'assistant')
           .pop();
         
         if (lastAssistantMessage) {
-          const { nextQuestionIndex } = calculateQuestionProgress(interviewData.messages);
           findAndSetSuggestedAnswer(
             lastAssistantMessage.content, 
             interviewData.currentPhase,
-            nextQuestionIndex
+            progress.path,
+            progress.nextQuestionIndex
           );
         }
       }
     } catch (error) {
       console.error('Error initializing chat:', error);
       if (error instanceof ChatError && error.type === 'validation') {
-        toast.error('Session not found. Please start a new journey.');
+        toast.error(text.sessionNotFound);
       } else {
-        toast.error('Failed to initialize chat. Please try again.');
+        toast.error(text.initFailed);
       }
       navigate('/');
     }
   };
 
+  // Every run goes through here, so it is checked against the budget and its usage is recorded
+  const runAssistantTurn = async (threadId: string, content: string, kind: RunKind, options: AwaitTurnOptions = {}): Promise<AssistantTurn> => {
+    if (isOverBudget(usageRef.current, config.usage.tokenBudget)) {
+      console.warn(`Interview ${interviewId} is over its token budget (${usageRef.current?.totalTokens}/${config.usage.tokenBudget})`);
+      throw new ChatError('Interview token budget exceeded', 'budget');
+    }
+
+    // A turn the provider never received can go to the outbox and be sent again later
+    if (!navigator.onLine) {
+      throw new ChatError('Browser is offline', 'offline');
+    }
+    let turnId: string;
+    try {
+      turnId = await llm.sendUserTurn(threadId, content);
+    } catch (error) {
+      if (!navigator.onLine) {
+        throw new ChatError(`Connection lost before the turn was sent: ${error instanceof Error ? error.message : 'Unknown error'}`, 'offline');
+      }
+      throw error;
+    }
+    activeTurnRef.current = turnId;
+    // Stop may have been pressed while the turn was still being created
+    if (stopRequestedRef.current) {
+      cancelActiveTurn(threadId, turnId);
+    }
+
+    let turn: AssistantTurn;
+    try {
+      turn = await llm.awaitAssistantTurn(threadId, turnId, options);
+    } finally {
+      activeTurnRef.current = null;
+    }
+
+    if (turn.usage && interviewId) {
+      try {
+        const record = createRunUsageRecord(kind, currentPhase, turn.usage);
+        await interviews.recordUsage(interviewId, record);
+        usageRef.current = applyRunUsage(usageRef.current, record);
+      } catch (error) {
+        // Accounting must never break the interview itself
+        console.error('Error recording usage:', error);
+      }
+    }
+
+    return turn;
+  };
+
+  const cancelActiveTurn = (threadId: string, turnId: string) => {
+    pendingCancelRef.current = llm.cancelTurn(threadId, turnId).catch(error => {
+      console.error('Error cancelling run:', error);
+      toast.error(text.stopFailed);
+    });
+  };
+
+  const stopGenerating = () => {
+    if (!threadId || !isLoading || stopRequestedRef.current) return;
+    console.log('Stop requested by user');
+    stopRequestedRef.current = true;
+    setIsStopping(true);
+    if (activeTurnRef.current) {
+      cancelActiveTurn(threadId, activeTurnRef.current);
+    }
+  };
+
   const startNewConversation = async (threadId: string) => {
     try {
       setIsTyping(true);
       
-      await ensureNoActiveRuns(threadId);
+      await llm.cancel(threadId);
       
       const brandName = sessionStorage.getItem('brandName');
-      await openai.beta.threads.messages.create(threadId, {
-        role: 'user',
-        content: `Please begin the brand development process for ${brandName}.`
-      });
-      
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const run = await openai.beta.threads.runs.create(threadId, {
-        assistant_id: config.openai.assistantId
+      // Other languages open with a note naming the language, and the first question as worded in it
+      const kickoff = [renderLanguageNote(locale), `Please begin the brand development process for ${brandName}.`].filter(Boolean).join('\n\n');
+      const reply = await runAssistantTurn(threadId, withNextQuestionNote(kickoff, calculateQuestionProgress([]).path.getQuestion(0), locale), 'kickoff', {
+        onDelta: handleStreamDelta,
+        onLongRunning: () => setProcessingStage('thinking')
       });
+      setStreamingReply(null);
       
-      await waitForRunCompletion(threadId, run.id);
+      const newMessage = withAskedQuestion({
+        role: 'assistant',
+        content: reply.content,
+        timestamp: new Date(),
+        phase: currentPhase
+      }, calculateQuestionProgress([]));
+      const newMessages = [newMessage];
+      setMessages(newMessages);
+      setActualQuestionIndex(0); // First question will be answered
+      await updateInterviewMessages(newMessages);
       
-      const messages = await openai.beta.threads.messages.list(threadId);
-      const lastMessage = messages.data[0];
-      
-      if (lastMessage.role === 'assistant' && lastMessage.content[0].type === 'text') {
-        const newMessage: Message = {
-          role: 'assistant',
-          content: lastMessage.content[0].text.value,
-          timestamp: new Date(),
-          phase: currentPhase
-        };
-        const newMessages = [newMessage];
-        setMessages(newMessages);
-        setActualQuestionIndex(0); // First question will be answered
-        await updateInterviewMessages(newMessages);
-        
-        // For the first question, the next question index should be 0
-        findAndSetSuggestedAnswer(newMessage.content, currentPhase, 0);
-      }
+      // For the first question, the next question index should be 0
+      findAndSetSuggestedAnswer(newMessage.content, currentPhase, questionPath, 0);
       
     } catch (error) {
       console.error('Error starting conversation:', error);
-      if (retryCount < 2) {
-        setRetryCount(prev => prev + 1);
-        toast.error('Connection issue. Retrying...');
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        await startNewConversation(threadId);
+      // Transient failures were already retried inside the provider
+      if (error instanceof ChatError && error.type === 'budget') {
+        toast.error(text.usageLimit);
       } else {
-        toast.error('Failed to start conversation. Please refresh the page.');
+        toast.error(text.startFailed);
       }
     } finally {
+      setStreamingReply(null);
       setIsTyping(false);
     }
   };
 
-  // Enhanced report parsing with correct section names
+  // Split reports out of the reply; they arrive as JSON and are validated against the report schema
   const parseAssistantResponse = (response: string) => {
-    const reportRegex = /```markdown\s*([\s\S]*?)\s*```/g;
-    let reportContents: string[] = [];
-    let match;
-
-    let remainingContent = response;
-
-    while ((match = reportRegex.exec(response)) !== null) {
-      const reportContent = match[1].trim();
-      if (reportContent.includes('#')) {
-        reportContents.push(reportContent);
-        remainingContent = remainingContent.replace(match[0], '').trim();
-      }
-    }
+    const { reports: parsedReports, invalidReports, remainingContent } = extractReports(response);
 
     const courseRegex = /Brand Alchemy Mastery course|course/gi;
     const linkedContent = remainingContent.replace(courseRegex, 
@@ -528,19 +526,15 @@ const Chat: React.FC = () => {
     );
 
     return {
-      reportContents,
+      parsedReports,
+      invalidReports,
       remainingContent: linkedContent
     };
   };
 
   // Create enhanced download link component
-  const createDownloadLinkComponent = (reportType: 'discovery' | 'messaging' | 'audience' | 'complete'): string => {
-    const reportNames = {
-      discovery: 'Brand Elements Discovery',
-      messaging: 'Brand Voice Analysis', 
-      audience: 'Brand Audience Alignment Analysis',
-      complete: 'Complete Brand Transformation'
-    };
+  const createDownloadLinkComponent = (reportType: ReportType): string => {
+    const reportName = strings.reports.names[reportType];
     
     return `<div class="my-4 p-4 bg-gradient-to-r from-desert-sand/10 to-champagne/10 border border-desert-sand/30 rounded-lg">
       <div class="flex items-center gap-3 mb-3">
@@ -550,8 +544,8 @@ const Chat: React.FC = () => {
           </svg>
         </div>
         <div>
-          <h4 class="font-semibold text-dark-gray text-sm">${reportNames[reportType]} Report Ready!</h4>
-          <p class="text-xs text-neutral-gray">Your personalized insights and recommendations</p>
+          <h4 class="font-semibold text-dark-gray text-sm">${format(text.reportReady, { report: reportName })}</h4>
+          <p class="text-xs text-neutral-gray">${text.reportReadyDetail}</p>
         </div>
       </div>
       <button 
@@ -561,446 +555,682 @@ const Chat: React.FC = () => {
         <svg class="w-4 h-4 transition-transform group-hover:translate-y-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
           <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M12 10v6m0 0l-4-4m4 4l4-4m6 2v6a2 2 0 01-2 2H6a2 2 0 01-2-2v-6"/>
         </svg>
-        Download ${reportNames[reportType]} Report
+        ${format(text.downloadReport, { report: reportName })}
       </button>
-      <p class="text-xs text-neutral-gray mt-2"><strong>Tip:</strong> Expand the progress ribbon above to access all reports</p>
+      <p class="text-xs text-neutral-gray mt-2"><strong>${text.tipLabel}</strong> ${text.tip}</p>
     </div>`;
   };
 
-  const processAssistantResponse = async (threadId: string, attemptNumber = 1) => {
-    const MAX_RETRIES = 3;
-    
+  const processAssistantResponse = async (threadId: string, turn: AssistantTurn) => {
     try {
-      const messages = await openai.beta.threads.messages.list(threadId);
-      if (!messages?.data?.length) {
-        throw new ChatError('No messages received from OpenAI', 'api');
+      // Reports, phase completion and clarifications arrive as validated tool calls
+      const toolReports: StructuredReport[] = [];
+      let completedPhase: CompletablePhase | null = null;
+      let clarification: string | null = null;
+      const recordedAttributes: Record<string, string> = {};
+      
+      for (const call of turn.toolCalls) {
+        switch (call.name) {
+          case 'submit_phase_report':
+            toolReports.push(call.arguments.report);
+            break;
+          case 'complete_phase':
+            completedPhase = call.arguments.phase;
+            break;
+          case 'request_clarification':
+            clarification = call.arguments.question;
+            break;
+          case 'record_attribute':
+            recordedAttributes[call.arguments.attribute] = call.arguments.value;
+            break;
+        }
       }
 
-      const lastMessage = messages.data[0];
-      if (lastMessage.role === 'assistant' && lastMessage.content[0].type === 'text') {
-        let rawContent = lastMessage.content[0].text.value;
-        let cleanedContent = rawContent;
-        
-        const phaseMarkerRegex = /===PHASE_COMPLETE:(discovery|messaging|audience)===/i;
-        const phaseMarkerMatch = rawContent.match(phaseMarkerRegex);
-        let markedPhaseCompletion = phaseMarkerMatch ? phaseMarkerMatch[1].toLowerCase() : null;
-        
-        // NEW: Guardrail to prevent premature phase completion.
-        if (markedPhaseCompletion) {
-            const requiredQuestions = {
-                discovery: 3,
-                messaging: 6,
-                audience: 9
-            };
-            const requiredCount = requiredQuestions[markedPhaseCompletion as keyof typeof requiredQuestions];
-
-            // Check the frontend's own state before trusting the assistant.
-            if (questionCount < requiredCount) {
-                console.warn(`Assistant attempted to complete phase '${markedPhaseCompletion}' prematurely. Frontend count is ${questionCount}, required is ${requiredCount}. Ignoring marker.`);
-                toast.error("It looks like we have a few more things to cover in this section first.", { duration: 4000 });
-                
-                // Strip the marker and proceed as if it was a normal message.
-                cleanedContent = rawContent.replace(phaseMarkerRegex, '').trim();
-                markedPhaseCompletion = null;
-            }
+      // Attributes decide which conditional questions come next; the path is recalculated with the next message
+      if (Object.keys(recordedAttributes).length > 0 && interviewId) {
+        attributesRef.current = { ...attributesRef.current, ...recordedAttributes };
+        console.log('Recorded attributes:', recordedAttributes);
+        await interviews.saveAttributes(interviewId, recordedAttributes);
+      }
+      
+      // The reply settles the user's latest answer: a gated follow-up or a clarification keeps the question open
+      const settledMessages = settleLatestAnswer(messagesRef.current, clarification !== null, source);
+      const settledProgress = calculateQuestionProgress(settledMessages);
+      const timing = settledMessages !== messagesRef.current ? measureLatestAnswer(settledMessages, new Date(), source) : null;
+      if (timing) {
+        // Statistics must never break the interview itself
+        interviews.recordQuestionTiming(timing).catch(error => console.error('Error recording question timing:', error));
+      }
+      setMessages(prevMessages => {
+        const updatedMessages = settleLatestAnswer(prevMessages, clarification !== null, source);
+        if (updatedMessages !== prevMessages) {
+          updateInterviewMessages(updatedMessages);
         }
-        
-        const { reportContents, remainingContent } = parseAssistantResponse(cleanedContent);
+        return updatedMessages;
+      });
+      
+      // NEW: Guardrail to prevent premature phase completion.
+      if (completedPhase) {
+          const requiredCount = settledProgress.path.getQuestionsThrough(completedPhase);
+
+          // Check the frontend's own state before trusting the assistant.
+          if (settledProgress.answeredCount < requiredCount) {
+              console.warn(`Assistant attempted to complete phase '${completedPhase}' prematurely. Frontend count is ${settledProgress.answeredCount}, required is ${requiredCount}. Ignoring complete_phase call.`);
+              toast.error(text.prematureCompletion, { duration: 4000 });
+              completedPhase = null;
+          }
+      }
+      
+      // A clarification is the whole reply when the assistant wrote nothing else
+      const replyContent = turn.content.trim() ? turn.content : clarification || '';
+      const { parsedReports: fencedReports, invalidReports, remainingContent } = parseAssistantResponse(replyContent);
+      const parsedReports = [...toolReports, ...fencedReports];
+
+      let phaseUpdated = false;
+      let newPhase: PhaseId | null = null;
+      let processedReportType: ReportType | null = null;
+      const savedReports: Interview['reports'] = { ...reports };
+      
+      if (parsedReports.length > 0 || invalidReports.length > 0) {
+        setIsGeneratingReport(true);
+      }
 
-        let phaseUpdated = false;
-        let newPhase: PhaseId | null = null;
-        let processedReportType: string | null = null;
-        
-        if (reportContents.length > 0) {
-          setIsGeneratingReport(true);
+      // Give the assistant a chance to fix any report that failed validation
+      const validReports = [...parsedReports];
+      for (const invalidReport of invalidReports) {
+        console.error('Report failed schema validation:', invalidReport.errors);
+        setProcessingStage('fixing');
+        // Custom phases have no report type of their own
+        const typeHint = invalidReport.type ?? (isReportType(completedPhase) ? completedPhase : null);
+        const fixedReport = await promptAssistantToFixReport(threadId, invalidReport, typeHint);
+        if (fixedReport) {
+          validReports.push(fixedReport);
         }
+      }
+      // Keep phase order even when a fixed report arrives after a later one
+      validReports.sort((a, b) => REPORT_TYPES.indexOf(a.type) - REPORT_TYPES.indexOf(b.type));
+      
+      for (const report of validReports) {
+        const reportType = report.type;
         
-        for (const reportContent of reportContents) {
-          if (!reportContent.includes('#')) {
-            console.error('Invalid report format detected:', reportContent);
-            continue;
-          }
-          
-          let reportType = 
-          /brand elements discovery/i.test(reportContent) ? 'discovery' :
-          /brand voice analysis/i.test(reportContent) ? 'messaging' :
-          /brand audience alignment/i.test(reportContent) ? 'audience' :
-          /elevate your brand/i.test(reportContent) ? 'complete' : null;
-
-          if (!reportType && /prioritization matrix/i.test(reportContent)) {
-            reportType = 'complete';
-          }
-
-          if (!reportType && markedPhaseCompletion) {
-            reportType = markedPhaseCompletion;
-          }
-          
-          if (reportType && interviewId) {
-            console.log(`Processing ${reportType} report`);
-            processedReportType = reportType;
+        if (interviewId) {
+          console.log(`Processing ${reportType} report`);
+          processedReportType = reportType;
+          savedReports[reportType] = await saveReport(interviewId, report);
+        }
+      }
 
-            let finalReportContent = reportContent;
-            
-            if (reportType === 'complete') {
-              setProcessingStage('fixing');
-              finalReportContent = await promptAssistantToFixReport(threadId, reportContent);
-            }
-            
-            await updateDoc(doc(db, 'interviews', interviewId), {
-              [`reports.${reportType}`]: finalReportContent,
-              lastUpdated: new Date()
-            });
-            
-            setReports(prev => ({...prev, [reportType]: finalReportContent}));
-            
-            if (reportType !== 'complete') {
-              newPhase = getNextPhase(reportType as PhaseId);
-              if (newPhase) {
-                console.log(`Transitioning phase from ${reportType} to ${newPhase}`);
-                await updateDoc(doc(db, 'interviews', interviewId), {
-                  currentPhase: newPhase,
-                  lastUpdated: new Date()
-                });
-                setCurrentPhase(newPhase);
-                phaseUpdated = true;
-              }
-            }
-          }
+      // Phase transitions are driven only by the assistant's complete_phase call
+      if (completedPhase && interviewId) {
+        newPhase = source.getNextPhase(completedPhase);
+        if (newPhase) {
+          console.log(`Transitioning phase from ${completedPhase} to ${newPhase}`);
+          await interviews.transitionPhase(interviewId, newPhase);
+          setCurrentPhase(newPhase);
+          phaseUpdated = true;
         }
-        
-        setIsGeneratingReport(false);
+      }
+      
+      setIsGeneratingReport(false);
 
-        // Enhanced response flow with proper sequencing
-        if (remainingContent?.trim()) {
-          const finalPhase = phaseUpdated && newPhase ? newPhase : currentPhase;
+      // Enhanced response flow with proper sequencing
+      // Tool-only replies still need their download links and completion message
+      if (remainingContent?.trim() || processedReportType) {
+        const finalPhase = phaseUpdated && newPhase ? newPhase : currentPhase;
+        
+        if (processedReportType && processedReportType !== 'complete') {
+          // FIXED: Handle all individual phase reports including audience
+          const lines = remainingContent.split('\n').filter(line => line.trim());
+          const acknowledgmentLines: string[] = [];
+          const transitionLines: string[] = [];
           
-          if (processedReportType && processedReportType !== 'complete') {
-            // FIXED: Handle all individual phase reports including audience
-            const lines = remainingContent.split('\n').filter(line => line.trim());
-            const acknowledgmentLines = [];
-            const transitionLines = [];
-            
-            let foundTransition = false;
-            for (const line of lines) {
-              if (line.toLowerCase().includes('now that we') || 
-                  line.toLowerCase().includes('building upon') ||
-                  line.toLowerCase().includes('let\'s transform') ||
-                  line.toLowerCase().includes('let\'s explore') ||
-                  line.toLowerCase().includes('let\'s move on')) {
-                foundTransition = true;
-              }
-              
-              if (!foundTransition && !line.includes('report:') && !line.includes('insights have been')) {
-                acknowledgmentLines.push(line);
-              } else if (foundTransition) {
-                transitionLines.push(line);
-              }
+          let foundTransition = false;
+          for (const line of lines) {
+            if (TRANSITION_PHRASES.some(phrase => line.toLowerCase().includes(phrase))) {
+              foundTransition = true;
             }
             
-            // Add acknowledgment message first
-            if (acknowledgmentLines.length > 0) {
-              const acknowledgmentMessage: Message = {
-                role: 'assistant',
-                content: acknowledgmentLines.join('\n\n'),
-                timestamp: new Date(),
-                phase: currentPhase
-              };
-              
-              setMessages(prevMessages => {
-                const updatedMessages = [...prevMessages, acknowledgmentMessage];
-                updateInterviewMessages(updatedMessages);
-                return updatedMessages;
-              });
+            if (!foundTransition && !line.includes('report:') && !line.includes('insights have been')) {
+              acknowledgmentLines.push(line);
+            } else if (foundTransition) {
+              transitionLines.push(line);
             }
-            
-            // Add download link message for the completed phase
-            const downloadMessage: Message = {
+          }
+          
+          // Add acknowledgment message first
+          if (acknowledgmentLines.length > 0) {
+            const acknowledgmentMessage: Message = {
               role: 'assistant',
-              content: createDownloadLinkComponent(processedReportType as any),
+              content: acknowledgmentLines.join('\n\n'),
               timestamp: new Date(),
               phase: currentPhase
             };
             
             setMessages(prevMessages => {
-              const updatedMessages = [...prevMessages, downloadMessage];
+              const updatedMessages = [...prevMessages, acknowledgmentMessage];
               updateInterviewMessages(updatedMessages);
               return updatedMessages;
             });
+          }
+          
+          // Add download link message for the completed phase
+          const downloadMessage: Message = {
+            role: 'assistant',
+            content: createDownloadLinkComponent(processedReportType),
+            timestamp: new Date(),
+            phase: currentPhase
+          };
+          
+          setMessages(prevMessages => {
+            const updatedMessages = [...prevMessages, downloadMessage];
+            updateInterviewMessages(updatedMessages);
+            return updatedMessages;
+          });
+          
+          // FIXED: Handle audience phase completion specially - don't transition yet if there's a final report coming
+          if (processedReportType === 'audience') {
+            // For audience phase, we might have both audience and complete reports
+            // Check if there's a complete report in the original response
+            const hasCompleteReport = validReports.some(report => report.type === 'complete');
             
-            // FIXED: Handle audience phase completion specially - don't transition yet if there's a final report coming
-            if (processedReportType === 'audience') {
-              // For audience phase, we might have both audience and complete reports
-              // Check if there's a complete report in the original response
-              const hasCompleteReport = reportContents.some(content => 
-                /elevate your brand/i.test(content) || /prioritization matrix/i.test(content)
-              );
-              
-              if (hasCompleteReport) {
-                // Don't add transition message yet - wait for complete report processing
-                console.log('Audience report generated, complete report also detected');
-                return;
-              }
+            if (hasCompleteReport) {
+              // Don't add transition message yet - wait for complete report processing
+              console.log('Audience report generated, complete report also detected');
+              return;
             }
-            
-            // Add transition to next phase with updated question index (for non-audience or audience without complete report)
-            if (transitionLines.length > 0) {
-              const transitionMessage: Message = {
+          }
+          
+          // Add transition to next phase with updated question index (for non-audience or audience without complete report)
+          if (transitionLines.length > 0) {
+            setMessages(prevMessages => {
+              // Calculate next question index based on the updated conversation
+              const progressResult = calculateQuestionProgress(prevMessages);
+              const transitionMessage = withAskedQuestion({
                 role: 'assistant',
                 content: transitionLines.join('\n\n'),
                 timestamp: new Date(),
                 phase: finalPhase
-              };
+              }, progressResult);
+              const updatedMessages = [...prevMessages, transitionMessage];
+              updateInterviewMessages(updatedMessages);
+              setActualQuestionIndex(progressResult.nextQuestionIndex);
               
-              setMessages(prevMessages => {
-                const updatedMessages = [...prevMessages, transitionMessage];
-                updateInterviewMessages(updatedMessages);
-                
-                // Calculate next question index based on the updated conversation
-                const progressResult = calculateQuestionProgress(updatedMessages);
-                setActualQuestionIndex(progressResult.nextQuestionIndex);
-                
-                findAndSetSuggestedAnswer(transitionMessage.content, finalPhase, progressResult.nextQuestionIndex);
-                return updatedMessages;
-              });
-            }
-            
-          } else if (processedReportType === 'complete') {
-            // Final completion message
-            const finalMessage = `**Congratulations! Your Brand Alchemy Spark is Complete!**
+              findAndSetSuggestedAnswer(transitionMessage.content, finalPhase, progressResult.path, progressResult.nextQuestionIndex);
+              return updatedMessages;
+            });
+          }
+          
+        } else if (processedReportType === 'complete') {
+          // Final completion message
+          const { completion } = text;
+          const finalMessage = `**${completion.title}**
 
-Thank you for this illuminating journey through your brand's authentic essence. We've uncovered powerful insights about your brand identity, messaging consistency, and audience alignment.
+${completion.intro}
 
 ${createDownloadLinkComponent('complete')}
 
-**Your Complete Analysis Includes:**
-- Strategic brand positioning recommendations
-- Actionable growth roadmap with prioritized steps
-- Professional brand analysis and insights
-- Personalized transformation strategy
-
-**Access All Reports:** Expand the progress ribbon above to download individual phase reports
+**${completion.includesTitle}**
+${completion.includes.map(item => `- ${item}`).join('\n')}
 
-Your brand has tremendous potential, and these insights provide the roadmap to unlock it. This analysis demonstrates the type of strategic transformation available through comprehensive brand development.
+**${completion.accessLabel}** ${completion.access}
 
-Ready to take your brand to the next level? The insights you've discovered here are just the beginning of what's possible when you fully align your brand with your authentic vision.`;
+${completion.closing}`;
 
-            const newMessage: Message = {
-              role: 'assistant',
-              content: finalMessage,
-              timestamp: new Date(),
-              phase: 'complete'
-            };
+          const newMessage: Message = {
+            role: 'assistant',
+            content: finalMessage,
+            timestamp: new Date(),
+            phase: 'complete'
+          };
 
-            setMessages(prevMessages => {
-              const updatedMessages = [...prevMessages, newMessage];
-              updateInterviewMessages(updatedMessages);
-              return updatedMessages;
-            });
-            
-          } else {
-            // Regular message processing - calculate next question index properly
-            const newMessage: Message = {
+          setMessages(prevMessages => {
+            const updatedMessages = [...prevMessages, newMessage];
+            updateInterviewMessages(updatedMessages);
+            return updatedMessages;
+          });
+          
+        } else {
+          // Regular message processing - calculate next question index properly
+          setMessages(prevMessages => {
+            // Calculate the next question index from the settled message history
+            const progressResult = calculateQuestionProgress(prevMessages);
+            const newMessage = withAskedQuestion({
               role: 'assistant',
               content: remainingContent,
               timestamp: new Date(),
               phase: finalPhase
-            };
-
-            setMessages(prevMessages => {
-              const updatedMessages = [...prevMessages, newMessage];
-              updateInterviewMessages(updatedMessages);
-              
-              // Calculate the next question index from the updated message history  
-              const progressResult = calculateQuestionProgress(updatedMessages);
-              findAndSetSuggestedAnswer(remainingContent, finalPhase, progressResult.nextQuestionIndex);
-              return updatedMessages;
-            });
-          }
+            }, progressResult);
+            const updatedMessages = [...prevMessages, newMessage];
+            updateInterviewMessages(updatedMessages);
+            
+            findAndSetSuggestedAnswer(remainingContent, finalPhase, progressResult.path, progressResult.nextQuestionIndex);
+            return updatedMessages;
+          });
         }
       }
+
+      // Later phases only need the condensed story so far, not every raw turn
+      if (phaseUpdated && completedPhase && newPhase !== 'complete') {
+        await compactConversation(threadId, completedPhase, turn.content, savedReports);
+      }
     } catch (error) {
       console.error('Error processing assistant response:', error);
-      
-      if (attemptNumber < MAX_RETRIES) {
-        toast.error(`Processing error. Retrying... (${attemptNumber}/${MAX_RETRIES})`);
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        return processAssistantResponse(threadId, attemptNumber + 1);
-      } else {
-        toast.error('Failed to process response after multiple attempts. Please try refreshing.');
-        throw error;
-      }
+      // Saves and runs inside were already retried; reprocessing would repeat report fixes
+      toast.error(text.processFailed);
+      throw error;
     }
   };
 
-  const promptAssistantToFixReport = async (threadId: string, reportContent: string): Promise<string> => {
+  // The latest version is the one shown and downloaded; earlier ones stay in the interview's report versions
+  const saveReport = async (interviewId: string, report: StructuredReport, revision?: ReportVersion['revision']): Promise<string> => {
+    const reportType = report.type;
+    const version = createReportVersion(report, locale, revision);
+    // Includes a report saved before versions were kept, so it is stored as the first version
+    const versions = [...(reportVersionsRef.current[reportType] || []), version];
+    const storedCount = storedVersionCountsRef.current[reportType] || 0;
+    await interviews.saveReport(interviewId, report, versions.slice(storedCount).map((entry, i) => ({ index: storedCount + i, version: entry })));
+
+    storedVersionCountsRef.current = { ...storedVersionCountsRef.current, [reportType]: versions.length };
+    reportVersionsRef.current = { ...reportVersionsRef.current, [reportType]: versions };
+    setReports(prev => ({...prev, [reportType]: version.markdown}));
+    return version.markdown;
+  };
+
+  // Swap the thread for a fresh one seeded with per-phase answer summaries and the full reports
+  const compactConversation = async (previousThreadId: string, completedPhase: CompletablePhase, lastAssistantMessage: string, latestReports: Interview['reports']) => {
+    if (!interviewId) return;
+
     try {
-      const requiredSections = [
-        'Brand Breakthrough',
-        'Your Brand at a Glance',
-        'Key Observations and Insights',
-        'Personalized Growth Roadmap',
-        'Action Plan: Where to Focus Next',
-        'Next Steps for Growth',
-        'Prioritization Matrix',
-        'The Brand Alchemy Mastery Course'
-      ];
-      
-      const missingSections = requiredSections.filter(section => 
-        !reportContent.includes(section)
-      );
-      
-      const hasProperMatrix = reportContent.includes('| Recommendation | Impact | Effort | Priority |');
-      
-      if (missingSections.length === 0 && hasProperMatrix) {
-        return reportContent;
+      const completedPhases = COMPLETABLE_PHASES.slice(0, COMPLETABLE_PHASES.indexOf(completedPhase) + 1);
+      const seed = buildConversationSeed({
+        brandName: sessionStorage.getItem('brandName') || 'your brand',
+        messages: messagesRef.current,
+        reports: latestReports,
+        completedPhases,
+        attributes: attributesRef.current,
+        lastAssistantMessage,
+        locale
+      });
+
+      const newThreadId = await llm.createConversation(interviewId, seed);
+      if (newThreadId !== previousThreadId) {
+        await interviews.saveThreadId(interviewId, newThreadId);
+        setThreadId(newThreadId);
       }
+      console.log(`Compacted conversation after ${completedPhase} phase`);
+    } catch (error) {
+      // The existing thread still has everything, just more of it
+      console.error('Error compacting conversation:', error);
+    }
+  };
+
+  const promptAssistantToFixReport = async (threadId: string, invalidReport: InvalidReport, reportType: ReportType | null): Promise<StructuredReport | null> => {
+    try {
+      console.log('Fixing report format issues:', invalidReport.errors);
       
-      console.log('Fixing report format issues:', { missingSections, hasProperMatrix });
-      
-      let fixPrompt = "Your last report is missing required elements or has formatting issues. Please fix and regenerate the final report with ALL these sections:\n\n";
-      
-      if (missingSections.length > 0) {
-        fixPrompt += `Missing sections: ${missingSections.join(', ')}\n\n`;
-      }
+      let fixPrompt = "Your last report did not match the report schema. Please fix these problems:\n\n";
+      fixPrompt += `${invalidReport.errors.map(error => `- ${error}`).join('\n')}\n\n`;
       
-      if (!hasProperMatrix) {
-        fixPrompt += `The Prioritization Matrix table MUST be formatted as a proper markdown table.\n\n`;
+      if (reportType) {
+        fixPrompt += `Required sections for the ${reportType} report: ${REQUIRED_SECTIONS[reportType].join(', ')}\n\n`;
       }
       
-      fixPrompt += "Please regenerate ONLY the final report, exactly following the Final Transformation Summary template.";
+      fixPrompt += `Please regenerate ONLY ${reportType ? `the ${reportType} report` : 'that report'} as a single \`\`\`json block that matches the report schema.`;
       
-      await openai.beta.threads.messages.create(threadId, {
-        role: 'user',
-        content: fixPrompt
+      const { content: fixedContent } = await runAssistantTurn(threadId, fixPrompt, 'report_fix', {
+        onDelta: handleStreamDelta
       });
+      setStreamingReply(null);
       
-      const run = await openai.beta.threads.runs.create(threadId, {
-        assistant_id: config.openai.assistantId
-      });
-      
-      await waitForRunCompletion(threadId, run.id);
-      
-      const messages = await openai.beta.threads.messages.list(threadId);
-      const lastMessage = messages.data[0];
+      const { reports: fixedReports, invalidReports } = extractReports(fixedContent);
+      const fixedReport = fixedReports.find(report => !reportType || report.type === reportType);
       
-      if (lastMessage.role === 'assistant' && lastMessage.content[0].type === 'text') {
-        const fixedContent = lastMessage.content[0].text.value;
-        
-        const reportRegex = /```markdown\s*([\s\S]*?)\s*```/g;
-        const match = reportRegex.exec(fixedContent);
-        
-        if (match && match[1]) {
-          const fixedReport = match[1].trim();
-          console.log('Successfully fixed report format');
-          return fixedReport;
-        }
+      if (fixedReport) {
+        console.log('Successfully fixed report format');
+        return fixedReport;
       }
       
-      console.error('Failed to fix report format');
-      return reportContent;
+      console.error('Failed to fix report format', invalidReports.flatMap(report => report.errors));
+      toast.error(text.reportFixFailed);
+      return null;
       
     } catch (error) {
       console.error('Error fixing report:', error);
-      return reportContent;
+      return null;
+    }
+  };
+
+  const notifySendError = (error: unknown) => {
+    if (error instanceof ChatError) {
+      switch (error.type) {
+        case 'network':
+        case 'offline':
+          toast.error(text.networkError);
+          break;
+        case 'timeout':
+          toast.error(text.timeout);
+          break;
+        case 'api':
+          toast.error(text.serviceUnavailable);
+          break;
+        case 'budget':
+          toast.error(text.messageUsageLimit);
+          break;
+        default:
+          toast.error(text.sendFailed);
+      }
+    } else {
+      toast.error(text.unexpectedError);
     }
   };
 
   const sendMessage = async () => {
-    if (!input.trim() || !threadId || !interviewId || isLoading) return;
-    setSuggestedAnswer(null);
+    if ((!input.trim() && !structuredAnswer) || !threadId || !interviewId || isLoading || queuedTurns(outbox.entries).length > 0) return;
 
-    let userContent = input.trim();
-    
-    // NEW: Check for substantiveness *before* sending the message.
-    // const isResponseSubstantive = isSubstantive(userContent, questionCount);
+    // The answer belongs to the open question; its status is set once the assistant replies
+    const openQuestion = currentPhase === 'complete' ? null : calculateQuestionProgress(messages);
+    const question = openQuestion?.path.getQuestion(openQuestion.nextQuestionIndex);
+    const questionId = question?.id;
 
-    // if (!isResponseSubstantive) {
-    //     // If the answer is brief, give the user feedback and prepend a note for the assistant.
-    //     toast('Your answer seems a bit brief. Asking the assistant for a follow-up.', { icon: '✍️', duration: 4000 });
-    //     userContent = `[System Note: My previous answer was brief. Please ask me a clarifying follow-up question to help me provide more detail before we move on.]\n\nMy answer was: "${userContent}"`;
-    // }
+    const widgetAnswer = getWidgetAnswer(question, structuredAnswer);
+    const note = input.trim();
+    const userContent = widgetAnswer && question?.input ? composeAnswer(question.input, widgetAnswer, note, locale) : note;
+    if (!userContent) return;
+    setSuggestedAnswer(null);
+
+    // Check the answer's depth *before* sending; the note goes to the assistant, not into the transcript
+    const depthGate = questionId ? gateAnswerDepth(userContent, questionId, messages, source) : null;
+    if (depthGate?.followUp) {
+      toast(text.briefAnswer, { icon: '✍️', duration: 4000 });
+    }
 
     const userMessage: Message = {
       role: 'user',
-      content: userContent, // Use the potentially modified content
+      content: userContent,
       timestamp: new Date(),
-      phase: currentPhase
+      phase: currentPhase,
+      ...(questionId ? { questionId } : {}),
+      // The gate, not the assistant's choice of tool, keeps the question open and counts against its cap
+      ...(depthGate?.followUp ? { followUpRequested: true } : {}),
+      ...(widgetAnswer ? { structuredAnswer: widgetAnswer } : {})
     };
 
     const newMessages = [...messages, userMessage];
     setMessages(newMessages);
     scrollToBottom('instant');
     setInput('');
+    setStructuredAnswer(null);
     setIsLoading(true);
     setIsTyping(true);
     setProcessingStage('sending');
+    stopRequestedRef.current = false;
+    pendingCancelRef.current = null;
+
+    let outgoing = depthGate
+      ? `[System Note: ${depthGate.note}]\n\nMy answer was: "${userMessage.content}"`
+      : userMessage.content;
+    // A follow-up re-asks this question; otherwise assume the answer stands when naming the next one
+    if (!depthGate?.followUp) {
+      const { path, nextQuestionIndex } = calculateQuestionProgress(settleLatestAnswer(newMessages, false, source));
+      outgoing = withNextQuestionNote(outgoing, path.getQuestion(nextQuestionIndex), locale);
+    }
 
     try {
-      await openai.beta.threads.messages.create(threadId, {
-        role: 'user',
-        content: userMessage.content
-      });
-
-      const run = await openai.beta.threads.runs.create(threadId, {
-        assistant_id: config.openai.assistantId
+      const reply = await runAssistantTurn(threadId, outgoing, 'message', {
+        onDelta: handleStreamDelta,
+        onLongRunning: () => setProcessingStage('thinking')
       });
-
-      await waitForRunCompletion(threadId, run.id);
+      setStreamingReply(null);
       
-      await processAssistantResponse(threadId);
+      await processAssistantResponse(threadId, reply);
       
     } catch (error) {
-      console.error('Error sending message:', error);
-      
-      if (error instanceof ChatError) {
-        switch (error.type) {
-          case 'network':
-            toast.error('Network error. Please check your connection and try again.');
-            break;
-          case 'timeout':
-            toast.error('Request timed out. This may happen with complex requests. Please try again.');
-            break;
-          case 'api':
-            toast.error('Service temporarily unavailable. Please try again.');
-            break;
-          default:
-            toast.error('Failed to send message. Please try again.');
+      if (error instanceof ChatError && error.type === 'cancelled') {
+        // Wait for the thread cleanup, then hand the message back for editing
+        await pendingCancelRef.current;
+        setMessages(prev => prev.slice(0, -1));
+        setInput(widgetAnswer ? note : userMessage.content);
+        setStructuredAnswer(widgetAnswer);
+        toast(text.responseStopped, { icon: '⏹️' });
+        return;
+      }
+
+      // Offline, the message stays in the transcript and is sent once the connection is back
+      if (error instanceof ChatError && error.type === 'offline') {
+        try {
+          await outbox.queue({
+            type: 'turn',
+            interviewId,
+            index: newMessages.length - 1,
+            message: userMessage,
+            content: outgoing
+          });
+          toast(text.turnQueued, { icon: '📡' });
+          return;
+        } catch (queueError) {
+          console.error('Error queueing message:', queueError);
         }
-      } else {
-        toast.error('An unexpected error occurred. Please try again.');
       }
-      
+
+      console.error('Error sending message:', error);
+      notifySendError(error);
       setMessages(prev => prev.slice(0, -1));
     } finally {
+      setStreamingReply(null);
       setIsLoading(false);
       setIsTyping(false);
+      setIsStopping(false);
+      stopRequestedRef.current = false;
       inputRef.current?.focus();
     }
   };
 
+  // The queued message is already in the transcript; only the assistant's reply is missing
+  const replayTurn = async ({ message, content }: QueuedTurn) => {
+    if (!threadId) {
+      throw new ChatError('Conversation not ready', 'offline');
+    }
+
+    setIsLoading(true);
+    setIsTyping(true);
+    setProcessingStage('sending');
+    stopRequestedRef.current = false;
+    pendingCancelRef.current = null;
+
+    try {
+      const reply = await runAssistantTurn(threadId, content, 'message', {
+        onDelta: handleStreamDelta,
+        onLongRunning: () => setProcessingStage('thinking')
+      });
+      setStreamingReply(null);
+
+      await processAssistantResponse(threadId, reply);
+    } catch (error) {
+      // Still offline: it stays queued for the next attempt
+      if (error instanceof ChatError && error.type === 'offline') throw error;
+
+      // Otherwise hand the message back for editing, as when sending fails the first time
+      if (error instanceof ChatError && error.type === 'cancelled') {
+        await pendingCancelRef.current;
+        toast(text.responseStopped, { icon: '⏹️' });
+      } else {
+        console.error('Error sending queued message:', error);
+        notifySendError(error);
+      }
+      // Other messages may have been added since it was queued, so it is found by its timestamp
+      setMessages(prev => prev.filter(queued => !(queued.role === 'user' && queued.timestamp.getTime() === message.timestamp.getTime())));
+      setInput(message.structuredAnswer ? '' : message.content);
+      setStructuredAnswer(message.structuredAnswer ?? null);
+    } finally {
+      setStreamingReply(null);
+      setIsLoading(false);
+      setIsTyping(false);
+      setIsStopping(false);
+      stopRequestedRef.current = false;
+    }
+  };
+
+  const replayOutboxItem = async (item: OutboxItem) => {
+    if (item.type === 'turn') {
+      await replayTurn(item);
+    } else {
+      await interviews.saveMessages(item.interviewId, item.messages, item.progress);
+    }
+  };
+
+  const startRevision = (answer: RevisableAnswer) => {
+    const { input: answerInput } = answer.question;
+    const previous = messages[answer.messageIndex]?.structuredAnswer;
+    setRevision(answer);
+    setStructuredAnswer(previous && answerInput ? previous : null);
+    setInput(previous && answerInput ? getAnswerNote(answerInput, previous, answer.answer, locale) : answer.answer);
+    setSuggestedAnswer(null);
+    inputRef.current?.focus();
+  };
+
+  const cancelRevision = () => {
+    setRevision(null);
+    setInput('');
+    setStructuredAnswer(null);
+  };
+
+  // The revised answer is only saved once a report has been regenerated from it, so a failed run changes nothing
+  const submitRevision = async () => {
+    if (!revision || !threadId || !interviewId || isLoading) return;
+    const { question, answer: previousAnswer, messageIndex } = revision;
+    const widgetAnswer = getWidgetAnswer(question, structuredAnswer);
+    const content = widgetAnswer && question.input ? composeAnswer(question.input, widgetAnswer, input, locale) : input.trim();
+    if (!content) return;
+    const revisedMessages = reviseAnswer(messages, messageIndex, content, widgetAnswer);
+    const reportTypes = getAffectedReports(question, reports);
+
+    setIsLoading(true);
+    setIsTyping(true);
+    setProcessingStage('sending');
+    stopRequestedRef.current = false;
+    pendingCancelRef.current = null;
+
+    try {
+      const turn = await runAssistantTurn(threadId, buildRevisionPrompt(question, revisedMessages, reportTypes, source), 'revision', {
+        onDelta: handleStreamDelta,
+        onLongRunning: () => setProcessingStage('thinking')
+      });
+      setStreamingReply(null);
+      setIsGeneratingReport(true);
+
+      const { parsedReports, invalidReports, remainingContent } = parseAssistantResponse(turn.content);
+      const regenerated = [
+        ...turn.toolCalls.flatMap(call => (call.name === 'submit_phase_report' ? [call.arguments.report] : [])),
+        ...parsedReports
+      ];
+      for (const invalidReport of invalidReports) {
+        console.error('Revised report failed schema validation:', invalidReport.errors);
+        setProcessingStage('fixing');
+        const fixedReport = await promptAssistantToFixReport(threadId, invalidReport, invalidReport.type);
+        if (fixedReport) {
+          regenerated.push(fixedReport);
+        }
+      }
+
+      const updatedReports: ReportType[] = [];
+      for (const reportType of reportTypes) {
+        const report = regenerated.find(candidate => candidate.type === reportType);
+        if (report) {
+          await saveReport(interviewId, report, { questionId: question.id, previousAnswer });
+          updatedReports.push(reportType);
+        }
+      }
+      if (updatedReports.length === 0) {
+        toast.error(text.revisionNotSaved);
+        return;
+      }
+      if (updatedReports.length < reportTypes.length) {
+        toast.error(text.revisionPartial);
+      }
+
+      // Confirm in the transcript, link the new versions, then return to the open question
+      const progress = calculateQuestionProgress(revisedMessages);
+      const notices: Message[] = [
+        {
+          role: 'assistant',
+          content: remainingContent.trim() || text.revisionConfirmed,
+          timestamp: new Date(),
+          phase: currentPhase
+        },
+        ...updatedReports.map((reportType): Message => ({
+          role: 'assistant',
+          content: createDownloadLinkComponent(reportType),
+          timestamp: new Date(),
+          phase: currentPhase
+        }))
+      ];
+      const openQuestion = currentPhase === 'complete' ? null : progress.path.getQuestion(progress.nextQuestionIndex);
+      if (openQuestion) {
+        notices.push(withAskedQuestion({
+          role: 'assistant',
+          content: format(text.backToQuestion, { question: openQuestion.text }),
+          timestamp: new Date(),
+          phase: currentPhase
+        }, progress));
+      }
+
+      const updatedMessages = [...revisedMessages, ...notices];
+      setMessages(updatedMessages);
+      setRevision(null);
+      setInput('');
+      setStructuredAnswer(null);
+      await updateInterviewMessages(updatedMessages);
+      if (openQuestion) {
+        findAndSetSuggestedAnswer(openQuestion.text, currentPhase, progress.path, progress.nextQuestionIndex);
+      }
+    } catch (error) {
+      if (error instanceof ChatError && error.type === 'cancelled') {
+        await pendingCancelRef.current;
+        toast(text.revisionStopped, { icon: '⏹️' });
+        return;
+      }
+
+      console.error('Error revising answer:', error);
+      if (error instanceof ChatError && error.type === 'budget') {
+        toast.error(text.revisionUsageLimit);
+      } else {
+        toast.error(text.revisionFailed);
+      }
+    } finally {
+      setStreamingReply(null);
+      setIsGeneratingReport(false);
+      setIsLoading(false);
+      setIsTyping(false);
+      setIsStopping(false);
+      stopRequestedRef.current = false;
+    }
+  };
+
+  // Saves that cannot go through now wait in the outbox, behind anything queued before them
   const updateInterviewMessages = async (newMessages: Message[]) => {
     if (interviewId) {
       try {
+        // Only new and changed messages are written
+        const changes = changedMessages(storedMessagesRef.current, newMessages);
+        if (changes.length === 0) return;
         const { answeredCount, nextQuestionIndex } = calculateQuestionProgress(newMessages);
-        await updateDoc(doc(db, 'interviews', interviewId), {
-          messages: newMessages,
-          questionCount: answeredCount,
-          actualQuestionIndex: nextQuestionIndex,
-          lastUpdated: new Date()
+        await outbox.save({
+          type: 'messages',
+          interviewId,
+          messages: changes,
+          progress: {
+            questionCount: answeredCount,
+            actualQuestionIndex: nextQuestionIndex
+          }
         });
+        storedMessagesRef.current = newMessages;
       } catch (error) {
         console.error('Error updating messages:', error);
-        toast.error('Failed to save message history.');
+        toast.error(text.saveFailed);
       }
     }
   };
 
-  const getNextPhase = (current: string): 'messaging' | 'audience' | 'complete' | null => {
-    const phases = ['discovery', 'messaging', 'audience', 'complete'];
-    const currentIndex = phases.indexOf(current);
-    return phases[currentIndex + 1] as 'messaging' | 'audience' | 'complete' | null;
-  };
-
   // Enhanced message bubble with download link handling
   const renderEnhancedMessageBubble = (message: Message, index: number) => {
     const hasDownloadLinks = message.content.includes('onclick="window.downloadReport');
@@ -1016,13 +1246,14 @@ Ready to take your brand to the next level? The insights you've discovered here
         isLast={index === messages.length - 1}
         brandName={sessionStorage.getItem('brandName') || ''}
         reportContent={reports.complete || null}
+        pendingLabel={pending.has(index) ? (pending.get(index) === 'turn' ? strings.outbox.pendingTurn : strings.outbox.pendingSave) : undefined}
       />
     );
   };
 
   useEffect(() => {
     if (!interviewId) {
-      toast.error('Session expired. Please restart your brand development journey.');
+      toast.error(textRef.current.sessionExpired);
       navigate('/');
       return;
     }
@@ -1031,14 +1262,40 @@ Ready to take your brand to the next level? The insights you've discovered here
     initializeChat();
   }, [interviewId]);
 
+  // Turns and saves that could not reach the server are replayed once the conversation has loaded
+  const outbox = useOutbox({
+    interviewId,
+    enabled: threadId !== null,
+    replay: replayOutboxItem
+  });
+  const pending = pendingMessages(outbox.entries);
+  // A queued turn still needs its reply, so nothing else can be sent meanwhile
+  const hasQueuedTurn = queuedTurns(outbox.entries).length > 0;
+
+  // Demo runs can answer with the persona's suggestions on their own; anything the presenter does takes over
+  const autopilot = useAutopilot({
+    suggestedAnswer,
+    canAnswer: !isLoading && !hasQueuedTurn && !revision && currentPhase !== 'complete',
+    reportInProgress: isGeneratingReport || Boolean(streamingReply?.reportInProgress),
+    setInput,
+    sendMessage,
+    inputRef
+  });
+
   return (
     <div className="flex flex-col h-screen bg-white">
       <PhaseProgress 
         currentPhase={currentPhase}
         questionCount={questionCount}
-        totalQuestions={PREDEFINED_QUESTIONS.length}
+        questionPath={questionPath}
+        questionTimings={timingStats}
         reports={reports}
         brandName={sessionStorage.getItem('brandName') || ''}
+        revisableAnswers={getRevisableAnswers(messages, reports, source)}
+        onReviseAnswer={isLoading || hasQueuedTurn ? undefined : answer => {
+          autopilot.takeOver();
+          startRevision(answer);
+        }}
       />
       
       <main className="flex-grow relative overflow-hidden bg-white-smoke mt-20">
@@ -1052,12 +1309,32 @@ Ready to take your brand to the next level? The insights you've discovered here
         >
           {messages.map((message, index) => renderEnhancedMessageBubble(message, index))}
           
-          {(isTyping || isGeneratingReport) && (
+          {streamingReply?.visibleContent && (
+            <MessageBubble
+              message={{
+                role: 'assistant',
+                content: streamingReply.visibleContent,
+                timestamp: new Date(),
+                phase: currentPhase
+              }}
+              isLast={true}
+              isStreaming={true}
+              brandName={sessionStorage.getItem('brandName') || ''}
+              reportContent={null}
+            />
+          )}
+          
+          {(isTyping || isGeneratingReport) && (!streamingReply?.visibleContent || streamingReply.reportInProgress) && (
             <div className="flex items-center text-neutral-gray italic">
               <span className="mr-2">
-                {isGeneratingReport 
-                  ? "Generating your personalized brand report..." 
-                  : processingMessages[processingStage]
+                {streamingReply?.reportInProgress
+                  ? format(text.writingReport, {
+                      title: streamingReply.reportInProgress.title || text.writingReportFallback,
+                      count: formatNumber(streamingReply.reportInProgress.length, locale)
+                    })
+                  : isGeneratingReport 
+                  ? text.generatingReport 
+                  : strings.processing[processingStage]
                 }
               </span>
               <span className="animate-pulse">●●●</span>
@@ -1067,19 +1344,45 @@ Ready to take your brand to the next level? The insights you've discovered here
       </main>
       
       <div ref={inputBoxRef} className="sticky bottom-0 w-full bg-white border-t border-neutral-gray">
+        <OutboxBar isOnline={outbox.isOnline} waiting={outbox.entries.length} />
+        {persona && currentPhase !== 'complete' && (
+          <AutopilotBar
+            status={autopilot.status}
+            personaLabel={persona.label}
+            isTyping={autopilot.isTyping}
+            onStart={autopilot.start}
+            onTakeOver={autopilot.takeOver}
+          />
+        )}
         <MessageInput 
           input={input}
-          setInput={setInput}
-          isLoading={isLoading}
-          sendMessage={sendMessage}
+          setInput={value => {
+            autopilot.takeOver();
+            setInput(value);
+          }}
+          isLoading={isLoading || hasQueuedTurn}
+          sendMessage={revision ? submitRevision : sendMessage}
+          onStop={isLoading ? () => {
+            autopilot.takeOver();
+            stopGenerating();
+          } : undefined}
+          isStopping={isStopping}
           inputRef={inputRef}
-          suggestedAnswer={suggestedAnswer}
+          suggestedAnswer={autopilot.status === 'on' ? null : suggestedAnswer}
           onUseSuggestion={() => {
             if (suggestedAnswer) {
               setInput(suggestedAnswer);
               setSuggestedAnswer(null);
             }
           }}
+          revisingQuestion={revision?.question.text}
+          onCancelRevision={cancelRevision}
+          answerInput={revision ? revision.question.input : currentPhase === 'complete' ? null : questionPath.getQuestion(actualQuestionIndex)?.input}
+          structuredAnswer={structuredAnswer}
+          onStructuredAnswerChange={value => {
+            autopilot.takeOver();
+            setStructuredAnswer(value);
+          }}
         />
       </div>
     </div>
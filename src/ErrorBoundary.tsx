@@ -1,7 +1,9 @@
-import { Component, ErrorInfo, ReactNode } from 'react';
+import { Component, ContextType, ErrorInfo, ReactNode } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
-import { ERROR_MESSAGES, ERROR_CATEGORIES, getErrorCategory, APP_CONFIG } from './types/constants';
+import { ERROR_CATEGORIES, getErrorCategory, APP_CONFIG } from './types/constants';
+import { Strings, format } from './i18n';
+import { LocaleContext } from './i18n/context';
 
 interface Props {
   children: ReactNode;
@@ -31,6 +33,9 @@ class AppError extends Error {
 }
 
 class ErrorBoundary extends Component<Props, State> {
+  static contextType = LocaleContext;
+  declare context: ContextType<typeof LocaleContext>;
+
   private maxRetries = APP_CONFIG.MAX_RETRY_ATTEMPTS;
   private retryTimeout: NodeJS.Timeout | null = null;
   private recoveryTimeout: NodeJS.Timeout | null = null;
@@ -47,7 +52,7 @@ class ErrorBoundary extends Component<Props, State> {
   };
 
   public static getDerivedStateFromError(error: Error): Partial<State> {
-    const category = getErrorCategory(error.message as keyof typeof ERROR_MESSAGES) || 'RECOVERABLE';
+    const category = getErrorCategory(error.message as keyof Strings['errors']) || 'RECOVERABLE';
     
     return { 
       hasError: true,
@@ -62,7 +67,7 @@ class ErrorBoundary extends Component<Props, State> {
     this.setState({
       error,
       errorInfo,
-      errorCategory: getErrorCategory(error.message as keyof typeof ERROR_MESSAGES) || 'RECOVERABLE'
+      errorCategory: getErrorCategory(error.message as keyof Strings['errors']) || 'RECOVERABLE'
     });
     
     // Enhanced state preservation with error context
@@ -109,7 +114,7 @@ class ErrorBoundary extends Component<Props, State> {
       return error.recoverable;
     }
     
-    const category = getErrorCategory(error.message as keyof typeof ERROR_MESSAGES);
+    const category = getErrorCategory(error.message as keyof Strings['errors']);
     return category === 'RECOVERABLE' || category === 'SESSION_RELATED';
   }
 
@@ -119,25 +124,26 @@ class ErrorBoundary extends Component<Props, State> {
     }
 
     // Categorized error messages
+    const { errors } = this.context.strings;
     if (error.message.includes('Network') || error.message.includes('fetch')) {
-      return 'Connection issue detected. Please check your internet connection.';
+      return errors.NETWORK_ERROR;
     }
     if (error.message.includes('Firebase') || error.message.includes('Firestore')) {
-      return 'Database connection issue. Your progress has been saved locally.';
+      return errors.FIRESTORE_ERROR;
     }
     if (error.message.includes('OpenAI') || error.message.includes('API')) {
-      return 'AI service temporarily unavailable. Please try again in a moment.';
+      return errors.OPENAI_ERROR;
     }
     if (error.message.includes('Session') || error.message.includes('Auth')) {
-      return 'Session expired. Please start a new brand development journey.';
+      return errors.SESSION_EXPIRED;
     }
     
-    return 'An unexpected error occurred. Your progress has been saved.';
+    return errors.UNKNOWN_ERROR;
   }
 
   private shouldAttemptAutoRecovery(error: Error): boolean {
     const recoverableCategories = ['RECOVERABLE'];
-    const category = getErrorCategory(error.message as keyof typeof ERROR_MESSAGES);
+    const category = getErrorCategory(error.message as keyof Strings['errors']);
     
     return recoverableCategories.includes(category || '') && 
            this.state.recoveryAttempts < 2; // Limit recovery attempts
@@ -170,7 +176,7 @@ class ErrorBoundary extends Component<Props, State> {
     sessionStorage.setItem('criticalErrorReport', JSON.stringify(criticalErrorReport));
     
     // Show critical error notification
-    toast.error('Critical system error. Please contact support if this persists.', {
+    toast.error(this.context.strings.errorBoundary.criticalToast, {
       duration: 10000
     });
   }
@@ -215,7 +221,7 @@ class ErrorBoundary extends Component<Props, State> {
       APP_CONFIG.MAX_RETRY_DELAY
     );
     
-    toast.loading(`Attempting recovery... (${this.state.retryCount + 1}/${this.maxRetries})`, {
+    toast.loading(format(this.context.strings.errorBoundary.recovering, { attempt: this.state.retryCount + 1, max: this.maxRetries }), {
       duration: retryDelay,
       id: 'recovery-toast'
     });
@@ -231,7 +237,7 @@ class ErrorBoundary extends Component<Props, State> {
       }));
       
       toast.dismiss('recovery-toast');
-      toast.success('Recovery successful!', { duration: 2000 });
+      toast.success(this.context.strings.errorBoundary.recovered, { duration: 2000 });
       
       // Start health monitoring after recovery
       this.startHealthMonitoring();
@@ -284,7 +290,7 @@ class ErrorBoundary extends Component<Props, State> {
       isRecovering: false
     });
     
-    toast.success('Retrying...', { duration: 1000 });
+    toast.success(this.context.strings.errorBoundary.retrying, { duration: 1000 });
   };
 
   private handleRestart = () => {
@@ -306,7 +312,7 @@ class ErrorBoundary extends Component<Props, State> {
       sessionStorage.setItem('errorRecoveryState', recoveryState);
     }
     
-    toast.success('Restarting application...', { duration: 2000 });
+    toast.success(this.context.strings.errorBoundary.restarting, { duration: 2000 });
     
     // Redirect to home page
     setTimeout(() => {
@@ -328,32 +334,21 @@ class ErrorBoundary extends Component<Props, State> {
   };
 
   private getErrorTitle = () => {
-    switch (this.state.errorCategory) {
-      case 'CRITICAL':
-        return 'Critical System Error';
-      case 'SESSION_RELATED':
-        return 'Session Issue';
-      case 'USER_INPUT':
-        return 'Input Error';
-      case 'RECOVERABLE':
-        return 'Temporary Issue';
-      default:
-        return 'Something went wrong';
-    }
+    const { titles } = this.context.strings.errorBoundary;
+    return this.state.errorCategory ? titles[this.state.errorCategory] : titles.fallback;
   };
 
   private getErrorDescription = () => {
+    const { descriptions } = this.context.strings.errorBoundary;
     switch (this.state.errorCategory) {
       case 'CRITICAL':
-        return 'A critical system error has occurred. Please try restarting or contact support if this continues.';
       case 'SESSION_RELATED':
-        return 'Your session has encountered an issue. You may need to start a new brand development journey.';
       case 'USER_INPUT':
-        return 'There was an issue with your input. Please check your response and try again.';
+        return descriptions[this.state.errorCategory];
       case 'RECOVERABLE':
         return this.getUserMessage(this.state.error!);
       default:
-        return 'An unexpected error occurred, but your progress has been saved.';
+        return descriptions.fallback;
     }
   };
 
@@ -371,6 +366,7 @@ class ErrorBoundary extends Component<Props, State> {
 
   public render() {
     if (this.state.hasError) {
+      const text = this.context.strings.errorBoundary;
       const canRetry = this.state.retryCount < this.maxRetries && 
                       this.state.errorCategory !== 'CRITICAL';
       
@@ -425,7 +421,7 @@ class ErrorBoundary extends Component<Props, State> {
                   transition={{ delay: 0.3 }}
                 >
                   <summary className="cursor-pointer text-xs text-neutral-gray hover:text-dark-gray mb-2 font-medium">
-                    🔍 Technical Details (Development Mode)
+                    {text.technicalDetails}
                   </summary>
                   <div className="mt-2 p-3 bg-gray-50 rounded-lg text-xs font-mono overflow-auto max-h-32 border">
                     <div className="text-red-600 mb-2 font-semibold">
@@ -457,7 +453,7 @@ class ErrorBoundary extends Component<Props, State> {
                         className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full"
                       />
                       <p className="text-xs text-blue-700 font-medium">
-                        Recovery in progress... (Attempt {this.state.recoveryAttempts + 1})
+                        {format(text.recoveryInProgress, { attempt: this.state.recoveryAttempts + 1 })}
                       </p>
                     </div>
                   </motion.div>
@@ -474,7 +470,7 @@ class ErrorBoundary extends Component<Props, State> {
                     whileTap={{ scale: 0.98 }}
                     disabled={this.state.isRecovering}
                   >
-                    Try Again {this.state.retryCount > 0 && `(${this.maxRetries - this.state.retryCount} attempts left)`}
+                    {text.tryAgain} {this.state.retryCount > 0 && format(text.attemptsLeft, { count: this.maxRetries - this.state.retryCount })}
                   </motion.button>
                 )}
                 
@@ -485,14 +481,14 @@ class ErrorBoundary extends Component<Props, State> {
                   whileTap={{ scale: 0.98 }}
                   disabled={this.state.isRecovering}
                 >
-                  Start New Journey
+                  {text.startNewJourney}
                 </motion.button>
                 
                 <p className="text-xs text-neutral-gray text-center mt-4 leading-relaxed">
-                  Your progress has been automatically saved and will be restored when possible. 
+                  {text.progressSaved}{' '}
                   {this.state.retryCount > 0 && (
                     <span className="block mt-1 font-medium text-goldenrod">
-                      Recovery attempted {this.state.retryCount} time{this.state.retryCount > 1 ? 's' : ''}
+                      {this.state.retryCount === 1 ? text.recoveryAttemptedOnce : format(text.recoveryAttempted, { count: this.state.retryCount })}
                     </span>
                   )}
                 </p>
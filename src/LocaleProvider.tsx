@@ -0,0 +1,28 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Locale, detectLocale, getStrings, isLocale } from './i18n';
+import { LocaleContext } from './i18n/context';
+
+// Kept for the tab so a reload keeps the language; the interview itself stores its locale too
+const LOCALE_STORAGE_KEY = 'locale';
+
+const getInitialLocale = (): Locale => {
+  const stored = sessionStorage.getItem(LOCALE_STORAGE_KEY);
+  return isLocale(stored) ? stored : detectLocale();
+};
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    sessionStorage.setItem(LOCALE_STORAGE_KEY, next);
+    setLocaleState(next);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(() => ({ locale, setLocale, strings: getStrings(locale) }), [locale, setLocale]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
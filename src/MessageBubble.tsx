@@ -21,9 +21,12 @@ interface MessageBubbleProps {
   isLast: boolean;
   brandName: string;
   reportContent: string | null;
+  isStreaming?: boolean;
+  /** Shown under a message still waiting in the outbox, e.g. "Waiting to send" */
+  pendingLabel?: string;
 }
 
-const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
+const MessageBubble: React.FC<MessageBubbleProps> = ({ message, isStreaming = false, pendingLabel }) => {
   const isAssistant = message.role === 'assistant';
   
   // Check if this message contains download components
@@ -31,6 +34,12 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
   
   // Split content into paragraphs and render each separately
   const paragraphs = message.content.split('\n\n').filter(p => p.trim());
+
+  const pendingNote = pendingLabel && (
+    <div className={`-mt-2 mb-4 text-xs italic text-neutral-gray ${isAssistant ? 'text-left' : 'text-right'}`}>
+      {pendingLabel}
+    </div>
+  );
   
   // If this is a download component message, render it specially
   if (hasDownloadComponent) {
@@ -130,6 +139,7 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
             dangerouslySetInnerHTML={{ __html: marked.parse(message.content) }}
           />
         </div>
+        {pendingNote}
       </motion.div>
     );
   }
@@ -148,11 +158,19 @@ const MessageBubble: React.FC<MessageBubbleProps> = ({ message }) => {
           <div
             className={`inline-block max-w-[80%] p-4 rounded-lg ${
               isAssistant ? 'bg-bone text-dark-gray' : 'bg-dark-gray text-bone'
-            }`}
+            } ${pendingLabel ? 'opacity-60' : ''}`}
             dangerouslySetInnerHTML={{ __html: marked.parse(paragraph) }}
           />
         </motion.div>
       ))}
+      {pendingNote}
+      
+      {/* Caret while the reply is still streaming in */}
+      {isStreaming && (
+        <div className="mb-4 text-left">
+          <span className="inline-block w-2 h-4 bg-dark-gray animate-pulse" />
+        </div>
+      )}
     </>
   );
 };
@@ -1,15 +1,29 @@
 import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
-import { Send, Loader, Sparkles, Check } from 'lucide-react';
+import { Send, Loader, Sparkles, Check, Square, Pencil, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import AnswerWidget from './AnswerWidget';
+import { isAnswerComplete } from './services/questionnaire/answers';
+import { useLocale } from './i18n/context';
+import type { AnswerInput, StructuredAnswer } from './types/questionnaire';
 
 interface MessageInputProps {
   input: string;
   setInput: (value: string) => void;
   isLoading: boolean;
   sendMessage: () => void;
+  /** Stops the reply being generated; shown in place of Send while loading */
+  onStop?: () => void;
+  isStopping?: boolean;
   inputRef: React.RefObject<HTMLTextAreaElement>;
   suggestedAnswer: string | null;
   onUseSuggestion: () => void;
+  /** Text of the earlier question whose answer is being revised, if any */
+  revisingQuestion?: string | null;
+  onCancelRevision?: () => void;
+  /** Control for the open question; the text box then holds an optional note */
+  answerInput?: AnswerInput | null;
+  structuredAnswer?: StructuredAnswer | null;
+  onStructuredAnswerChange?: (value: StructuredAnswer | null) => void;
 }
 
 // Debounce hook for performance
@@ -34,10 +48,19 @@ const MessageInput: React.FC<MessageInputProps> = ({
   setInput,
   isLoading,
   sendMessage,
+  onStop,
+  isStopping = false,
   inputRef,
   suggestedAnswer,
-  onUseSuggestion
+  onUseSuggestion,
+  revisingQuestion = null,
+  onCancelRevision,
+  answerInput = null,
+  structuredAnswer = null,
+  onStructuredAnswerChange
 }) => {
+  const { strings } = useLocale();
+  const text = strings.messageInput;
   const [isUsingDemo, setIsUsingDemo] = useState(false);
   const [lastSubmitTime, setLastSubmitTime] = useState(0);
   const [inputError, setInputError] = useState<string | null>(null);
@@ -49,28 +72,32 @@ const MessageInput: React.FC<MessageInputProps> = ({
     return trimmed.length >= 3 && trimmed.length <= 5000;
   }, [input]);
 
+  // Free text is only for the widget's note, so a complete widget answer can be sent on its own
+  const widget = answerInput && answerInput.type !== 'text' && onStructuredAnswerChange ? answerInput : null;
+  const hasWidgetAnswer = Boolean(widget && structuredAnswer && isAnswerComplete(widget, structuredAnswer));
+
   const canSubmit = useMemo(() => {
     return !isLoading && 
            !isUsingDemo && 
-           isValidInput && 
+           (isValidInput || (hasWidgetAnswer && input.trim().length <= 5000)) && 
            Date.now() - lastSubmitTime > 1000; // 1 second rate limit
-  }, [isLoading, isUsingDemo, isValidInput, lastSubmitTime]);
+  }, [isLoading, isUsingDemo, isValidInput, hasWidgetAnswer, input, lastSubmitTime]);
 
   // Enhanced input validation with real-time feedback
   useEffect(() => {
     const trimmed = debouncedInput.trim();
     if (trimmed.length > 0) {
       if (trimmed.length < 3) {
-        setInputError('Response too brief (minimum 3 characters)');
+        setInputError(text.tooBrief);
       } else if (trimmed.length > 5000) {
-        setInputError('Response too long (maximum 5000 characters)');
+        setInputError(text.tooLong);
       } else {
         setInputError(null);
       }
     } else {
       setInputError(null);
     }
-  }, [debouncedInput]);
+  }, [debouncedInput, text]);
 
   const handleKeyPress = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -175,7 +202,7 @@ const MessageInput: React.FC<MessageInputProps> = ({
                   <div className="flex items-center gap-2">
                     <Sparkles className="h-4 w-4 text-goldenrod" />
                     <span className="text-sm font-medium text-dark-gray">
-                      Demo Answer Available
+                      {text.demoAvailable}
                     </span>
                     {/* <span className="text-xs bg-goldenrod text-white px-2 py-0.5 rounded-full">
                       Try It!
@@ -192,12 +219,12 @@ const MessageInput: React.FC<MessageInputProps> = ({
                     {isUsingDemo ? (
                       <>
                         <Loader className="h-3 w-3 animate-spin" />
-                        <span>Loading...</span>
+                        <span>{text.loading}</span>
                       </>
                     ) : (
                       <>
                         <Check className="h-3 w-3" />
-                        <span>Use Demo Answer</span>
+                        <span>{text.useDemo}</span>
                       </>
                     )}
                   </motion.button>
@@ -207,8 +234,41 @@ const MessageInput: React.FC<MessageInputProps> = ({
           )}
         </AnimatePresence>
 
+        {/* Revising an earlier answer */}
+        {revisingQuestion && (
+          <div className="p-3 border-b border-neutral-gray/20 flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 min-w-0">
+              <Pencil className="h-4 w-4 text-goldenrod flex-shrink-0" />
+              <span className="text-sm text-dark-gray truncate">
+                <span className="font-medium">{text.revising}</span> {revisingQuestion}
+              </span>
+            </div>
+            {onCancelRevision && (
+              <button
+                onClick={onCancelRevision}
+                disabled={isLoading}
+                className="inline-flex items-center gap-1 text-sm text-neutral-gray hover:text-dark-gray disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <X className="h-3 w-3" />
+                <span>{text.cancel}</span>
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Enhanced Input Section */}
         <div className="p-4">
+          {widget && onStructuredAnswerChange && (
+            <div className="mb-3">
+              <AnswerWidget
+                input={widget}
+                value={structuredAnswer}
+                onChange={onStructuredAnswerChange}
+                disabled={isLoading || isUsingDemo}
+              />
+            </div>
+          )}
+
           <motion.div 
             className="flex items-end gap-3"
             animate={{ scale: isUsingDemo ? 1.01 : 1 }}
@@ -221,9 +281,13 @@ const MessageInput: React.FC<MessageInputProps> = ({
                 onChange={handleInput}
                 onKeyPress={handleKeyPress}
                 className={`w-full p-4 border-2 rounded-lg focus:outline-none resize-none min-h-[56px] max-h-[200px] transition-all duration-200 ${getInputBorderColor()}`}
-                placeholder={suggestedAnswer 
-                  ? "Type your own answer or use the demo answer above..." 
-                  : "Type your message..."
+                placeholder={widget
+                  ? text.notePlaceholder
+                  : revisingQuestion
+                  ? text.revisionPlaceholder
+                  : suggestedAnswer 
+                  ? text.demoPlaceholder 
+                  : text.placeholder
                 }
                 disabled={isLoading || isUsingDemo}
                 rows={1}
@@ -238,24 +302,47 @@ const MessageInput: React.FC<MessageInputProps> = ({
               )}
             </div>
             
-            {/* Enhanced Submit Button */}
-            <motion.button
-              onClick={handleSendMessage}
-              disabled={!canSubmit}
-              className={`h-[56px] w-[56px] flex items-center justify-center rounded-lg transition-all duration-200 flex-shrink-0 ${
-                canSubmit 
-                  ? 'bg-black text-white hover:bg-dark-gray' 
-                  : 'bg-neutral-gray text-white cursor-not-allowed'
-              }`}
-              whileHover={canSubmit ? { scale: 1.05 } : {}}
-              whileTap={canSubmit ? { scale: 0.95 } : {}}
-            >
-              {isLoading || isUsingDemo ? (
-                <Loader className="animate-spin h-5 w-5" />
-              ) : (
-                <Send className="h-5 w-5" />
-              )}
-            </motion.button>
+            {/* Stop button replaces Send while a reply is being generated */}
+            {isLoading && onStop ? (
+              <motion.button
+                onClick={onStop}
+                disabled={isStopping}
+                aria-label={text.stop}
+                title={text.stop}
+                className={`h-[56px] w-[56px] flex items-center justify-center rounded-lg transition-all duration-200 flex-shrink-0 ${
+                  isStopping
+                    ? 'bg-neutral-gray text-white cursor-not-allowed'
+                    : 'bg-black text-white hover:bg-dark-gray'
+                }`}
+                whileHover={isStopping ? {} : { scale: 1.05 }}
+                whileTap={isStopping ? {} : { scale: 0.95 }}
+              >
+                {isStopping ? (
+                  <Loader className="animate-spin h-5 w-5" />
+                ) : (
+                  <Square className="h-4 w-4 fill-current" />
+                )}
+              </motion.button>
+            ) : (
+              /* Enhanced Submit Button */
+              <motion.button
+                onClick={handleSendMessage}
+                disabled={!canSubmit}
+                className={`h-[56px] w-[56px] flex items-center justify-center rounded-lg transition-all duration-200 flex-shrink-0 ${
+                  canSubmit 
+                    ? 'bg-black text-white hover:bg-dark-gray' 
+                    : 'bg-neutral-gray text-white cursor-not-allowed'
+                }`}
+                whileHover={canSubmit ? { scale: 1.05 } : {}}
+                whileTap={canSubmit ? { scale: 0.95 } : {}}
+              >
+                {isLoading || isUsingDemo ? (
+                  <Loader className="animate-spin h-5 w-5" />
+                ) : (
+                  <Send className="h-5 w-5" />
+                )}
+              </motion.button>
+            )}
           </motion.div>
           
           {/* Enhanced Status Messages */}
@@ -0,0 +1,29 @@
+import React from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { useLocale } from './i18n/context';
+
+interface OutboxBarProps {
+  isOnline: boolean;
+  /** Number of turns and saves still waiting in the outbox */
+  waiting: number;
+}
+
+const OutboxBar: React.FC<OutboxBarProps> = ({ isOnline, waiting }) => {
+  const text = useLocale().strings.outbox;
+  if (isOnline && waiting === 0) return null;
+
+  return (
+    <div className="border-b border-neutral-gray/20 bg-desert-sand/20">
+      <div className="max-w-4xl mx-auto px-3 py-2 flex items-center gap-2">
+        {isOnline ? (
+          <RefreshCw className="h-4 w-4 text-goldenrod flex-shrink-0" />
+        ) : (
+          <CloudOff className="h-4 w-4 text-goldenrod flex-shrink-0" />
+        )}
+        <span className="text-sm text-dark-gray">{isOnline ? text.waiting : text.offline}</span>
+      </div>
+    </div>
+  );
+};
+
+export default OutboxBar;
@@ -1,50 +1,50 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Download, Check, Loader, Clock, ChevronDown } from 'lucide-react';
+import { Download, Check, Loader, Clock, ChevronDown, Pencil } from 'lucide-react';
 import { generatePDF } from './pdfGenerator';
 import toast from 'react-hot-toast';
-import { PhaseId, Reports, isValidPhase } from './types/interview';
-import { PhaseConfig } from './ProgressManager';
-import { PREDEFINED_QUESTIONS } from './types/constants';
+import { PhaseId, Reports } from './types/interview';
+import { PhaseConfig, ProgressManager } from './ProgressManager';
+import { Questionnaire } from './services/questionnaire';
+import type { RevisableAnswer } from './services/revision';
+import type { TimingStats } from './types/timing';
+import { format } from './i18n';
+import { useLocale } from './i18n/context';
 
 interface PhaseProgressProps {
   currentPhase: PhaseId;
   questionCount: number;
-  totalQuestions: number;
+  /** This interview's question path, so branches count towards the right phases */
+  questionPath: Questionnaire;
+  /** How long each question takes across interviews; the time left is estimated from it */
+  questionTimings?: TimingStats;
   reports: Reports;
   brandName: string;
   interviewId?: string;
+  /** Answers whose phase report is written; revising one regenerates the report */
+  revisableAnswers?: RevisableAnswer[];
+  /** Left out while a reply is in progress, which hides the revise links */
+  onReviseAnswer?: (answer: RevisableAnswer) => void;
 }
 
 const PhaseProgress: React.FC<PhaseProgressProps> = ({
   currentPhase,
   questionCount,
+  questionPath,
+  questionTimings,
   reports,
-  brandName
+  brandName,
+  revisableAnswers = [],
+  onReviseAnswer
 }) => {
+  const { locale, strings } = useLocale();
+  const text = strings.phaseProgress;
   const [downloadingPhase, setDownloadingPhase] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
 
-  const phases: PhaseConfig[] = [
-    {
-      id: 'discovery',
-      label: 'Discovery',
-      subPhases: 3,
-      reportRequired: true,
-    },
-    {
-      id: 'messaging',
-      label: 'Messaging',
-      subPhases: 3,
-      reportRequired: true,
-    },
-    {
-      id: 'audience',
-      label: 'Audience',
-      subPhases: 3,
-      reportRequired: true,
-    },
-  ];
+  const progressManager = useMemo(() => new ProgressManager(questionPath, questionTimings), [questionPath, questionTimings]);
+
+  const phases: PhaseConfig[] = progressManager.getInterviewPhases();
 
   const handleDownload = async (phaseId: PhaseId | 'combined') => {
     try {
@@ -55,62 +55,48 @@ const PhaseProgress: React.FC<PhaseProgressProps> = ({
           await generatePDF({
             brandName,
             reportParts: [reports.complete],
-            phaseName: 'Complete Brand Analysis'
+            phaseName: strings.reports.fileNames.complete,
+            reportType: 'complete',
+            locale
           });
-          toast.success('Complete brand report downloaded successfully.');
+          toast.success(text.completeDownloaded);
           return;
         } else {
-          toast.error('Complete report not yet available.');
+          toast.error(text.completeUnavailable);
           return;
         }
       }
 
-      if (isValidPhase(phaseId) && reports[phaseId]) {
-        const phaseNames = {
-          discovery: 'Discovery',
-          messaging: 'Messaging',
-          audience: 'Audience'
-        };
-
+      const phase = progressManager.getPhaseConfig(phaseId);
+      const reportType = phase?.reportTemplate;
+      const report = reportType ? reports[reportType] : undefined;
+      if (phase && reportType && report) {
         await generatePDF({
           brandName,
-          reportParts: [reports[phaseId]!],
-          phaseName: phaseNames[phaseId as keyof typeof phaseNames]
+          reportParts: [report],
+          phaseName: phase.label,
+          reportType,
+          locale
         });
-        toast.success(`${phaseId} phase report downloaded successfully.`);
+        toast.success(format(text.phaseDownloaded, { phase: phase.label }));
       } else {
-        toast.error(`No report available for ${phaseId} phase.`);
+        toast.error(format(text.phaseUnavailable, { phase: phase?.label || phaseId }));
       }
     } catch (error) {
       console.error('Download failed:', error);
-      toast.error('Failed to download report. Please try again.');
+      toast.error(text.downloadFailed);
     } finally {
       setDownloadingPhase(null);
     }
   };
 
-  const currentPhaseIndex = phases.findIndex(phase => phase.id === currentPhase);
-  const totalQuestions = PREDEFINED_QUESTIONS.length;
-  
-  const progressPercentage = Math.min((questionCount / totalQuestions) * 100, 100);
-  
-  const getPhaseStatus = (phaseIndex: number) => {
-    if (currentPhase === 'complete') {
-      return 'completed';
-    }
-    
-    const questionsPerPhase = 3;
-    const phaseStartQuestion = phaseIndex * questionsPerPhase;
-    const phaseEndQuestion = phaseStartQuestion + questionsPerPhase;
-    
-    if (questionCount >= phaseEndQuestion) {
-      return 'completed';
-    } else if (questionCount > phaseStartQuestion) {
-      return 'active';
-    } else {
-      return 'pending';
-    }
-  };
+  const progressPercentage = progressManager.calculateProgress(questionCount, currentPhase);
+  const minutesLeft = progressManager.getEstimatedMinutesLeft(questionCount, currentPhase);
+  const estimatedTimeLeft = minutesLeft < 60
+    ? format(text.minutesLeft, { minutes: minutesLeft })
+    : format(text.hoursLeft, { hours: Math.floor(minutesLeft / 60), minutes: minutesLeft % 60 });
+
+  const getPhaseStatus = (phaseId: PhaseId) => progressManager.getPhaseState(phaseId, questionCount, currentPhase);
 
   // Compact view component
   const CompactView = () => (
@@ -118,7 +104,7 @@ const PhaseProgress: React.FC<PhaseProgressProps> = ({
       {/* Left side - Phase indicators */}
       <div className="flex items-center gap-3">
         {phases.map((phase, index) => {
-          const phaseStatus = getPhaseStatus(index);
+          const phaseStatus = getPhaseStatus(phase.id);
           const isCompleted = phaseStatus === 'completed';
           const isCurrentPhase = phaseStatus === 'active';
           
@@ -191,7 +177,7 @@ const PhaseProgress: React.FC<PhaseProgressProps> = ({
             ) : (
               <Download className="w-3 h-3" />
             )}
-            <span>Brand Alchemy Spark</span>
+            <span>{text.finalReport}</span>
           </motion.button>
         )}
 
@@ -217,17 +203,16 @@ const PhaseProgress: React.FC<PhaseProgressProps> = ({
   const ExpandedView = () => (
     <div className="space-y-4">
       {/* Phase details */}
-      <div className="grid grid-cols-3 gap-4">
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${phases.length}, minmax(0, 1fr))` }}>
         {phases.map((phase, index) => {
-          const phaseStatus = getPhaseStatus(index);
+          const phaseStatus = getPhaseStatus(phase.id);
           const isCompleted = phaseStatus === 'completed';
           const isCurrentPhase = phaseStatus === 'active';
-          const hasReport = isValidPhase(phase.id) && reports[phase.id];
+          const hasReport = Boolean(phase.reportTemplate && reports[phase.reportTemplate]);
+          const phaseAnswers = revisableAnswers.filter(answer => answer.question.phase === phase.id);
           
-          const questionsPerPhase = 3;
-          const phaseStartQuestion = index * questionsPerPhase;
           const phaseProgress = isCurrentPhase 
-            ? Math.min(((questionCount - phaseStartQuestion) / questionsPerPhase) * 100, 100)
+            ? progressManager.getPhaseCompletion(phase.id, questionCount, currentPhase)
             : isCompleted ? 100 : 0;
 
           return (
@@ -300,13 +285,34 @@ const PhaseProgress: React.FC<PhaseProgressProps> = ({
                   ) : (
                     <Download className="w-3 h-3" />
                   )}
-                  <span>Download Report</span>
+                  <span>{text.downloadReport}</span>
                 </motion.button>
               )}
               
               {!hasReport && isCompleted && (
                 <div className="text-xs text-neutral-gray text-center p-2">
-                  Processing...
+                  {text.processing}
+                </div>
+              )}
+
+              {/* Revise an earlier answer; the phase report is regenerated from it */}
+              {onReviseAnswer && phaseAnswers.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  <span className="text-xs font-semibold text-neutral-gray">{text.reviseAnswer}</span>
+                  {phaseAnswers.map(answer => (
+                    <button
+                      key={answer.question.id}
+                      onClick={() => {
+                        onReviseAnswer(answer);
+                        setIsExpanded(false);
+                      }}
+                      title={answer.question.text}
+                      className="w-full flex items-center gap-1 text-left text-xs text-neutral-gray hover:text-goldenrod transition-colors duration-200"
+                    >
+                      <Pencil className="w-3 h-3 flex-shrink-0" />
+                      <span className="truncate">{answer.question.text}</span>
+                    </button>
+                  ))}
                 </div>
               )}
             </motion.div>
@@ -317,7 +323,7 @@ const PhaseProgress: React.FC<PhaseProgressProps> = ({
       {/* Overall progress */}
       <div className="flex items-center justify-between p-3 bg-white/80 backdrop-blur-sm rounded-lg border border-neutral-gray/20">
         <div className="flex items-center gap-3">
-          <span className="text-sm font-semibold text-dark-gray">Overall Progress:</span>
+          <span className="text-sm font-semibold text-dark-gray">{text.overallProgress}</span>
           <div className="flex items-center gap-2">
             <div className="w-32 h-2 bg-neutral-gray/20 rounded-full overflow-hidden">
               <motion.div
@@ -334,7 +340,8 @@ const PhaseProgress: React.FC<PhaseProgressProps> = ({
         </div>
         
         <span className="text-xs text-neutral-gray">
-          {questionCount}/{totalQuestions} Questions Completed
+          {format(text.questionsCompleted, { count: questionCount, total: questionPath.totalQuestions })}
+          {minutesLeft > 0 && format(text.timeLeft, { time: estimatedTimeLeft })}
         </span>
       </div>
     </div>
@@ -1,21 +1,30 @@
 // src/ProgressManager.ts
 
 import { PhaseId } from './types/interview';
-import { PREDEFINED_QUESTIONS, PHASE_CONFIG, isValidPhaseId } from './types/constants';
+import { ReportType } from './types/report';
+import { Questionnaire, questionnaire as defaultQuestionnaire } from './services/questionnaire';
+import { estimateQuestionSeconds } from './services/timings';
+import type { TimingStats } from './types/timing';
 
 export interface PhaseConfig {
   id: PhaseId;
   label: string;
+  /** Number of questions in the phase */
   subPhases: number;
   reportRequired: boolean;
+  reportTemplate: ReportType | null;
+  /** Expected duration of the whole phase, from the questionnaire definition */
+  estimatedMinutes: number;
   description?: string;
   color?: string;
 }
 
+export type PhaseState = 'pending' | 'active' | 'completed';
+
 export interface PhaseStatus {
   id: PhaseId;
   label: string;
-  status: 'pending' | 'active' | 'completed';
+  status: PhaseState;
   progress: number;
   questionsCompleted: number;
   totalQuestions: number;
@@ -32,118 +41,118 @@ export interface ProgressData {
 }
 
 export class ProgressManager {
-  private readonly phases: PhaseConfig[] = [
-    {
-      id: 'discovery',
-      label: 'Discovery',
-      subPhases: 3,
-      reportRequired: true,
-      description: 'Uncover your brand essence',
-      color: 'desert-sand'
-    },
-    {
-      id: 'messaging',
-      label: 'Messaging',
-      subPhases: 3,
-      reportRequired: true,
-      description: 'Align your communication',
-      color: 'champagne'
-    },
-    {
-      id: 'audience',
-      label: 'Audience',
-      subPhases: 3,
-      reportRequired: true,
-      description: 'Connect with your people',
-      color: 'goldenrod'
-    },
-    {
-      id: 'complete',
-      label: 'Complete',
-      subPhases: 0,
-      reportRequired: true,
-      description: 'Your brand transformation',
-      color: 'dark-midnight'
-    }
-  ];
+  private readonly phases: PhaseConfig[];
+
+  /**
+   * Pass an interview's question path; the default is the path before any answers or attributes.
+   * With timing statistics, time estimates follow how long each question really takes.
+   */
+  constructor(
+    private readonly questionnaire: Questionnaire = defaultQuestionnaire.resolvePath(),
+    private readonly timings: TimingStats = {}
+  ) {
+    this.phases = questionnaire.phases.map(phase => ({
+      id: phase.id,
+      label: phase.label,
+      subPhases: phase.questions.length,
+      reportRequired: phase.reportTemplate !== null,
+      reportTemplate: phase.reportTemplate,
+      estimatedMinutes: phase.estimatedMinutes,
+      description: phase.description,
+      color: phase.color
+    }));
+  }
 
   /**
-   * Calculate progress based on completed questions rather than current phase
+   * Phases the user works through, i.e. all but the final 'complete' phase
    */
-  public calculateProgress(questionCount: number): number {
-    const totalQuestions = PREDEFINED_QUESTIONS.length;
-    return Math.min((questionCount / totalQuestions) * 100, 100);
+  public getInterviewPhases(): PhaseConfig[] {
+    return this.phases.slice(0, -1);
+  }
+
+  /**
+   * Overall progress, weighted by each phase's estimated duration so that
+   * phases without questions (e.g. a review) still count towards it
+   */
+  public calculateProgress(questionCount: number, currentPhase?: PhaseId): number {
+    const phases = this.getInterviewPhases();
+    const totalMinutes = phases.reduce((total, phase) => total + phase.estimatedMinutes, 0);
+    if (phases.length === 0) return 100;
+
+    const completed = phases.reduce((total, phase) => {
+      const fraction = this.getPhaseCompletion(phase.id, questionCount, currentPhase) / 100;
+      // Without estimates every phase weighs the same
+      return total + fraction * (totalMinutes > 0 ? phase.estimatedMinutes : 1);
+    }, 0);
+
+    return Math.min((completed / (totalMinutes > 0 ? totalMinutes : phases.length)) * 100, 100);
   }
 
   /**
-   * Determine current phase based on question count
+   * Determine the current phase from the question count, or from the stored
+   * phase when that is further along (phases without questions only ever
+   * advance through the stored phase)
    */
-  public getCurrentPhase(questionCount: number): PhaseId {
-    if (questionCount >= 9) return 'complete';
-    if (questionCount >= 6) return 'audience';
-    if (questionCount >= 3) return 'messaging';
-    return 'discovery';
+  public getCurrentPhase(questionCount: number, currentPhase?: PhaseId): PhaseId {
+    const countedPhase = this.questionnaire.getPhaseForQuestionCount(questionCount);
+    if (!currentPhase || !this.getPhaseConfig(currentPhase)) return countedPhase;
+
+    return this.getPhaseIndex(currentPhase) > this.getPhaseIndex(countedPhase) ? currentPhase : countedPhase;
   }
 
   /**
    * Get the next phase in sequence
    */
   public getNextPhase(currentPhase: PhaseId): PhaseId | null {
-    const currentIndex = this.phases.findIndex(p => p.id === currentPhase);
-    const nextPhase = this.phases[currentIndex + 1];
-    return nextPhase ? nextPhase.id : null;
+    return this.questionnaire.getNextPhase(currentPhase);
   }
 
   /**
    * Calculate questions completed for a specific phase
    */
   public getPhaseQuestionCount(questionCount: number, phaseId: PhaseId): number {
-    const phaseIndex = this.phases.findIndex(p => p.id === phaseId);
-    if (phaseIndex === -1) return 0;
+    const phase = this.getPhaseConfig(phaseId);
+    if (!phase) return 0;
 
-    const phaseStartQuestion = phaseIndex * 3;
-    const phaseEndQuestion = phaseStartQuestion + 3;
-    
-    if (questionCount <= phaseStartQuestion) return 0;
-    if (questionCount >= phaseEndQuestion) return 3;
-    
-    return questionCount - phaseStartQuestion;
+    const phaseStartQuestion = this.questionnaire.getPhaseStartIndex(phaseId);
+    return Math.min(Math.max(questionCount - phaseStartQuestion, 0), phase.subPhases);
+  }
+
+  /**
+   * Whether a phase is done, in progress or still to come
+   */
+  public getPhaseState(phaseId: PhaseId, questionCount: number, currentPhase?: PhaseId): PhaseState {
+    const phaseIndex = this.getPhaseIndex(phaseId);
+    const currentIndex = this.getPhaseIndex(this.getCurrentPhase(questionCount, currentPhase));
+
+    if (phaseIndex < currentIndex) return 'completed';
+    if (phaseIndex > currentIndex) return 'pending';
+    // The final phase has nothing left to do once it is reached
+    return phaseIndex === this.phases.length - 1 ? 'completed' : 'active';
   }
 
   /**
    * Get detailed progress data for UI components
    */
   public getProgressData(currentPhase: PhaseId, questionCount: number, reports: Record<string, string> = {}): ProgressData {
-    const totalProgress = this.calculateProgress(questionCount);
-    const actualCurrentPhase = this.getCurrentPhase(questionCount);
+    const actualCurrentPhase = this.getCurrentPhase(questionCount, currentPhase);
     
-    const phases: PhaseStatus[] = this.phases.slice(0, 3).map((phase, index) => {
-      const phaseQuestionCount = this.getPhaseQuestionCount(questionCount, phase.id);
-      const isCompleted = phaseQuestionCount >= 3;
-      const isActive = actualCurrentPhase === phase.id && !isCompleted;
-      
-      return {
-        id: phase.id,
-        label: phase.label,
-        status: isCompleted ? 'completed' : isActive ? 'active' : 'pending',
-        progress: (phaseQuestionCount / 3) * 100,
-        questionsCompleted: phaseQuestionCount,
-        totalQuestions: 3,
-        hasReport: Boolean(reports[phase.id])
-      };
-    });
-
-    const currentPhaseIndex = this.phases.findIndex(p => p.id === actualCurrentPhase);
-    const currentPhaseProgress = currentPhaseIndex < 3 
-      ? (this.getPhaseQuestionCount(questionCount, actualCurrentPhase) / 3) * 100
-      : 100;
+    const phases: PhaseStatus[] = this.getInterviewPhases().map(phase => ({
+      id: phase.id,
+      label: phase.label,
+      status: this.getPhaseState(phase.id, questionCount, currentPhase),
+      progress: this.getPhaseCompletion(phase.id, questionCount, currentPhase),
+      questionsCompleted: this.getPhaseQuestionCount(questionCount, phase.id),
+      totalQuestions: phase.subPhases,
+      hasReport: Boolean(phase.reportTemplate && reports[phase.reportTemplate])
+    }));
 
     return {
-      totalProgress,
+      totalProgress: this.calculateProgress(questionCount, currentPhase),
       phases,
       currentSubPhase: questionCount,
       isComplete: actualCurrentPhase === 'complete',
-      currentPhaseProgress,
+      currentPhaseProgress: this.getPhaseCompletion(actualCurrentPhase, questionCount, currentPhase),
       nextPhase: this.getNextPhase(actualCurrentPhase)
     };
   }
@@ -152,34 +161,22 @@ export class ProgressManager {
    * Validate phase transition
    */
   public canTransitionToPhase(targetPhase: PhaseId, questionCount: number): boolean {
-    if (!isValidPhaseId(targetPhase)) return false;
-    
-    const requiredQuestions = {
-      'discovery': 0,
-      'messaging': 3,
-      'audience': 6,
-      'complete': 9
-    };
-
-    return questionCount >= requiredQuestions[targetPhase];
+    if (!this.questionnaire.isPhaseId(targetPhase)) return false;
+    return questionCount >= this.questionnaire.getPhaseStartIndex(targetPhase);
   }
 
   /**
    * Get current question for a given state
    */
   public getCurrentQuestion(questionCount: number): string | null {
-    if (questionCount >= PREDEFINED_QUESTIONS.length) return null;
-    return PREDEFINED_QUESTIONS[questionCount];
+    return this.questionnaire.getQuestion(questionCount)?.text || null;
   }
 
   /**
    * Get questions for a specific phase
    */
   public getPhaseQuestions(phaseId: PhaseId): string[] {
-    if (!isValidPhaseId(phaseId) || phaseId === 'complete') return [];
-    
-    const config = PHASE_CONFIG[phaseId];
-    return config.questionIndices.map(index => PREDEFINED_QUESTIONS[index]);
+    return this.questionnaire.getPhaseQuestions(phaseId).map(question => question.text);
   }
 
   /**
@@ -189,10 +186,7 @@ export class ProgressManager {
     const calculatedPhase = this.getCurrentPhase(questionCount);
     
     // Allow for phase being ahead of question count (during transitions)
-    const phaseIndex = this.phases.findIndex(p => p.id === currentPhase);
-    const calculatedIndex = this.phases.findIndex(p => p.id === calculatedPhase);
-    
-    return calculatedIndex <= phaseIndex;
+    return this.getPhaseIndex(calculatedPhase) <= this.getPhaseIndex(currentPhase);
   }
 
   /**
@@ -203,55 +197,77 @@ export class ProgressManager {
   }
 
   /**
-   * Calculate estimated completion time
+   * Expected seconds for one question: the median time recorded across interviews,
+   * or an even share of its phase's estimated duration until there is enough data
    */
-  public getEstimatedCompletionTime(questionCount: number): string {
-    const remainingQuestions = PREDEFINED_QUESTIONS.length - questionCount;
-    const estimatedMinutes = remainingQuestions * 2; // Assume 2 minutes per question
-    
-    if (estimatedMinutes <= 0) return 'Complete';
-    if (estimatedMinutes < 60) return `~${estimatedMinutes} minutes`;
-    
-    const hours = Math.floor(estimatedMinutes / 60);
-    const minutes = estimatedMinutes % 60;
-    return `~${hours}h ${minutes}m`;
+  public getQuestionSeconds(questionId: string): number {
+    const measured = estimateQuestionSeconds(this.timings[questionId]);
+    if (measured !== null) return measured;
+
+    const phase = this.getPhaseConfig(this.questionnaire.getQuestionById(questionId)?.phase || '');
+    return phase && phase.subPhases > 0 ? (phase.estimatedMinutes * 60) / phase.subPhases : 0;
   }
 
   /**
-   * Get completion percentage for specific phase
+   * Estimated minutes left from the questions still open on the path, plus the
+   * estimated duration of phases without questions; 0 once complete.
+   * Callers word it in the interview's language.
    */
-  public getPhaseCompletion(phaseId: PhaseId, questionCount: number): number {
-    const phaseQuestions = this.getPhaseQuestionCount(questionCount, phaseId);
-    const totalPhaseQuestions = phaseId === 'complete' ? 0 : 3;
-    
-    if (totalPhaseQuestions === 0) return questionCount >= 9 ? 100 : 0;
-    return Math.min((phaseQuestions / totalPhaseQuestions) * 100, 100);
+  public getEstimatedMinutesLeft(questionCount: number, currentPhase?: PhaseId): number {
+    const seconds = this.getInterviewPhases().reduce((total, phase) => {
+      const state = this.getPhaseState(phase.id, questionCount, currentPhase);
+      if (state === 'completed') return total;
+      if (phase.subPhases === 0) return total + phase.estimatedMinutes * 60;
+
+      const answered = state === 'active' ? this.getPhaseQuestionCount(questionCount, phase.id) : 0;
+      return this.questionnaire.getPhaseQuestions(phase.id)
+        .slice(answered)
+        .reduce((sum, question) => sum + this.getQuestionSeconds(question.id), total);
+    }, 0);
+    return Math.max(0, Math.round(seconds / 60));
+  }
+
+  /**
+   * Get completion percentage for specific phase. Phases without questions
+   * are 0% until the interview moves past them.
+   */
+  public getPhaseCompletion(phaseId: PhaseId, questionCount: number, currentPhase?: PhaseId): number {
+    const state = this.getPhaseState(phaseId, questionCount, currentPhase);
+    if (state !== 'active') return state === 'completed' ? 100 : 0;
+
+    const totalPhaseQuestions = this.getPhaseConfig(phaseId)?.subPhases || 0;
+    if (totalPhaseQuestions === 0) return 0;
+    return Math.min((this.getPhaseQuestionCount(questionCount, phaseId) / totalPhaseQuestions) * 100, 100);
   }
 
   /**
    * Check if a phase should show as in-progress
    */
-  public isPhaseInProgress(phaseId: PhaseId, questionCount: number): boolean {
-    const currentPhase = this.getCurrentPhase(questionCount);
-    const phaseQuestions = this.getPhaseQuestionCount(questionCount, phaseId);
-    
-    return currentPhase === phaseId && phaseQuestions > 0 && phaseQuestions < 3;
+  public isPhaseInProgress(phaseId: PhaseId, questionCount: number, currentPhase?: PhaseId): boolean {
+    return this.getPhaseState(phaseId, questionCount, currentPhase) === 'active';
   }
 
   /**
    * Get user-friendly progress description
    */
-  public getProgressDescription(questionCount: number): string {
-    const currentPhase = this.getCurrentPhase(questionCount);
-    const phaseConfig = this.getPhaseConfig(currentPhase);
+  public getProgressDescription(questionCount: number, currentPhase?: PhaseId): string {
+    const phaseId = this.getCurrentPhase(questionCount, currentPhase);
+    const phaseConfig = this.getPhaseConfig(phaseId);
     
     if (!phaseConfig) return 'Getting started...';
     
-    if (currentPhase === 'complete') {
+    if (phaseId === 'complete') {
       return 'Brand development complete!';
     }
+    if (phaseConfig.subPhases === 0) {
+      return `${phaseConfig.label} phase`;
+    }
     
-    const phaseQuestions = this.getPhaseQuestionCount(questionCount, currentPhase);
-    return `${phaseConfig.label} phase: ${phaseQuestions}/3 questions completed`;
+    const phaseQuestions = this.getPhaseQuestionCount(questionCount, phaseId);
+    return `${phaseConfig.label} phase: ${phaseQuestions}/${phaseConfig.subPhases} questions completed`;
   }
-}
\ No newline at end of file
+
+  private getPhaseIndex(phaseId: PhaseId): number {
+    return this.phases.findIndex(p => p.id === phaseId);
+  }
+}
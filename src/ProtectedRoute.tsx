@@ -1,9 +1,10 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
 import { Navigate, useParams } from 'react-router-dom';
-import { doc, getDoc } from 'firebase/firestore';
-import { db } from './firebase';
-import { Interview } from './types/interview';
 import toast from 'react-hot-toast';
+import { DEFAULT_RETRY_POLICY } from './services/retry';
+import { InterviewDataError, getInterviewRepository } from './services/interviews';
+import { DEFAULT_LOCALE, format, isLocale } from './i18n';
+import { useLocale } from './i18n/context';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -15,6 +16,14 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
   const [validationState, setValidationState] = useState<ValidationState>('loading');
   const [retryCount, setRetryCount] = useState(0);
   const { interviewId } = useParams();
+  const { setLocale, strings } = useLocale();
+  const text = strings.session;
+  // Validation switches the language itself, so it reads the strings here rather than running again when they change
+  const textRef = useRef(text);
+
+  useEffect(() => {
+    textRef.current = text;
+  }, [text]);
   
   const validateSession = useCallback(async () => {
     try {
@@ -42,72 +51,40 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
         return;
       }
 
-      // Enhanced Firestore document validation with retry logic
-      let interviewDoc: ReturnType<typeof getDoc> extends Promise<infer T> ? T | undefined : never = undefined;
-      let retryAttempt = 0;
-      const maxRetries = 3;
-      
-      // Retry logic for Firestore consistency issues
-      while (retryAttempt < maxRetries) {
-        const docSnap = await getDoc(doc(db, 'interviews', interviewId));
-        interviewDoc = docSnap;
-        
-        if (interviewDoc && interviewDoc.exists()) {
-          break; // Document found, exit retry loop
-        }
-        
-        retryAttempt++;
-        if (retryAttempt < maxRetries) {
-          console.log(`Interview document not found, retrying... (${retryAttempt}/${maxRetries})`);
-          await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second before retry
-        }
-      }
-      
-      if (!interviewDoc || !interviewDoc.exists()) {
-        console.warn('Interview document not found in Firestore after retries');
+      // Retry while the interview is missing too: it may not be visible yet right after creation
+      let interview;
+      try {
+        interview = await getInterviewRepository().load(interviewId, {
+          awaitCreation: true,
+          onRetry: ({ attempt }) => setRetryCount(attempt)
+        });
+      } catch (error) {
+        if (!(error instanceof InterviewDataError)) throw error;
+        console.warn('Interview document is malformed:', error.errors);
         setValidationState('invalid');
         return;
       }
-
-      const interview = interviewDoc.data() as Interview;
-      
-      // Enhanced document structure validation with better error logging
-      console.log('Interview document data:', interview); // Debug log
-      console.log('BrandName value:', interview.brandName, 'Type:', typeof interview.brandName, 'Length:', interview.brandName?.length); // Detailed debug
-      
       if (!interview) {
-        console.warn('Interview document exists but has no data');
+        console.warn('Interview not found after retries');
         setValidationState('invalid');
         return;
       }
+
+      // Show the interview in its own language, e.g. after a reload in a fresh tab; older interviews are English
+      setLocale(isLocale(interview.locale) ? interview.locale : DEFAULT_LOCALE);
+      
+      // Required fields were already checked when the document was read
+      console.log('Interview document data:', interview); // Debug log
       
-      // More flexible validation - check for essential fields only
-      if (!interview.brandName || interview.brandName.trim() === '') {
-        console.warn('Interview document missing or empty brandName field');
-        console.warn('Full document:', JSON.stringify(interview, null, 2));
+      // Check document age (sessions expire after 24 hours)
+      const ageInHours = (Date.now() - interview.createdAt.getTime()) / (1000 * 60 * 60);
+      if (ageInHours > 24) {
+        console.warn('Interview session expired (> 24 hours old)');
+        toast.error(textRef.current.expired);
         setValidationState('invalid');
         return;
       }
       
-      // Handle missing createdAt field gracefully
-      if (!interview.createdAt) {
-        console.warn('Interview document missing createdAt field, but allowing access');
-        // Don't fail validation for missing createdAt - just skip age check
-      } else {
-        // Check document age (sessions expire after 24 hours) - only if createdAt exists
-        const createdAt = interview.createdAt instanceof Date 
-          ? interview.createdAt 
-          : new Date((interview.createdAt as any).seconds * 1000); // Handle Firestore Timestamp
-        const ageInHours = (Date.now() - createdAt.getTime()) / (1000 * 60 * 60);
-        
-        if (ageInHours > 24) {
-          console.warn('Interview session expired (> 24 hours old)');
-          toast.error('Your session has expired. Please start a new brand development journey.');
-          setValidationState('invalid');
-          return;
-        }
-      }
-      
       // Enhanced phase validation
       const currentPath = window.location.pathname;
       const isReportPath = currentPath.includes('/report');
@@ -132,34 +109,21 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     } catch (error) {
       console.error('Session validation error:', error);
       
-      // Enhanced error handling with retry logic
-      if (retryCount < 2) {
-        console.log(`Retrying validation (attempt ${retryCount + 1}/3)`);
-        setRetryCount(prev => prev + 1);
-        
-        // Exponential backoff retry
-        setTimeout(() => {
-          validateSession();
-        }, Math.pow(2, retryCount) * 1000);
-        
-        return;
-      }
-      
       // Show user-friendly error message
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('Final validation error after retries:', errorMessage);
       
       if (errorMessage.includes('offline') || errorMessage.includes('network')) {
-        toast.error('Connection issue. Please check your internet and try again.');
+        toast.error(textRef.current.connectionIssue);
       } else if (errorMessage.includes('permission') || errorMessage.includes('unauthorized')) {
-        toast.error('Access denied. Please start a new brand development journey.');
+        toast.error(textRef.current.accessDenied);
       } else {
-        toast.error('Unable to verify session. Please try refreshing the page or start a new journey.');
+        toast.error(textRef.current.verifyFailed);
       }
       
       setValidationState('error');
     }
-  }, [interviewId, retryCount]);
+  }, [interviewId, setLocale]);
 
   useEffect(() => {
     validateSession();
@@ -175,12 +139,12 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
             {retryCount > 0 && (
               <div className="absolute -bottom-8 left-1/2 transform -translate-x-1/2">
                 <span className="text-xs text-neutral-gray">
-                  Reconnecting... ({retryCount}/3)
+                  {format(text.reconnecting, { attempt: retryCount + 1, max: DEFAULT_RETRY_POLICY.maxAttempts })}
                 </span>
               </div>
             )}
           </div>
-          <p className="mt-6 text-neutral-gray">Validating your session...</p>
+          <p className="mt-6 text-neutral-gray">{text.validating}</p>
         </div>
       </div>
     );
@@ -197,10 +161,10 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
             </svg>
           </div>
           <h2 className="text-xl font-semibold text-dark-gray mb-2">
-            Connection Issue
+            {text.errorTitle}
           </h2>
           <p className="text-neutral-gray text-sm mb-6">
-            We're having trouble verifying your session. This might be due to a connection issue.
+            {text.errorDescription}
           </p>
           <div className="space-y-3">
             <button
@@ -211,13 +175,13 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
               }}
               className="w-full bg-desert-sand hover:bg-champagne text-dark-gray font-medium py-2 px-4 rounded-lg transition-colors duration-200"
             >
-              Try Again
+              {text.tryAgain}
             </button>
             <button
               onClick={() => window.location.href = '/'}
               className="w-full bg-dark-gray hover:bg-black text-white font-medium py-2 px-4 rounded-lg transition-colors duration-200"
             >
-              Start New Journey
+              {text.startNewJourney}
             </button>
           </div>
         </div>
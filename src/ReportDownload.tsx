@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { Download, Loader } from 'lucide-react';
 import toast from 'react-hot-toast';
+import { format } from './i18n';
+import { useLocale } from './i18n/context';
 
 interface ReportDownloadProps {
   phase: string;
@@ -12,6 +14,7 @@ const ReportDownload: React.FC<ReportDownloadProps> = ({
   onDownload
 }) => {
   const [isDownloading, setIsDownloading] = useState(false);
+  const text = useLocale().strings.reportDownload;
 
   const handleDownload = async () => {
     try {
@@ -19,7 +22,7 @@ const ReportDownload: React.FC<ReportDownloadProps> = ({
       await onDownload();
     } catch (error) {
       console.error('Download failed:', error);
-      toast.error('Failed to download report. Please try again.');
+      toast.error(text.failed);
     } finally {
       setIsDownloading(false);
     }
@@ -29,7 +32,7 @@ const ReportDownload: React.FC<ReportDownloadProps> = ({
     <div className="flex items-center justify-center my-4 p-4 bg-bone rounded-lg">
       <div className="text-dark-gray">
         <h4 className="font-bold mb-2">
-          {phase === 'complete' ? 'Final Brand Report' : `${phase} Report`} Ready
+          {phase === 'complete' ? text.finalReady : format(text.phaseReady, { phase })}
         </h4>
         <button
           onClick={handleDownload}
@@ -41,7 +44,7 @@ const ReportDownload: React.FC<ReportDownloadProps> = ({
           ) : (
             <Download className="h-4 w-4" />
           )}
-          Download Report
+          {text.download}
         </button>
       </div>
     </div>
@@ -1,10 +1,24 @@
 // src/config/environment.ts
 
+// The OpenAI key and assistant id live only on the API server (server/index.ts)
+type ClientLLMProvider = 'proxy' | 'scripted';
+type StorageBackend = 'firestore' | 'memory';
+
 interface EnvironmentConfig {
-  openai: {
-      apiKey: string;
-      assistantId: string;
+  llm: {
+      provider: ClientLLMProvider;
+  };
+  api: {
+      baseUrl: string;
   };
+  usage: {
+      /** Max tokens a single interview may use before further runs are blocked; 0 disables the limit */
+      tokenBudget: number;
+  };
+  storage: {
+      backend: StorageBackend;
+  };
+  /** Only the Firestore backend needs Firebase, so this is null with the in-memory one */
   firebase: {
       apiKey: string;
       authDomain: string;
@@ -13,7 +27,7 @@ interface EnvironmentConfig {
       messagingSenderId: string;
       appId: string;
       measurementId: string;
-  };
+  } | null;
 }
 
 const requireEnvVar = (name: string): string => {
@@ -24,12 +38,22 @@ const requireEnvVar = (name: string): string => {
   return value;
 };
 
+const storageBackend: StorageBackend = import.meta.env.VITE_STORAGE_BACKEND === 'memory' ? 'memory' : 'firestore';
+
 export const config: EnvironmentConfig = {
-  openai: {
-      apiKey: requireEnvVar('VITE_OPENAI_API_KEY'),
-      assistantId: requireEnvVar('VITE_OPENAI_ASSISTANT_ID')
+  llm: {
+      provider: import.meta.env.VITE_LLM_PROVIDER === 'scripted' ? 'scripted' : 'proxy'
   },
-  firebase: {
+  api: {
+      baseUrl: import.meta.env.VITE_API_BASE_URL || ''
+  },
+  usage: {
+      tokenBudget: Math.max(0, Number(import.meta.env.VITE_INTERVIEW_TOKEN_BUDGET) || 0)
+  },
+  storage: {
+      backend: storageBackend
+  },
+  firebase: storageBackend === 'memory' ? null : {
       apiKey: requireEnvVar('VITE_FIREBASE_API_KEY'),
       authDomain: requireEnvVar('VITE_FIREBASE_AUTH_DOMAIN'),
       projectId: requireEnvVar('VITE_FIREBASE_PROJECT_ID'),
@@ -0,0 +1,19 @@
+// src/i18n/context.ts
+// The interview language for the component tree. LocaleProvider supplies it.
+
+import { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, Locale, Strings, getStrings } from './index';
+
+export interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  strings: Strings;
+}
+
+export const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => undefined,
+  strings: getStrings(DEFAULT_LOCALE)
+});
+
+export const useLocale = (): LocaleContextValue => useContext(LocaleContext);
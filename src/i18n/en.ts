@@ -0,0 +1,290 @@
+// src/i18n/en.ts
+// English UI strings. Every other locale provides the same keys (see Strings).
+
+import type { ProcessingStage } from '../types/constants';
+
+const processing: Record<ProcessingStage, string> = {
+  sending: 'Sending your message...',
+  translating: 'Processing your response...',
+  reading: 'Analyzing your input...',
+  thinking: 'Generating insights...',
+  formulating: 'Crafting response...',
+  finalizing: 'Preparing recommendations...',
+  fixing: 'Refining report format...',
+  connecting: 'Establishing connection...',
+  analyzing: 'Analyzing brand elements...'
+};
+
+export const en = {
+  processing,
+
+  errors: {
+    // Network and connectivity errors
+    NETWORK_ERROR: 'Connection issue. Please check your internet connection and try again.',
+    TIMEOUT_ERROR: 'Request timed out. Please try again in a moment.',
+    CONNECTION_LOST: 'Connection lost. Attempting to reconnect...',
+
+    // Session and authentication errors
+    SESSION_EXPIRED: 'Your session has expired. Please start a new brand development journey.',
+    SESSION_INVALID: 'Invalid session. Please start a new journey.',
+    VALIDATION_FAILED: 'Unable to validate session. Please try refreshing the page.',
+    ACCESS_DENIED: 'Access denied. Please start a new brand development journey.',
+
+    // API and service errors
+    API_ERROR: 'Service temporarily unavailable. Please try again in a moment.',
+    OPENAI_ERROR: 'AI service temporarily unavailable. Please try again.',
+    RATE_LIMIT_ERROR: 'Too many requests. Please wait a moment and try again.',
+    SERVICE_UNAVAILABLE: 'Service is currently unavailable. Please try again later.',
+
+    // Data and processing errors
+    FIRESTORE_ERROR: 'Database connection issue. Your progress has been saved locally.',
+    DATA_CORRUPTION: 'Data integrity issue detected. Please refresh and try again.',
+    PROCESSING_ERROR: 'Error processing your request. Please try again.',
+    REPORT_GENERATION_ERROR: 'Report generation failed. Please try again.',
+
+    // User input and validation errors
+    INVALID_INPUT: 'Invalid input. Please check your response and try again.',
+    MISSING_REQUIRED_FIELD: 'Please fill in all required fields.',
+    INPUT_TOO_LONG: 'Input is too long. Please shorten your response.',
+    INVALID_EMAIL: 'Please enter a valid email address.',
+
+    // File and download errors
+    PDF_GENERATION_ERROR: 'Failed to generate PDF. Please try downloading again.',
+    DOWNLOAD_ERROR: 'Download failed. Please try again.',
+    FILE_NOT_FOUND: 'File not found. Please try generating the report again.',
+
+    // General and fallback errors
+    UNKNOWN_ERROR: 'An unexpected error occurred. Your progress has been saved.',
+    REPORT_NOT_READY: 'Report not yet available. Please complete the current phase first.',
+    FEATURE_UNAVAILABLE: 'This feature is temporarily unavailable.',
+    MAINTENANCE_MODE: 'System is under maintenance. Please try again later.'
+  },
+
+  errorBoundary: {
+    titles: {
+      CRITICAL: 'Critical System Error',
+      SESSION_RELATED: 'Session Issue',
+      USER_INPUT: 'Input Error',
+      RECOVERABLE: 'Temporary Issue',
+      fallback: 'Something went wrong'
+    },
+    descriptions: {
+      CRITICAL: 'A critical system error has occurred. Please try restarting or contact support if this continues.',
+      SESSION_RELATED: 'Your session has encountered an issue. You may need to start a new brand development journey.',
+      USER_INPUT: 'There was an issue with your input. Please check your response and try again.',
+      fallback: 'An unexpected error occurred, but your progress has been saved.'
+    },
+    criticalToast: 'Critical system error. Please contact support if this persists.',
+    recovering: 'Attempting recovery... ({attempt}/{max})',
+    recovered: 'Recovery successful!',
+    retrying: 'Retrying...',
+    restarting: 'Restarting application...',
+    technicalDetails: '🔍 Technical Details (Development Mode)',
+    recoveryInProgress: 'Recovery in progress... (Attempt {attempt})',
+    tryAgain: 'Try Again',
+    attemptsLeft: '({count} attempts left)',
+    startNewJourney: 'Start New Journey',
+    progressSaved: 'Your progress has been automatically saved and will be restored when possible.',
+    recoveryAttemptedOnce: 'Recovery attempted 1 time',
+    recoveryAttempted: 'Recovery attempted {count} times'
+  },
+
+  brandEntry: {
+    title: 'Brand Alchemy Spark',
+    subtitle: "Discover your brand's authentic essence in minutes",
+    demoTitle: 'Demo Mode Available',
+    demoHint: 'Leave fields blank for automatic demo values',
+    languageLabel: 'Interview Language',
+    personaLabel: 'Demo Persona',
+    personaHint: '{description}. Suggested answers during the interview come from this business.',
+    brandNameLabel: 'Brand Name',
+    brandNamePlaceholder: 'Your Brand Name (Leave blank for demo)',
+    nameLabel: 'Your Name',
+    namePlaceholder: 'Your Name (Leave blank for demo)',
+    emailLabel: 'Email Address',
+    emailPlaceholder: 'Email Address (Leave blank for demo)',
+    demoValue: 'Demo value:',
+    demoBrandName: "{name}'s Brand",
+    brandNameTooLong: 'Brand name too long (max {max} characters)',
+    brandNameInvalid: 'Brand name contains invalid characters',
+    nameTooLong: 'Name too long (max {max} characters)',
+    nameInvalid: 'Name contains invalid characters',
+    emailInvalid: 'Please enter a valid email address',
+    fixErrors: 'Please fix the errors before continuing',
+    created: 'Session created successfully! Starting your brand journey...',
+    networkError: 'Network error. Please check your connection and try again.',
+    accessDenied: 'Access denied. Please refresh the page and try again.',
+    createFailed: 'Failed to create session. Please try again.',
+    unexpectedError: 'An unexpected error occurred. Please try again.',
+    submitting: 'Creating Your Brand Journey...',
+    submit: 'Get Your Brand Alchemy Spark',
+    timeNote: 'Personal info not required for this 5-10 min demo'
+  },
+
+  session: {
+    validating: 'Validating your session...',
+    expired: 'Your session has expired. Please start a new brand development journey.',
+    connectionIssue: 'Connection issue. Please check your internet and try again.',
+    accessDenied: 'Access denied. Please start a new brand development journey.',
+    verifyFailed: 'Unable to verify session. Please try refreshing the page or start a new journey.',
+    reconnecting: 'Reconnecting... ({attempt}/{max})',
+    errorTitle: 'Connection Issue',
+    errorDescription: "We're having trouble verifying your session. This might be due to a connection issue.",
+    tryAgain: 'Try Again',
+    startNewJourney: 'Start New Journey'
+  },
+
+  chat: {
+    sessionNotFound: 'Session not found. Please start a new journey.',
+    sessionExpired: 'Session expired. Please restart your brand development journey.',
+    initFailed: 'Failed to initialize chat. Please try again.',
+    startFailed: 'Failed to start conversation. Please refresh the page.',
+    usageLimit: 'This session has reached its usage limit.',
+    stopFailed: 'Could not fully stop the response. Please wait a moment before sending again.',
+    prematureCompletion: 'It looks like we have a few more things to cover in this section first.',
+    processFailed: 'Failed to process response. Please try refreshing.',
+    reportFixFailed: 'One of your reports could not be generated. Please try again.',
+    saveFailed: 'Failed to save message history.',
+    briefAnswer: 'Your answer seems a bit brief. Asking the assistant for a follow-up.',
+    responseStopped: 'Response stopped. Edit your message and send it again.',
+    turnQueued: "You're offline. Your message will be sent when you reconnect.",
+    networkError: 'Network error. Please check your connection and try again.',
+    timeout: 'Request timed out. This may happen with complex requests. Please try again.',
+    serviceUnavailable: 'Service temporarily unavailable. Please try again.',
+    messageUsageLimit: 'This session has reached its usage limit, so no more messages can be sent.',
+    sendFailed: 'Failed to send message. Please try again.',
+    unexpectedError: 'An unexpected error occurred. Please try again.',
+    revisionNotSaved: 'Your report could not be regenerated, so your answer was not changed. Please try again.',
+    revisionPartial: 'Not every report could be regenerated. The others still reflect your earlier answer.',
+    revisionStopped: 'Revision stopped. Your answer was not changed.',
+    revisionUsageLimit: 'This session has reached its usage limit, so answers can no longer be revised.',
+    revisionFailed: 'Failed to revise your answer. Please try again.',
+    revisionConfirmed: 'Thank you. Your report has been updated with your revised answer.',
+    backToQuestion: 'Now, back to where we were. {question}',
+    writingReport: 'Writing your {title} report... ({count} characters so far)',
+    writingReportFallback: 'brand',
+    generatingReport: 'Generating your personalized brand report...',
+    reportUnavailable: 'Report not available',
+    reportDownloaded: 'Report downloaded successfully!',
+    reportDownloadFailed: 'Failed to download report',
+    reportReady: '{report} Report Ready!',
+    reportReadyDetail: 'Your personalized insights and recommendations',
+    downloadReport: 'Download {report} Report',
+    tipLabel: 'Tip:',
+    tip: 'Expand the progress ribbon above to access all reports',
+    completion: {
+      title: 'Congratulations! Your Brand Alchemy Spark is Complete!',
+      intro: "Thank you for this illuminating journey through your brand's authentic essence. We've uncovered powerful insights about your brand identity, messaging consistency, and audience alignment.",
+      includesTitle: 'Your Complete Analysis Includes:',
+      includes: [
+        'Strategic brand positioning recommendations',
+        'Actionable growth roadmap with prioritized steps',
+        'Professional brand analysis and insights',
+        'Personalized transformation strategy'
+      ],
+      accessLabel: 'Access All Reports:',
+      access: 'Expand the progress ribbon above to download individual phase reports',
+      closing: "Your brand has tremendous potential, and these insights provide the roadmap to unlock it. This analysis demonstrates the type of strategic transformation available through comprehensive brand development.\n\nReady to take your brand to the next level? The insights you've discovered here are just the beginning of what's possible when you fully align your brand with your authentic vision."
+    }
+  },
+
+  phaseProgress: {
+    finalReport: 'Brand Alchemy Spark',
+    completeDownloaded: 'Complete brand report downloaded successfully.',
+    completeUnavailable: 'Complete report not yet available.',
+    phaseDownloaded: '{phase} phase report downloaded successfully.',
+    phaseUnavailable: 'No report available for {phase} phase.',
+    downloadFailed: 'Failed to download report. Please try again.',
+    downloadReport: 'Download Report',
+    processing: 'Processing...',
+    reviseAnswer: 'Revise an answer',
+    overallProgress: 'Overall Progress:',
+    questionsCompleted: '{count}/{total} Questions Completed',
+    timeLeft: ' · {time} left',
+    minutesLeft: '~{minutes} minutes',
+    hoursLeft: '~{hours}h {minutes}m'
+  },
+
+  autopilot: {
+    label: 'Autopilot',
+    offHint: 'Let {persona} answer every question hands-free',
+    running: 'Autopilot is answering as {persona}',
+    paused: 'Autopilot paused for the report',
+    start: 'Start',
+    resume: 'Resume',
+    takeOver: 'Take over'
+  },
+
+  outbox: {
+    offline: "You're offline. Anything you send is kept on this device and goes out when you reconnect.",
+    waiting: 'Some of your progress has not reached the server yet. It will be sent automatically.',
+    pendingTurn: 'Waiting to send',
+    pendingSave: 'Not saved yet'
+  },
+
+  messageInput: {
+    tooBrief: 'Response too brief (minimum 3 characters)',
+    tooLong: 'Response too long (maximum 5000 characters)',
+    demoAvailable: 'Demo Answer Available',
+    loading: 'Loading...',
+    useDemo: 'Use Demo Answer',
+    revising: 'Revising your answer:',
+    cancel: 'Cancel',
+    notePlaceholder: "Add any detail you'd like (optional)...",
+    revisionPlaceholder: 'Edit your answer...',
+    demoPlaceholder: 'Type your own answer or use the demo answer above...',
+    placeholder: 'Type your message...',
+    stop: 'Stop generating'
+  },
+
+  answerWidget: {
+    scaleLabel: '{min} to {max}',
+    slideToAnswer: 'Slide to answer',
+    item: 'Item',
+    mostImportant: ' (most important)'
+  },
+
+  // Text renderings of widget answers; they are part of the answer the assistant reads
+  answers: {
+    and: 'and',
+    leaning: 'Leaning {label}',
+    balanced: 'Balanced between the two',
+    scale: '{summary}: {value} on a scale from {min} ({minLabel}) to {max} ({maxLabel})'
+  },
+
+  reportDownload: {
+    finalReady: 'Final Brand Report Ready',
+    phaseReady: '{phase} Report Ready',
+    download: 'Download Report',
+    failed: 'Failed to download report. Please try again.'
+  },
+
+  reports: {
+    names: {
+      discovery: 'Brand Elements Discovery',
+      messaging: 'Brand Voice Analysis',
+      audience: 'Brand Audience Alignment Analysis',
+      complete: 'Complete Brand Transformation'
+    },
+    // Download file names, one per report
+    fileNames: {
+      discovery: 'Discovery',
+      messaging: 'Messaging',
+      audience: 'Audience',
+      complete: 'Complete Brand Analysis'
+    },
+    // The assistant keeps the template headings; other locales translate them when the report is rendered
+    headings: {} as Record<string, string>,
+    matrix: {
+      columns: ['Recommendation', 'Impact', 'Effort', 'Priority'],
+      levels: { High: 'High', Medium: 'Medium', Low: 'Low' }
+    }
+  },
+
+  pdf: {
+    preparedFor: 'Prepared for {brand} on {date}',
+    pageNumber: '{page} of {total}'
+  }
+};
+
+export type Strings = typeof en;
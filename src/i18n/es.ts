@@ -0,0 +1,296 @@
+// src/i18n/es.ts
+
+import type { Strings } from './en';
+
+export const es: Strings = {
+  processing: {
+    sending: 'Enviando tu mensaje...',
+    translating: 'Procesando tu respuesta...',
+    reading: 'Analizando tu respuesta...',
+    thinking: 'Generando ideas...',
+    formulating: 'Redactando la respuesta...',
+    finalizing: 'Preparando recomendaciones...',
+    fixing: 'Ajustando el formato del informe...',
+    connecting: 'Estableciendo conexión...',
+    analyzing: 'Analizando los elementos de la marca...'
+  },
+
+  errors: {
+    NETWORK_ERROR: 'Problema de conexión. Comprueba tu conexión a internet e inténtalo de nuevo.',
+    TIMEOUT_ERROR: 'La solicitud ha tardado demasiado. Inténtalo de nuevo en un momento.',
+    CONNECTION_LOST: 'Se ha perdido la conexión. Intentando reconectar...',
+
+    SESSION_EXPIRED: 'Tu sesión ha caducado. Empieza un nuevo recorrido de desarrollo de marca.',
+    SESSION_INVALID: 'Sesión no válida. Empieza un nuevo recorrido.',
+    VALIDATION_FAILED: 'No se ha podido validar la sesión. Prueba a recargar la página.',
+    ACCESS_DENIED: 'Acceso denegado. Empieza un nuevo recorrido de desarrollo de marca.',
+
+    API_ERROR: 'Servicio no disponible temporalmente. Inténtalo de nuevo en un momento.',
+    OPENAI_ERROR: 'El servicio de IA no está disponible temporalmente. Inténtalo de nuevo.',
+    RATE_LIMIT_ERROR: 'Demasiadas solicitudes. Espera un momento e inténtalo de nuevo.',
+    SERVICE_UNAVAILABLE: 'El servicio no está disponible en este momento. Inténtalo más tarde.',
+
+    FIRESTORE_ERROR: 'Problema de conexión con la base de datos. Tu progreso se ha guardado localmente.',
+    DATA_CORRUPTION: 'Se ha detectado un problema de integridad de datos. Recarga la página e inténtalo de nuevo.',
+    PROCESSING_ERROR: 'Error al procesar tu solicitud. Inténtalo de nuevo.',
+    REPORT_GENERATION_ERROR: 'No se ha podido generar el informe. Inténtalo de nuevo.',
+
+    INVALID_INPUT: 'Entrada no válida. Revisa tu respuesta e inténtalo de nuevo.',
+    MISSING_REQUIRED_FIELD: 'Rellena todos los campos obligatorios.',
+    INPUT_TOO_LONG: 'El texto es demasiado largo. Acorta tu respuesta.',
+    INVALID_EMAIL: 'Introduce una dirección de correo electrónico válida.',
+
+    PDF_GENERATION_ERROR: 'No se ha podido generar el PDF. Intenta descargarlo de nuevo.',
+    DOWNLOAD_ERROR: 'La descarga ha fallado. Inténtalo de nuevo.',
+    FILE_NOT_FOUND: 'Archivo no encontrado. Intenta generar el informe de nuevo.',
+
+    UNKNOWN_ERROR: 'Se ha producido un error inesperado. Tu progreso se ha guardado.',
+    REPORT_NOT_READY: 'El informe aún no está disponible. Completa primero la fase actual.',
+    FEATURE_UNAVAILABLE: 'Esta función no está disponible temporalmente.',
+    MAINTENANCE_MODE: 'El sistema está en mantenimiento. Inténtalo más tarde.'
+  },
+
+  errorBoundary: {
+    titles: {
+      CRITICAL: 'Error crítico del sistema',
+      SESSION_RELATED: 'Problema con la sesión',
+      USER_INPUT: 'Error en la entrada',
+      RECOVERABLE: 'Problema temporal',
+      fallback: 'Algo ha salido mal'
+    },
+    descriptions: {
+      CRITICAL: 'Se ha producido un error crítico del sistema. Prueba a reiniciar o contacta con soporte si el problema continúa.',
+      SESSION_RELATED: 'Tu sesión ha tenido un problema. Puede que tengas que empezar un nuevo recorrido de desarrollo de marca.',
+      USER_INPUT: 'Ha habido un problema con tu entrada. Revisa tu respuesta e inténtalo de nuevo.',
+      fallback: 'Se ha producido un error inesperado, pero tu progreso se ha guardado.'
+    },
+    criticalToast: 'Error crítico del sistema. Contacta con soporte si el problema persiste.',
+    recovering: 'Intentando recuperar... ({attempt}/{max})',
+    recovered: '¡Recuperación completada!',
+    retrying: 'Reintentando...',
+    restarting: 'Reiniciando la aplicación...',
+    technicalDetails: '🔍 Detalles técnicos (modo de desarrollo)',
+    recoveryInProgress: 'Recuperación en curso... (intento {attempt})',
+    tryAgain: 'Intentar de nuevo',
+    attemptsLeft: '(quedan {count} intentos)',
+    startNewJourney: 'Empezar un nuevo recorrido',
+    progressSaved: 'Tu progreso se ha guardado automáticamente y se restaurará cuando sea posible.',
+    recoveryAttemptedOnce: 'Recuperación intentada una vez',
+    recoveryAttempted: 'Recuperación intentada {count} veces'
+  },
+
+  brandEntry: {
+    title: 'Brand Alchemy Spark',
+    subtitle: 'Descubre la esencia auténtica de tu marca en minutos',
+    demoTitle: 'Modo de demostración disponible',
+    demoHint: 'Deja los campos en blanco para usar valores de demostración',
+    languageLabel: 'Idioma de la entrevista',
+    personaLabel: 'Perfil de demostración',
+    personaHint: '{description}. Las respuestas sugeridas durante la entrevista son las de este negocio.',
+    brandNameLabel: 'Nombre de la marca',
+    brandNamePlaceholder: 'El nombre de tu marca (en blanco para la demo)',
+    nameLabel: 'Tu nombre',
+    namePlaceholder: 'Tu nombre (en blanco para la demo)',
+    emailLabel: 'Correo electrónico',
+    emailPlaceholder: 'Correo electrónico (en blanco para la demo)',
+    demoValue: 'Valor de demostración:',
+    demoBrandName: 'Marca de {name}',
+    brandNameTooLong: 'El nombre de la marca es demasiado largo (máximo {max} caracteres)',
+    brandNameInvalid: 'El nombre de la marca contiene caracteres no válidos',
+    nameTooLong: 'El nombre es demasiado largo (máximo {max} caracteres)',
+    nameInvalid: 'El nombre contiene caracteres no válidos',
+    emailInvalid: 'Introduce una dirección de correo electrónico válida',
+    fixErrors: 'Corrige los errores antes de continuar',
+    created: '¡Sesión creada! Empezando el recorrido de tu marca...',
+    networkError: 'Error de red. Comprueba tu conexión e inténtalo de nuevo.',
+    accessDenied: 'Acceso denegado. Recarga la página e inténtalo de nuevo.',
+    createFailed: 'No se ha podido crear la sesión. Inténtalo de nuevo.',
+    unexpectedError: 'Se ha producido un error inesperado. Inténtalo de nuevo.',
+    submitting: 'Creando el recorrido de tu marca...',
+    submit: 'Consigue tu Brand Alchemy Spark',
+    timeNote: 'No necesitas datos personales para esta demo de 5-10 minutos'
+  },
+
+  session: {
+    validating: 'Validando tu sesión...',
+    expired: 'Tu sesión ha caducado. Empieza un nuevo recorrido de desarrollo de marca.',
+    connectionIssue: 'Problema de conexión. Comprueba tu internet e inténtalo de nuevo.',
+    accessDenied: 'Acceso denegado. Empieza un nuevo recorrido de desarrollo de marca.',
+    verifyFailed: 'No se ha podido verificar la sesión. Prueba a recargar la página o empieza un nuevo recorrido.',
+    reconnecting: 'Reconectando... ({attempt}/{max})',
+    errorTitle: 'Problema de conexión',
+    errorDescription: 'Tenemos problemas para verificar tu sesión. Puede deberse a un problema de conexión.',
+    tryAgain: 'Intentar de nuevo',
+    startNewJourney: 'Empezar un nuevo recorrido'
+  },
+
+  chat: {
+    sessionNotFound: 'No se ha encontrado la sesión. Empieza un nuevo recorrido.',
+    sessionExpired: 'La sesión ha caducado. Vuelve a empezar el recorrido de desarrollo de marca.',
+    initFailed: 'No se ha podido iniciar el chat. Inténtalo de nuevo.',
+    startFailed: 'No se ha podido iniciar la conversación. Recarga la página.',
+    usageLimit: 'Esta sesión ha alcanzado su límite de uso.',
+    stopFailed: 'No se ha podido detener la respuesta por completo. Espera un momento antes de volver a enviar.',
+    prematureCompletion: 'Parece que aún nos quedan algunas cosas por cubrir en esta sección.',
+    processFailed: 'No se ha podido procesar la respuesta. Prueba a recargar la página.',
+    reportFixFailed: 'No se ha podido generar uno de tus informes. Inténtalo de nuevo.',
+    saveFailed: 'No se ha podido guardar el historial de mensajes.',
+    briefAnswer: 'Tu respuesta parece un poco breve. Pediremos al asistente una pregunta de seguimiento.',
+    responseStopped: 'Respuesta detenida. Edita tu mensaje y vuelve a enviarlo.',
+    turnQueued: 'Estás sin conexión. Tu mensaje se enviará cuando vuelvas a conectarte.',
+    networkError: 'Error de red. Comprueba tu conexión e inténtalo de nuevo.',
+    timeout: 'La solicitud ha tardado demasiado. Puede ocurrir con solicitudes complejas. Inténtalo de nuevo.',
+    serviceUnavailable: 'Servicio no disponible temporalmente. Inténtalo de nuevo.',
+    messageUsageLimit: 'Esta sesión ha alcanzado su límite de uso, así que no se pueden enviar más mensajes.',
+    sendFailed: 'No se ha podido enviar el mensaje. Inténtalo de nuevo.',
+    unexpectedError: 'Se ha producido un error inesperado. Inténtalo de nuevo.',
+    revisionNotSaved: 'No se ha podido regenerar tu informe, así que tu respuesta no ha cambiado. Inténtalo de nuevo.',
+    revisionPartial: 'No se han podido regenerar todos los informes. Los demás siguen reflejando tu respuesta anterior.',
+    revisionStopped: 'Revisión detenida. Tu respuesta no ha cambiado.',
+    revisionUsageLimit: 'Esta sesión ha alcanzado su límite de uso, así que ya no se pueden revisar respuestas.',
+    revisionFailed: 'No se ha podido revisar tu respuesta. Inténtalo de nuevo.',
+    revisionConfirmed: 'Gracias. Tu informe se ha actualizado con tu respuesta revisada.',
+    backToQuestion: 'Volvamos a donde estábamos. {question}',
+    writingReport: 'Escribiendo tu informe {title}... ({count} caracteres hasta ahora)',
+    writingReportFallback: 'de marca',
+    generatingReport: 'Generando tu informe de marca personalizado...',
+    reportUnavailable: 'Informe no disponible',
+    reportDownloaded: '¡Informe descargado!',
+    reportDownloadFailed: 'No se ha podido descargar el informe',
+    reportReady: '¡Informe «{report}» listo!',
+    reportReadyDetail: 'Tus ideas y recomendaciones personalizadas',
+    downloadReport: 'Descargar el informe «{report}»',
+    tipLabel: 'Consejo:',
+    tip: 'Despliega la barra de progreso de arriba para acceder a todos los informes',
+    completion: {
+      title: '¡Enhorabuena! ¡Tu Brand Alchemy Spark está completo!',
+      intro: 'Gracias por este recorrido revelador por la esencia auténtica de tu marca. Hemos descubierto ideas valiosas sobre la identidad de tu marca, la coherencia de tus mensajes y la conexión con tu público.',
+      includesTitle: 'Tu análisis completo incluye:',
+      includes: [
+        'Recomendaciones estratégicas de posicionamiento de marca',
+        'Una hoja de ruta de crecimiento con pasos priorizados',
+        'Un análisis profesional de la marca con sus conclusiones',
+        'Una estrategia de transformación personalizada'
+      ],
+      accessLabel: 'Accede a todos los informes:',
+      access: 'Despliega la barra de progreso de arriba para descargar los informes de cada fase',
+      closing: 'Tu marca tiene un enorme potencial, y estas ideas son la hoja de ruta para desarrollarlo. Este análisis muestra el tipo de transformación estratégica que ofrece un desarrollo de marca completo.\n\n¿Todo listo para llevar tu marca al siguiente nivel? Lo que has descubierto aquí es solo el principio de lo que es posible cuando alineas tu marca con tu visión auténtica.'
+    }
+  },
+
+  phaseProgress: {
+    finalReport: 'Brand Alchemy Spark',
+    completeDownloaded: 'Informe de marca completo descargado.',
+    completeUnavailable: 'El informe completo aún no está disponible.',
+    phaseDownloaded: 'Informe de la fase {phase} descargado.',
+    phaseUnavailable: 'No hay ningún informe disponible para la fase {phase}.',
+    downloadFailed: 'No se ha podido descargar el informe. Inténtalo de nuevo.',
+    downloadReport: 'Descargar informe',
+    processing: 'Procesando...',
+    reviseAnswer: 'Revisar una respuesta',
+    overallProgress: 'Progreso total:',
+    questionsCompleted: '{count}/{total} preguntas completadas',
+    timeLeft: ' · quedan {time}',
+    minutesLeft: '~{minutes} minutos',
+    hoursLeft: '~{hours} h {minutes} min'
+  },
+
+  autopilot: {
+    label: 'Piloto automático',
+    offHint: 'Deja que {persona} responda a todas las preguntas sin intervenir',
+    running: 'El piloto automático responde como {persona}',
+    paused: 'Piloto automático en pausa para el informe',
+    start: 'Empezar',
+    resume: 'Reanudar',
+    takeOver: 'Tomar el control'
+  },
+
+  outbox: {
+    offline: 'Estás sin conexión. Lo que envíes se guarda en este dispositivo y saldrá cuando vuelvas a conectarte.',
+    waiting: 'Parte de tu progreso aún no ha llegado al servidor. Se enviará automáticamente.',
+    pendingTurn: 'Pendiente de envío',
+    pendingSave: 'Aún sin guardar'
+  },
+
+  messageInput: {
+    tooBrief: 'Respuesta demasiado breve (mínimo 3 caracteres)',
+    tooLong: 'Respuesta demasiado larga (máximo 5000 caracteres)',
+    demoAvailable: 'Respuesta de demostración disponible',
+    loading: 'Cargando...',
+    useDemo: 'Usar la respuesta de demostración',
+    revising: 'Revisando tu respuesta:',
+    cancel: 'Cancelar',
+    notePlaceholder: 'Añade cualquier detalle que quieras (opcional)...',
+    revisionPlaceholder: 'Edita tu respuesta...',
+    demoPlaceholder: 'Escribe tu propia respuesta o usa la respuesta de demostración...',
+    placeholder: 'Escribe tu mensaje...',
+    stop: 'Detener la respuesta'
+  },
+
+  answerWidget: {
+    scaleLabel: '{min} a {max}',
+    slideToAnswer: 'Desliza para responder',
+    item: 'Elemento',
+    mostImportant: ' (el más importante)'
+  },
+
+  answers: {
+    and: 'y',
+    leaning: 'Tendiendo a {label}',
+    balanced: 'Equilibrado entre ambos',
+    scale: '{summary}: {value} en una escala de {min} ({minLabel}) a {max} ({maxLabel})'
+  },
+
+  reportDownload: {
+    finalReady: 'Informe final de marca listo',
+    phaseReady: 'Informe de {phase} listo',
+    download: 'Descargar informe',
+    failed: 'No se ha podido descargar el informe. Inténtalo de nuevo.'
+  },
+
+  reports: {
+    names: {
+      discovery: 'Descubrimiento de los elementos de marca',
+      messaging: 'Análisis de la voz de marca',
+      audience: 'Análisis de la conexión con el público',
+      complete: 'Transformación completa de la marca'
+    },
+    fileNames: {
+      discovery: 'Descubrimiento',
+      messaging: 'Mensajes',
+      audience: 'Publico',
+      complete: 'Analisis completo de marca'
+    },
+    headings: {
+      'Core Brand Essence': 'Esencia central de la marca',
+      'Foundational Principles': 'Principios fundamentales',
+      'Distinctive Expression': 'Expresión distintiva',
+      'Immediate Opportunities for Growth': 'Oportunidades inmediatas de crecimiento',
+      'Messaging Alignment': 'Alineación de los mensajes',
+      'Communication Patterns': 'Patrones de comunicación',
+      'Consistency Opportunities': 'Oportunidades de coherencia',
+      'Immediate Actions for Messaging': 'Acciones inmediatas para los mensajes',
+      'Ideal Audience Overview': 'Visión general del público ideal',
+      'Value Connection Points': 'Puntos de conexión de valor',
+      'Engagement Opportunities': 'Oportunidades de interacción',
+      'Immediate Actions for Audience Targeting': 'Acciones inmediatas para llegar al público',
+      'Brand Breakthrough': 'El gran avance de tu marca',
+      'Your Brand at a Glance': 'Tu marca de un vistazo',
+      'Key Observations and Insights': 'Observaciones y conclusiones clave',
+      'Personalized Growth Roadmap': 'Hoja de ruta de crecimiento personalizada',
+      'Action Plan: Where to Focus Next': 'Plan de acción: dónde centrarse ahora',
+      'Next Steps for Growth': 'Próximos pasos para crecer',
+      'Prioritization Matrix': 'Matriz de priorización',
+      'The Brand Alchemy Mastery Course': 'El curso Brand Alchemy Mastery'
+    },
+    matrix: {
+      columns: ['Recomendación', 'Impacto', 'Esfuerzo', 'Prioridad'],
+      levels: { High: 'Alto', Medium: 'Medio', Low: 'Bajo' }
+    }
+  },
+
+  pdf: {
+    preparedFor: 'Preparado para {brand} el {date}',
+    pageNumber: '{page} de {total}'
+  }
+};
@@ -0,0 +1,60 @@
+// src/i18n/index.ts
+// Locales the interview can run in, their UI strings and locale-aware formatting.
+
+import { en, Strings } from './en';
+import { es } from './es';
+
+export type Locale = 'en' | 'es';
+
+export interface LocaleDefinition {
+  id: Locale;
+  /** Shown in the language picker, in the language itself */
+  label: string;
+  /** English name, used when telling the assistant which language to answer in */
+  language: string;
+  /** BCP 47 tag for Intl formatting */
+  tag: string;
+}
+
+export const LOCALES: readonly LocaleDefinition[] = [
+  { id: 'en', label: 'English', language: 'English', tag: 'en-US' },
+  { id: 'es', label: 'Español', language: 'Spanish', tag: 'es-ES' }
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const STRINGS: Record<Locale, Strings> = { en, es };
+
+export const isLocale = (value: unknown): value is Locale => {
+  return LOCALES.some(locale => locale.id === value);
+};
+
+export const getLocaleDefinition = (locale: Locale): LocaleDefinition => {
+  return LOCALES.find(definition => definition.id === locale) || LOCALES[0];
+};
+
+export const getStrings = (locale: Locale): Strings => STRINGS[locale];
+
+/** Fill `{name}` placeholders; unknown placeholders are left as they are */
+export const format = (template: string, params: Record<string, string | number> = {}): string => {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] === undefined ? placeholder : String(params[name])
+  );
+};
+
+/** A date as the locale writes it, e.g. "October 19, 2026" or "19 de octubre de 2026" */
+export const formatDate = (date: Date, locale: Locale): string => {
+  return new Intl.DateTimeFormat(getLocaleDefinition(locale).tag, { dateStyle: 'long' }).format(date);
+};
+
+export const formatNumber = (value: number, locale: Locale): string => {
+  return new Intl.NumberFormat(getLocaleDefinition(locale).tag).format(value);
+};
+
+/** The browser's language when it is one we support */
+export const detectLocale = (): Locale => {
+  const language = typeof navigator === 'undefined' ? '' : navigator.language.slice(0, 2).toLowerCase();
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+};
+
+export type { Strings } from './en';
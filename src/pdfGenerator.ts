@@ -7,11 +7,17 @@ import title1Core from './assets/title1-core-essence.png';
 import title2Messaging from './assets/title2-messaging.png';
 import title3Audience from './assets/title3-audience.png';
 import smallLogo from './assets/black-logo.png';
+import { DEFAULT_LOCALE, Locale, format, formatDate, getStrings } from './i18n';
+import type { ReportType } from './types/report';
 
 interface PdfOptions {
   brandName: string;
   reportParts: string[];
+  /** Used for the file name, in the interview's language */
   phaseName: string;
+  /** Picks the title page, which no longer follows from the translated phase name */
+  reportType: ReportType;
+  locale?: Locale;
 }
 
 const linkConfigs = [
@@ -36,23 +42,30 @@ function normalizeMarkdownTables(markdown: string): string {
   });
 }
 
-// Get appropriate title page based on phase
-const getTitlePage = (phaseName: string): string => {
-  switch (phaseName.toLowerCase()) {
+// Get appropriate title page based on the report
+const getTitlePage = (reportType: ReportType): string => {
+  switch (reportType) {
     case 'discovery':
       return title1Core;
     case 'messaging':
       return title2Messaging;
     case 'audience':
       return title3Audience;
-    case 'complete brand analysis':
-    case 'brand spark analysis':
-      return titlepage;
-    default:
+    case 'complete':
       return titlepage;
   }
 };
 
+// File names stay ASCII; accented letters lose their accents rather than disappearing
+const toFileNamePart = (text: string, maxLength: number): string => {
+  return text.normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-zA-Z0-9\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .substring(0, maxLength);
+};
+
 // Enhanced text processing with FIXED heading overflow and better wrapping
 const processTextLine = (
   pdf: jsPDF,
@@ -539,7 +552,7 @@ const renderBrandNameOnTitlePage = (pdf: jsPDF, brandName: string, pageWidth: nu
   });
 };
 
-export const generatePDF = async ({ brandName, reportParts, phaseName }: PdfOptions): Promise<void> => {
+export const generatePDF = async ({ brandName, reportParts, phaseName, reportType, locale = DEFAULT_LOCALE }: PdfOptions): Promise<void> => {
   const pdf = new jsPDF({
     orientation: 'portrait',
     unit: 'pt',
@@ -558,10 +571,10 @@ export const generatePDF = async ({ brandName, reportParts, phaseName }: PdfOpti
   const margin = 50;
   const usableWidth = pageWidth - 2 * margin;
   
-  const isFinalReport = phaseName.toLowerCase().includes('complete') || 
-                       phaseName.toLowerCase().includes('brand spark');
+  const strings = getStrings(locale);
+  const isFinalReport = reportType === 'complete';
 
-  const titlePageImage = getTitlePage(phaseName);
+  const titlePageImage = getTitlePage(reportType);
   pdf.addImage(titlePageImage, 'PNG', 0, 0, pageWidth, pageHeight);
   
   renderBrandNameOnTitlePage(pdf, brandName, pageWidth, pageHeight);
@@ -572,6 +585,12 @@ export const generatePDF = async ({ brandName, reportParts, phaseName }: PdfOpti
   }
 
   pdf.addPage();
+
+  // Dated the way the interview's locale writes dates
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  pdf.setTextColor(120, 120, 120);
+  pdf.text(format(strings.pdf.preparedFor, { brand: brandName, date: formatDate(new Date(), locale) }), margin, margin);
   pdf.setTextColor(0, 0, 0);
 
   reportParts.forEach((reportContent, index) => {
@@ -607,7 +626,7 @@ export const generatePDF = async ({ brandName, reportParts, phaseName }: PdfOpti
       pdf.setFont('helvetica', 'normal');
       pdf.setTextColor(120, 120, 120);
       
-      const pageNumber = `${i - 2} of ${pageCount - 2}`;
+      const pageNumber = format(strings.pdf.pageNumber, { page: i - 2, total: pageCount - 2 });
       pdf.text(pageNumber, margin, pageHeight - margin / 2 + 5, { align: 'left' });
       
       pdf.addImage(smallLogo, 'PNG', 
@@ -619,15 +638,8 @@ export const generatePDF = async ({ brandName, reportParts, phaseName }: PdfOpti
     }
   }
 
-  const sanitizedPhaseName = phaseName.toLowerCase()
-    .replace(/[^a-zA-Z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .substring(0, 50);
-    
-  const sanitizedBrandName = brandName.toLowerCase()
-    .replace(/[^a-zA-Z0-9\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .substring(0, 30);
+  const sanitizedPhaseName = toFileNamePart(phaseName, 50);
+  const sanitizedBrandName = toFileNamePart(brandName, 30);
   
   const fileName = `${sanitizedBrandName}-${sanitizedPhaseName}.pdf`;
   
@@ -0,0 +1,88 @@
+// src/services/compaction.ts
+
+import { DEFAULT_LOCALE, Locale } from '../i18n';
+import { Message, Reports } from '../types/interview';
+import type { CompletablePhase, ConversationSeed, SeedExchange } from './llm';
+import { getQuestionnaire } from './questionnaire';
+import type { Questionnaire } from './questionnaire/questionnaire';
+
+// Long answers are cut down; the phase reports already hold the detail that matters
+const MAX_ANSWER_LENGTH = 800;
+const MAX_QUESTION_LENGTH = 300;
+
+const truncate = (text: string, maxLength: number): string => {
+  const singleSpaced = text.replace(/\s+/g, ' ').trim();
+  return singleSpaced.length > maxLength ? `${singleSpaced.slice(0, maxLength - 1)}…` : singleSpaced;
+};
+
+// Chat-generated assistant messages (download cards) carry HTML rather than a question
+const isHtmlMessage = (content: string) => /<\w+[^>]*>/.test(content);
+
+const lastParagraph = (content: string): string => {
+  const paragraphs = content.split(/\n{2,}/).map(p => p.trim()).filter(Boolean);
+  return paragraphs[paragraphs.length - 1] || '';
+};
+
+/**
+ * Pair each of the user's answers in a phase with the question it responded to,
+ * taken from the closest preceding assistant message.
+ */
+const summarizeExchanges = (messages: Message[], phase: CompletablePhase, source: Questionnaire): SeedExchange[] => {
+  const exchanges: SeedExchange[] = [];
+  let lastQuestion = '';
+
+  for (const message of messages) {
+    if (message.role === 'assistant') {
+      if (!isHtmlMessage(message.content)) {
+        lastQuestion = lastParagraph(message.content);
+      }
+    } else if (message.phase === phase) {
+      // Prefer the question as written in the questionnaire over however it was phrased
+      const question = message.questionId ? source.getQuestionById(message.questionId)?.text : undefined;
+      exchanges.push({
+        question: truncate(question || lastQuestion, MAX_QUESTION_LENGTH),
+        answer: truncate(message.content, MAX_ANSWER_LENGTH)
+      });
+    }
+  }
+
+  return exchanges;
+};
+
+interface BuildSeedOptions {
+  brandName: string;
+  messages: Message[];
+  reports: Reports;
+  completedPhases: CompletablePhase[];
+  attributes: Record<string, string>;
+  lastAssistantMessage: string | null;
+  locale?: Locale;
+}
+
+/** Condense the interview so far into the context for a fresh conversation */
+export const buildConversationSeed = ({
+  brandName,
+  messages,
+  reports,
+  completedPhases,
+  attributes,
+  lastAssistantMessage,
+  locale = DEFAULT_LOCALE
+}: BuildSeedOptions): ConversationSeed => {
+  const source = getQuestionnaire(locale);
+  return {
+    brandName,
+    phases: completedPhases.map(phase => {
+      const reportType = source.getPhase(phase)?.reportTemplate;
+      return {
+        phase,
+        exchanges: summarizeExchanges(messages, phase, source),
+        report: (reportType && reports[reportType]) || null
+      };
+    }),
+    attributes,
+    lastAssistantMessage: lastAssistantMessage?.trim() || null,
+    // Left off for English so seeds read the same as before localization
+    ...(locale === DEFAULT_LOCALE ? {} : { locale })
+  };
+};
@@ -0,0 +1,24 @@
+// src/services/errors.ts
+
+// offline: the turn was never handed to the provider, so it can safely be sent again later
+export type ChatErrorType = 'network' | 'offline' | 'api' | 'validation' | 'timeout' | 'budget' | 'cancelled';
+
+interface ChatErrorDetails {
+  /** HTTP status of the failed request, when there was one */
+  status?: number;
+  /** Wait requested by the server's Retry-After header */
+  retryAfterMs?: number;
+}
+
+// Enhanced error types for better error handling
+export class ChatError extends Error {
+  public readonly status?: number;
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, public type: ChatErrorType = 'api', { status, retryAfterMs }: ChatErrorDetails = {}) {
+    super(message);
+    this.name = 'ChatError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
@@ -0,0 +1,346 @@
+// src/services/interviews/FirestoreInterviewRepository.ts
+
+import {
+  collection,
+  deleteField,
+  doc,
+  documentId,
+  getDoc,
+  getDocs,
+  increment,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  startAfter,
+  updateDoc,
+  writeBatch
+} from 'firebase/firestore';
+import type { DocumentData, DocumentReference, Firestore, Query, QuerySnapshot, UpdateData } from 'firebase/firestore';
+import { RetryableError, withRetry } from '../retry';
+import { bucketFor } from '../timings';
+import type { Interview, PhaseId } from '../../types/interview';
+import type { StructuredReport } from '../../types/report';
+import type { QuestionTiming, TimingStats } from '../../types/timing';
+import type { RunUsageRecord } from '../../types/usage';
+import type { ReportVersions } from '../reports/versions';
+import {
+  InterviewDataError,
+  interviewConverter,
+  messageConverter,
+  readInterview,
+  reportVersionConverter,
+  timingStatsConverter
+} from './converters';
+import { migrateInterview, needsMigration } from './migrations';
+import {
+  IndexedMessage,
+  IndexedReportVersion,
+  InterviewRepository,
+  LoadInterviewOptions,
+  MessagePage,
+  MessageProgress
+} from './types';
+
+const INTERVIEWS_COLLECTION = 'interviews';
+const MESSAGES_COLLECTION = 'messages';
+const RUNS_COLLECTION = 'runs';
+const REPORT_VERSIONS_COLLECTION = 'reportVersions';
+const TIMINGS_COLLECTION = 'questionTimings';
+
+// Firestore commits at most 500 writes per batch; one is kept for the interview itself
+const MESSAGES_PER_BATCH = 499;
+
+// Interviews checked per read when migrating the whole collection
+const MIGRATION_PAGE_SIZE = 100;
+
+export interface MigrationSummary {
+  checked: number;
+  /** Ids of the interviews that were behind the current schema version */
+  outdated: string[];
+}
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    chunks.push(items.slice(start, start + size));
+  }
+  return chunks;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+};
+
+/**
+ * The field paths a migration changed, for an update that leaves every other field
+ * as it is now rather than as it was read. Removed fields are deleted.
+ */
+const changedFields = (before: DocumentData, after: DocumentData, prefix = ''): UpdateData<DocumentData> => {
+  const fields: UpdateData<DocumentData> = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(key => {
+    const path = `${prefix}${key}`;
+    if (!(key in after)) {
+      fields[path] = deleteField();
+    } else if (isPlainObject(before[key]) && isPlainObject(after[key])) {
+      Object.assign(fields, changedFields(before[key], after[key], `${path}.`));
+    } else if (before[key] !== after[key]) {
+      fields[path] = after[key];
+    }
+  });
+  return fields;
+};
+
+/**
+ * Interviews as documents in the `interviews` collection, with nested fields
+ * updated by path so concurrent writers only touch what they changed. Each
+ * message is its own document in `interviews/{id}/messages`, each report
+ * version in `interviews/{id}/reportVersions` and each run's usage record in
+ * `interviews/{id}/runs`, so the interview document stays small however long
+ * the interview runs.
+ * Documents are upgraded to the current schema version (see migrations.ts) as they are read.
+ * Every call runs under the shared retry policy.
+ */
+export class FirestoreInterviewRepository implements InterviewRepository {
+  public readonly id = 'firestore';
+
+  constructor(private readonly db: Firestore) {}
+
+  private interviewRef(interviewId: string) {
+    return doc(this.db, INTERVIEWS_COLLECTION, interviewId).withConverter(interviewConverter);
+  }
+
+  private messagesRef(interviewId: string) {
+    return collection(this.db, INTERVIEWS_COLLECTION, interviewId, MESSAGES_COLLECTION).withConverter(messageConverter);
+  }
+
+  private reportVersionsRef(interviewId: string) {
+    return collection(this.db, INTERVIEWS_COLLECTION, interviewId, REPORT_VERSIONS_COLLECTION).withConverter(reportVersionConverter);
+  }
+
+  // Ids are the report type and the zero-padded position, so each report's versions are listed together and in order
+  private reportVersionRef(interviewId: string, { index, version }: IndexedReportVersion) {
+    return doc(this.reportVersionsRef(interviewId), `${version.report.type}-${String(index).padStart(4, '0')}`);
+  }
+
+  private runsRef(interviewId: string) {
+    return collection(this.db, INTERVIEWS_COLLECTION, interviewId, RUNS_COLLECTION);
+  }
+
+  // Ids are the zero-padded position, so the console lists messages in order too
+  private messageRef(interviewId: string, index: number) {
+    return doc(this.messagesRef(interviewId), String(index).padStart(6, '0'));
+  }
+
+  private async update(operation: string, interviewId: string, fields: UpdateData<Record<string, unknown>>): Promise<void> {
+    await withRetry(operation, () => updateDoc(this.interviewRef(interviewId), {
+      ...fields,
+      lastUpdated: new Date()
+    }));
+  }
+
+  public async create(interview: Interview): Promise<string> {
+    const interviewRef = doc(collection(this.db, INTERVIEWS_COLLECTION)).withConverter(interviewConverter);
+
+    await withRetry('Create interview', async () => {
+      await setDoc(interviewRef, interview);
+
+      // A read that has not caught up with the write yet is worth another attempt
+      const verifyDoc = await getDoc(interviewRef);
+      if (!verifyDoc.exists()) {
+        throw new RetryableError('Failed to create interview document');
+      }
+
+      // Reading it back also runs the converter's validation
+      const verifiedData = verifyDoc.data();
+      if (!verifiedData.contactInfo) {
+        throw new RetryableError('Interview document incomplete');
+      }
+
+      console.log('Interview document verified successfully:', verifiedData);
+    });
+
+    return interviewRef.id;
+  }
+
+  public async load(interviewId: string, { awaitCreation = false, onRetry }: LoadInterviewOptions = {}): Promise<Interview | null> {
+    // Read without the converter: an outdated document is migrated before it is validated
+    const interviewRef = doc(this.db, INTERVIEWS_COLLECTION, interviewId);
+    try {
+      const data = await withRetry('Load interview', async () => {
+        const snapshot = await getDoc(interviewRef);
+        if (snapshot.exists()) return snapshot.data();
+        if (awaitCreation) throw new RetryableError('Interview document not found');
+        return null;
+      }, { onRetry });
+      if (!data) return null;
+
+      return readInterview(needsMigration(data) ? await this.upgrade(interviewRef, data) : data, interviewRef.path);
+    } catch (error) {
+      if (awaitCreation && error instanceof RetryableError) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Run the document's missing migrations and store what they changed. Only those
+   * fields are written, so a save made since the document was read is kept.
+   */
+  private async upgrade(interviewRef: DocumentReference, data: DocumentData): Promise<DocumentData> {
+    const migrated = await migrateInterview(data, {
+      interviewId: interviewRef.id,
+      saveMessages: messages => this.writeMessages('Migrate messages', interviewRef.id, messages)
+    });
+    await withRetry('Save migrated interview', () => updateDoc(interviewRef, changedFields(data, migrated)));
+    return migrated;
+  }
+
+  /**
+   * Upgrade every interview that is behind the current schema version, reading the
+   * collection a page at a time. With dryRun, only report which ones are behind.
+   */
+  public async migrateAll({ dryRun = false }: { dryRun?: boolean } = {}): Promise<MigrationSummary> {
+    const summary: MigrationSummary = { checked: 0, outdated: [] };
+    let after: string | null = null;
+    do {
+      const page: Query = query(
+        collection(this.db, INTERVIEWS_COLLECTION),
+        orderBy(documentId()),
+        ...(after === null ? [] : [startAfter(after)]),
+        limit(MIGRATION_PAGE_SIZE)
+      );
+      const snapshot: QuerySnapshot = await withRetry('Load interviews', () => getDocs(page));
+      for (const entry of snapshot.docs) {
+        summary.checked++;
+        if (!needsMigration(entry.data())) continue;
+        summary.outdated.push(entry.id);
+        if (!dryRun) await this.upgrade(entry.ref, entry.data());
+      }
+      after = snapshot.size === MIGRATION_PAGE_SIZE ? snapshot.docs[snapshot.size - 1].id : null;
+    } while (after !== null);
+    return summary;
+  }
+
+  public async loadMessagePage(interviewId: string, after: number | null, pageSize: number): Promise<MessagePage> {
+    const page = query(this.messagesRef(interviewId), orderBy('index'), ...(after === null ? [] : [startAfter(after)]), limit(pageSize));
+    const snapshot = await withRetry('Load messages', () => getDocs(page));
+
+    const stored = snapshot.docs.map(entry => entry.data());
+    return {
+      messages: stored.map(({ message }) => message),
+      next: stored.length === pageSize ? stored[stored.length - 1].index : null
+    };
+  }
+
+  public async saveThreadId(interviewId: string, threadId: string): Promise<void> {
+    await this.update('Save thread id', interviewId, { threadId });
+  }
+
+  public async saveAttributes(interviewId: string, attributes: Record<string, string>): Promise<void> {
+    await this.update('Save attributes', interviewId, Object.fromEntries(
+      Object.entries(attributes).map(([id, value]) => [`attributes.${id}`, value])
+    ));
+  }
+
+  public async saveMessages(interviewId: string, messages: IndexedMessage[], progress: MessageProgress): Promise<void> {
+    await this.writeMessages('Save messages', interviewId, messages, progress);
+  }
+
+  /**
+   * Write messages in as few batches as possible. Sets rather than creates, so a
+   * retried batch or a repeated save writes the same documents again. Progress,
+   * when given, is committed with the last batch, together with the last messages it counts.
+   */
+  private async writeMessages(operation: string, interviewId: string, messages: IndexedMessage[], progress?: MessageProgress): Promise<void> {
+    const chunks = chunk(messages, MESSAGES_PER_BATCH);
+    for (const [chunkIndex, messageChunk] of chunks.entries()) {
+      await withRetry(operation, () => {
+        const batch = writeBatch(this.db);
+        messageChunk.forEach(entry => batch.set(this.messageRef(interviewId, entry.index), entry));
+        if (progress && chunkIndex === chunks.length - 1) {
+          batch.update(this.interviewRef(interviewId), { ...progress, lastUpdated: new Date() });
+        }
+        return batch.commit();
+      });
+    }
+  }
+
+  // The new versions and the report they make current are committed together
+  public async saveReport(interviewId: string, report: StructuredReport, versions: IndexedReportVersion[]): Promise<void> {
+    await withRetry('Save report', () => {
+      const batch = writeBatch(this.db);
+      versions.forEach(entry => batch.set(this.reportVersionRef(interviewId, entry), entry));
+      batch.update(this.interviewRef(interviewId), {
+        [`reports.${report.type}`]: versions[versions.length - 1].version.markdown,
+        [`structuredReports.${report.type}`]: report,
+        lastUpdated: new Date()
+      });
+      return batch.commit();
+    });
+  }
+
+  public async loadReportVersions(interviewId: string): Promise<ReportVersions> {
+    const snapshot = await withRetry('Load report versions', () => getDocs(query(this.reportVersionsRef(interviewId), orderBy('index'))));
+    const versions: ReportVersions = {};
+    snapshot.forEach(entry => {
+      const { version } = entry.data();
+      versions[version.report.type] = [...(versions[version.report.type] || []), version];
+    });
+    return versions;
+  }
+
+  public async transitionPhase(interviewId: string, phase: PhaseId): Promise<void> {
+    await this.update('Save phase', interviewId, { currentPhase: phase });
+  }
+
+  // Increments, so two open tabs recording at once never lose a run
+  public async recordUsage(interviewId: string, record: RunUsageRecord): Promise<void> {
+    const totalTokens = record.promptTokens + record.completionTokens;
+    const byPhase = `usage.byPhase.${record.phase}`;
+    // Chosen once, so a retried batch writes the same run document again
+    const runRef = doc(this.runsRef(interviewId));
+
+    await withRetry('Record usage', () => writeBatch(this.db).set(runRef, record).update(this.interviewRef(interviewId), {
+      'usage.promptTokens': increment(record.promptTokens),
+      'usage.completionTokens': increment(record.completionTokens),
+      'usage.totalTokens': increment(totalTokens),
+      'usage.estimatedCostUsd': increment(record.estimatedCostUsd),
+      'usage.runs': increment(1),
+      [`${byPhase}.promptTokens`]: increment(record.promptTokens),
+      [`${byPhase}.completionTokens`]: increment(record.completionTokens),
+      [`${byPhase}.totalTokens`]: increment(totalTokens),
+      [`${byPhase}.estimatedCostUsd`]: increment(record.estimatedCostUsd),
+      [`${byPhase}.runs`]: increment(1)
+    }).commit());
+  }
+
+  // Increments here too, so concurrent interviews never lose samples
+  public async recordQuestionTiming(timing: QuestionTiming): Promise<void> {
+    const sample = (seconds: number) => ({
+      count: increment(1),
+      totalSeconds: increment(seconds),
+      buckets: { [bucketFor(seconds)]: increment(1) }
+    });
+
+    await withRetry('Record question timing', () => setDoc(doc(this.db, TIMINGS_COLLECTION, timing.questionId), {
+      answer: sample(timing.answerSeconds),
+      reply: sample(timing.replySeconds),
+      updatedAt: new Date()
+    }, { merge: true }));
+  }
+
+  public async loadTimingStats(): Promise<TimingStats> {
+    const snapshot = await withRetry('Load question timings', () => getDocs(collection(this.db, TIMINGS_COLLECTION).withConverter(timingStatsConverter)));
+    const stats: TimingStats = {};
+    snapshot.forEach(entry => {
+      // One malformed document only costs its own question's estimate, which falls back to the phase's duration
+      try {
+        stats[entry.id] = entry.data();
+      } catch (error) {
+        if (!(error instanceof InterviewDataError)) throw error;
+        console.warn('Skipping malformed question timings:', error.errors);
+      }
+    });
+    return stats;
+  }
+}
@@ -0,0 +1,120 @@
+// src/services/interviews/InMemoryInterviewRepository.ts
+
+import { applyRunUsage } from '../usage';
+import { bucketFor } from '../timings';
+import type { Interview, Message, PhaseId } from '../../types/interview';
+import type { StructuredReport } from '../../types/report';
+import type { DurationHistogram, QuestionTiming, TimingStats } from '../../types/timing';
+import type { RunUsageRecord } from '../../types/usage';
+import type { ReportVersions } from '../reports/versions';
+import { IndexedMessage, IndexedReportVersion, InterviewRepository, MessagePage, MessageProgress } from './types';
+
+const addSample = (histogram: DurationHistogram | undefined, seconds: number): DurationHistogram => {
+  const bucket = bucketFor(seconds);
+  return {
+    count: (histogram?.count || 0) + 1,
+    totalSeconds: (histogram?.totalSeconds || 0) + seconds,
+    buckets: { ...histogram?.buckets, [bucket]: (histogram?.buckets[bucket] || 0) + 1 }
+  };
+};
+
+/**
+ * Interviews kept in memory for the lifetime of the page, for running the app
+ * without Firebase. Values are copied in and out, as they would be over the network,
+ * so callers can never change what is stored by mutating what they passed or got back.
+ */
+export class InMemoryInterviewRepository implements InterviewRepository {
+  public readonly id = 'memory';
+  private interviews = new Map<string, Interview>();
+  private messages = new Map<string, Message[]>();
+  private reportVersions = new Map<string, ReportVersions>();
+  private timings: TimingStats = {};
+
+  private update(interviewId: string, change: (interview: Interview) => Interview): void {
+    const interview = this.interviews.get(interviewId);
+    if (!interview) {
+      throw new Error(`Interview ${interviewId} not found`);
+    }
+    this.interviews.set(interviewId, { ...change(interview), lastUpdated: new Date() });
+  }
+
+  public async create(interview: Interview): Promise<string> {
+    const interviewId = `memory_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+    this.interviews.set(interviewId, structuredClone(interview));
+    this.messages.set(interviewId, []);
+    this.reportVersions.set(interviewId, {});
+    return interviewId;
+  }
+
+  // Writes are visible immediately, so there is never a creation to wait for
+  public async load(interviewId: string): Promise<Interview | null> {
+    const interview = this.interviews.get(interviewId);
+    return interview ? structuredClone(interview) : null;
+  }
+
+  public async loadMessagePage(interviewId: string, after: number | null, pageSize: number): Promise<MessagePage> {
+    const messages = this.messages.get(interviewId) || [];
+    const start = after === null ? 0 : after + 1;
+    const page = messages.slice(start, start + pageSize);
+    return {
+      messages: structuredClone(page),
+      next: page.length === pageSize ? start + pageSize - 1 : null
+    };
+  }
+
+  public async saveThreadId(interviewId: string, threadId: string): Promise<void> {
+    this.update(interviewId, interview => ({ ...interview, threadId }));
+  }
+
+  public async saveAttributes(interviewId: string, attributes: Record<string, string>): Promise<void> {
+    this.update(interviewId, interview => ({ ...interview, attributes: { ...interview.attributes, ...attributes } }));
+  }
+
+  public async saveMessages(interviewId: string, messages: IndexedMessage[], progress: MessageProgress): Promise<void> {
+    this.update(interviewId, interview => ({ ...interview, ...progress }));
+    const stored = this.messages.get(interviewId) || [];
+    messages.forEach(({ index, message }) => {
+      stored[index] = structuredClone(message);
+    });
+    this.messages.set(interviewId, stored);
+  }
+
+  public async saveReport(interviewId: string, report: StructuredReport, versions: IndexedReportVersion[]): Promise<void> {
+    this.update(interviewId, interview => ({
+      ...interview,
+      reports: { ...interview.reports, [report.type]: versions[versions.length - 1].version.markdown },
+      structuredReports: { ...interview.structuredReports, [report.type]: structuredClone(report) }
+    }));
+    const stored = this.reportVersions.get(interviewId) || {};
+    const reportVersions = [...(stored[report.type] || [])];
+    versions.forEach(({ index, version }) => {
+      reportVersions[index] = structuredClone(version);
+    });
+    this.reportVersions.set(interviewId, { ...stored, [report.type]: reportVersions });
+  }
+
+  public async loadReportVersions(interviewId: string): Promise<ReportVersions> {
+    return structuredClone(this.reportVersions.get(interviewId) || {});
+  }
+
+  public async transitionPhase(interviewId: string, phase: PhaseId): Promise<void> {
+    this.update(interviewId, interview => ({ ...interview, currentPhase: phase }));
+  }
+
+  public async recordUsage(interviewId: string, record: RunUsageRecord): Promise<void> {
+    this.update(interviewId, interview => ({ ...interview, usage: applyRunUsage(interview.usage, structuredClone(record)) }));
+  }
+
+  public async recordQuestionTiming(timing: QuestionTiming): Promise<void> {
+    const stats = this.timings[timing.questionId];
+    this.timings[timing.questionId] = {
+      answer: addSample(stats?.answer, timing.answerSeconds),
+      reply: addSample(stats?.reply, timing.replySeconds),
+      updatedAt: new Date()
+    };
+  }
+
+  public async loadTimingStats(): Promise<TimingStats> {
+    return structuredClone(this.timings);
+  }
+}
@@ -0,0 +1,235 @@
+// src/services/interviews/converters.ts
+// Firestore converters for interview documents and the timing statistics shared by all interviews. Reads are validated and every
+// Timestamp becomes a Date, so components never see Firestore types.
+
+import type { DocumentData, FirestoreDataConverter, QueryDocumentSnapshot, SnapshotOptions } from 'firebase/firestore';
+import type { Interview, Message, Reports } from '../../types/interview';
+import { ReportVersion, isReportType } from '../../types/report';
+import type { DurationHistogram, QuestionTimingStats } from '../../types/timing';
+import type { InterviewUsage } from '../../types/usage';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import type { IndexedMessage, IndexedReportVersion } from './types';
+
+/** Thrown when a stored document is missing required fields or holds values of the wrong type */
+export class InterviewDataError extends Error {
+  constructor(public path: string, public errors: string[]) {
+    super(`Malformed document ${path}:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    this.name = 'InterviewDataError';
+  }
+}
+
+const MESSAGE_ROLES = ['user', 'assistant'];
+const REPORT_FIELDS = ['discovery', 'messaging', 'audience', 'complete', 'combined'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+const isCount = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+};
+
+/**
+ * Firestore Timestamps, Dates, and the ISO strings and epoch milliseconds of
+ * hand-edited documents; null, with an error recorded, for anything else.
+ */
+const readDate = (value: unknown, field: string, errors: string[]): Date | null => {
+  if (isObject(value) && typeof value.toDate === 'function') {
+    return (value as unknown as FirebaseFirestore.Timestamp).toDate();
+  }
+  const date = value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    errors.push(`${field} must be a date`);
+    return null;
+  }
+  return date;
+};
+
+/** Markdown per report type; any other field is dropped */
+export const readReports = (value: unknown, field: string, errors: string[]): Reports => {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    errors.push(`${field} must be an object`);
+    return {};
+  }
+  const reports: Reports = {};
+  Object.entries(value).forEach(([type, markdown]) => {
+    if (!REPORT_FIELDS.includes(type)) return;
+    if (typeof markdown !== 'string') {
+      errors.push(`${field}.${type} must be a string`);
+      return;
+    }
+    reports[type as keyof Reports] = markdown;
+  });
+  return reports;
+};
+
+const readUsage = (value: unknown, field: string, errors: string[]): InterviewUsage | undefined => {
+  if (!isObject(value)) {
+    errors.push(`${field} must be an object`);
+    return undefined;
+  }
+  return value as unknown as InterviewUsage;
+};
+
+/**
+ * Validate an interview document that is already on the current schema version
+ * (see migrations.ts). A missing threadId, reports or lastUpdated is filled in.
+ */
+export const readInterview = (data: DocumentData, path: string): Interview => {
+  const errors: string[] = [];
+
+  if (data.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+    errors.push(`schemaVersion must be ${CURRENT_SCHEMA_VERSION}, the version this app reads`);
+  }
+  if (!isNonEmptyString(data.brandName)) errors.push('brandName must be a non-empty string');
+  if (!isNonEmptyString(data.currentPhase)) errors.push('currentPhase must be a non-empty string');
+  if (data.threadId !== undefined && data.threadId !== null && typeof data.threadId !== 'string') {
+    errors.push('threadId must be a string or null');
+  }
+  if (!isCount(data.questionCount)) errors.push('questionCount must be a whole number');
+  if (!isCount(data.actualQuestionIndex)) errors.push('actualQuestionIndex must be a whole number');
+  if (data.attributes !== undefined && !isObject(data.attributes)) errors.push('attributes must be an object');
+  if (data.structuredReports !== undefined && !isObject(data.structuredReports)) errors.push('structuredReports must be an object');
+
+  const createdAt = readDate(data.createdAt, 'createdAt', errors);
+  const lastUpdated = data.lastUpdated === undefined ? createdAt : readDate(data.lastUpdated, 'lastUpdated', errors);
+  const reports = readReports(data.reports, 'reports', errors);
+  const usage = data.usage === undefined ? undefined : readUsage(data.usage, 'usage', errors);
+
+  if (errors.length > 0 || !createdAt || !lastUpdated) {
+    throw new InterviewDataError(path, errors);
+  }
+
+  return {
+    ...data,
+    schemaVersion: data.schemaVersion,
+    brandName: data.brandName,
+    threadId: data.threadId ?? null,
+    currentPhase: data.currentPhase,
+    questionCount: data.questionCount,
+    actualQuestionIndex: data.actualQuestionIndex,
+    createdAt,
+    lastUpdated,
+    reports,
+    ...(usage ? { usage } : {})
+  };
+};
+
+/** Validate a message document; the position it is stored at comes back as its index */
+export const readMessage = (data: DocumentData, path: string): IndexedMessage => {
+  const errors: string[] = [];
+
+  if (!isCount(data.index)) errors.push('index must be a whole number');
+  if (!MESSAGE_ROLES.includes(data.role)) errors.push(`role must be one of ${MESSAGE_ROLES.join(', ')}`);
+  if (typeof data.content !== 'string') errors.push('content must be a string');
+  if (!isNonEmptyString(data.phase)) errors.push('phase must be a non-empty string');
+
+  const timestamp = readDate(data.timestamp, 'timestamp', errors);
+  const revisedAt = data.revisedAt === undefined ? undefined : readDate(data.revisedAt, 'revisedAt', errors);
+
+  if (errors.length > 0 || !timestamp) {
+    throw new InterviewDataError(path, errors);
+  }
+
+  const { index, ...message } = data;
+  return {
+    index,
+    message: {
+      ...message,
+      timestamp,
+      ...(revisedAt ? { revisedAt } : {})
+    } as Message
+  };
+};
+
+/** Validate a report version document; the position it is stored at comes back as its index */
+export const readReportVersion = (data: DocumentData, path: string): IndexedReportVersion => {
+  const errors: string[] = [];
+
+  if (!isCount(data.index)) errors.push('index must be a whole number');
+  if (!isObject(data.report) || !isReportType(data.report.type)) errors.push('report must be a report with a known type');
+  if (typeof data.markdown !== 'string') errors.push('markdown must be a string');
+  if (data.revision !== undefined && !isObject(data.revision)) errors.push('revision must be an object');
+
+  const createdAt = readDate(data.createdAt, 'createdAt', errors);
+
+  if (errors.length > 0 || !createdAt) {
+    throw new InterviewDataError(path, errors);
+  }
+
+  const { index, ...version } = data;
+  return {
+    index,
+    version: { ...version, createdAt } as ReportVersion
+  };
+};
+
+const readHistogram = (value: unknown, field: string, errors: string[]): DurationHistogram | undefined => {
+  if (!isObject(value)) {
+    errors.push(`${field} must be an object`);
+    return undefined;
+  }
+  if (!isCount(value.count)) errors.push(`${field}.count must be a whole number`);
+  if (typeof value.totalSeconds !== 'number' || value.totalSeconds < 0) errors.push(`${field}.totalSeconds must be a non-negative number`);
+  if (!isObject(value.buckets)) {
+    errors.push(`${field}.buckets must be an object`);
+    return undefined;
+  }
+  Object.entries(value.buckets).forEach(([bucket, count]) => {
+    if (!isCount(count)) errors.push(`${field}.buckets.${bucket} must be a whole number`);
+  });
+  return value as unknown as DurationHistogram;
+};
+
+/** Validate a questionTimings document; either histogram may be missing until its first sample */
+export const readTimingStats = (data: DocumentData, path: string): QuestionTimingStats => {
+  const errors: string[] = [];
+
+  const answer = data.answer === undefined ? undefined : readHistogram(data.answer, 'answer', errors);
+  const reply = data.reply === undefined ? undefined : readHistogram(data.reply, 'reply', errors);
+  const updatedAt = data.updatedAt === undefined ? undefined : readDate(data.updatedAt, 'updatedAt', errors);
+
+  if (errors.length > 0) {
+    throw new InterviewDataError(path, errors);
+  }
+
+  return {
+    ...(answer ? { answer } : {}),
+    ...(reply ? { reply } : {}),
+    ...(updatedAt ? { updatedAt } : {})
+  };
+};
+
+export const interviewConverter: FirestoreDataConverter<Interview> = {
+  // Dates are stored as Timestamps by Firestore itself
+  toFirestore: (interview: Interview): DocumentData => interview,
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): Interview => {
+    return readInterview(snapshot.data(options), snapshot.ref.path);
+  }
+};
+
+export const messageConverter: FirestoreDataConverter<IndexedMessage> = {
+  toFirestore: ({ index, message }: IndexedMessage): DocumentData => ({ ...message, index }),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): IndexedMessage => {
+    return readMessage(snapshot.data(options), snapshot.ref.path);
+  }
+};
+
+export const reportVersionConverter: FirestoreDataConverter<IndexedReportVersion> = {
+  toFirestore: ({ index, version }: IndexedReportVersion): DocumentData => ({ ...version, index }),
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): IndexedReportVersion => {
+    return readReportVersion(snapshot.data(options), snapshot.ref.path);
+  }
+};
+
+export const timingStatsConverter: FirestoreDataConverter<QuestionTimingStats> = {
+  toFirestore: (stats: QuestionTimingStats): DocumentData => stats,
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions): QuestionTimingStats => {
+    return readTimingStats(snapshot.data(options), snapshot.ref.path);
+  }
+};
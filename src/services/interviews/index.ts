@@ -0,0 +1,34 @@
+// src/services/interviews/index.ts
+
+import { config } from '../../config/environment';
+import { getDb } from '../../firebase';
+import { FirestoreInterviewRepository } from './FirestoreInterviewRepository';
+import { InMemoryInterviewRepository } from './InMemoryInterviewRepository';
+import { InterviewRepository } from './types';
+
+export type {
+  IndexedMessage,
+  IndexedReportVersion,
+  InterviewRepository,
+  InterviewRepositoryId,
+  LoadInterviewOptions,
+  MessagePage,
+  MessageProgress
+} from './types';
+export { changedMessages, loadMessages } from './messages';
+export { InterviewDataError } from './converters';
+export { CURRENT_SCHEMA_VERSION } from './migrations';
+
+let repository: InterviewRepository | null = null;
+
+/**
+ * Shared repository instance, chosen by VITE_STORAGE_BACKEND ('firestore' by default).
+ */
+export const getInterviewRepository = (): InterviewRepository => {
+  if (!repository) {
+    repository = config.storage.backend === 'memory'
+      ? new InMemoryInterviewRepository()
+      : new FirestoreInterviewRepository(getDb());
+  }
+  return repository;
+};
@@ -0,0 +1,27 @@
+// src/services/interviews/messages.ts
+
+import { APP_CONFIG } from '../../types/constants';
+import type { Message } from '../../types/interview';
+import type { IndexedMessage, InterviewRepository } from './types';
+
+/** The whole transcript, read a page at a time so no single read grows with the interview */
+export const loadMessages = async (repository: InterviewRepository, interviewId: string): Promise<Message[]> => {
+  const messages: Message[] = [];
+  let after: number | null = null;
+  do {
+    const page = await repository.loadMessagePage(interviewId, after, APP_CONFIG.MESSAGE_PAGE_SIZE);
+    messages.push(...page.messages);
+    after = page.next;
+  } while (after !== null);
+  return messages;
+};
+
+/**
+ * Messages in `current` that differ from what was last stored. Messages are
+ * replaced rather than mutated when they change, so comparing references is enough.
+ */
+export const changedMessages = (stored: Message[], current: Message[]): IndexedMessage[] => {
+  return current
+    .map((message, index) => ({ index, message }))
+    .filter(({ index, message }) => stored[index] !== message);
+};
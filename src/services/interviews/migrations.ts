@@ -0,0 +1,78 @@
+// src/services/interviews/migrations.ts
+// Every interview document records its schemaVersion. Each migration upgrades a document
+// by one version; the Firestore repository runs the missing ones when an interview is
+// loaded, and `npm run migrate:interviews` runs them over the whole collection.
+
+import type { DocumentData } from 'firebase/firestore';
+import type { IndexedMessage } from './types';
+
+export interface MigrationContext {
+  interviewId: string;
+  /** Write messages to the interview's messages subcollection */
+  saveMessages: (messages: IndexedMessage[]) => Promise<void>;
+}
+
+export interface InterviewMigration {
+  /** The schemaVersion a document has once this migration has run */
+  version: number;
+  description: string;
+  /**
+   * Upgrade a document from the previous version. Returns the new data rather
+   * than changing `data`, and must be safe to run again if the upgrade is interrupted.
+   */
+  migrate: (data: DocumentData, context: MigrationContext) => Promise<DocumentData>;
+}
+
+// Append new migrations at the end; never change one that has shipped
+export const INTERVIEW_MIGRATIONS: readonly InterviewMigration[] = [
+  {
+    version: 1,
+    description: 'Record question progress on every interview',
+    migrate: async data => {
+      const questionCount = typeof data.questionCount === 'number' ? data.questionCount : 0;
+      return {
+        ...data,
+        questionCount,
+        // Chat.tsx works the index out from the messages again on load; this is only its stored copy
+        actualQuestionIndex: typeof data.actualQuestionIndex === 'number' ? data.actualQuestionIndex : questionCount
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Move messages from the interview document to the interviews/{id}/messages subcollection',
+    migrate: async (data, { saveMessages }) => {
+      if (!Array.isArray(data.messages)) return data;
+      // The array is only dropped once every message is copied; copies land on the same documents each time
+      await saveMessages(data.messages.map((message, index) => ({ index, message })));
+      const migrated = { ...data };
+      delete migrated.messages;
+      return migrated;
+    }
+  }
+];
+
+INTERVIEW_MIGRATIONS.forEach((migration, i) => {
+  if (migration.version !== i + 1) {
+    throw new Error(`Interview migration "${migration.description}" must be version ${i + 1}`);
+  }
+});
+
+export const CURRENT_SCHEMA_VERSION = INTERVIEW_MIGRATIONS.length;
+
+/** Documents saved before schemaVersion existed count as version 0 */
+export const schemaVersionOf = (data: DocumentData): number => {
+  return typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+};
+
+export const needsMigration = (data: DocumentData): boolean => schemaVersionOf(data) < CURRENT_SCHEMA_VERSION;
+
+/** Run every migration the document has not had yet, in order, and stamp the new schemaVersion */
+export const migrateInterview = async (data: DocumentData, context: MigrationContext): Promise<DocumentData> => {
+  let migrated = data;
+  for (const migration of INTERVIEW_MIGRATIONS.filter(candidate => candidate.version > schemaVersionOf(data))) {
+    console.log(`Migrating interview ${context.interviewId} to schema version ${migration.version}: ${migration.description}`);
+    migrated = { ...(await migration.migrate(migrated, context)), schemaVersion: migration.version };
+  }
+  return migrated;
+};
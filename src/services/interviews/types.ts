@@ -0,0 +1,90 @@
+// src/services/interviews/types.ts
+
+import type { Interview, Message, PhaseId } from '../../types/interview';
+import type { ReportVersion, StructuredReport } from '../../types/report';
+import type { QuestionTiming, TimingStats } from '../../types/timing';
+import type { RunUsageRecord } from '../../types/usage';
+import type { ReportVersions } from '../reports/versions';
+import type { RetryEvent } from '../retry';
+
+export type InterviewRepositoryId = 'firestore' | 'memory';
+
+/** Question progress stored next to the messages it was derived from */
+export type MessageProgress = Pick<Interview, 'questionCount' | 'actualQuestionIndex'>;
+
+/** A message and its position in the transcript */
+export interface IndexedMessage {
+  index: number;
+  message: Message;
+}
+
+/** A report version and its position among the versions of its report */
+export interface IndexedReportVersion {
+  index: number;
+  version: ReportVersion;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  /** Pass as `after` to load the next page; null once the last page is loaded */
+  next: number | null;
+}
+
+export interface LoadInterviewOptions {
+  /** Keep retrying while the interview is missing, e.g. right after it was created */
+  awaitCreation?: boolean;
+  /** Called before each retry, e.g. to show that the app is reconnecting */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * Everything the app reads and writes about an interview. Components talk
+ * only to this, never to Firestore, so the app runs on either implementation.
+ * Every write also bumps the interview's lastUpdated.
+ */
+export interface InterviewRepository {
+  readonly id: InterviewRepositoryId;
+
+  /** Store a new interview and return its id */
+  create(interview: Interview): Promise<string>;
+
+  /**
+   * The interview, or null when there is none with this id. Interviews that
+   * still hold their messages in one array are migrated to the messages subcollection first.
+   */
+  load(interviewId: string, options?: LoadInterviewOptions): Promise<Interview | null>;
+
+  /** Up to `pageSize` messages in transcript order, starting after position `after` (from the start when null) */
+  loadMessagePage(interviewId: string, after: number | null, pageSize: number): Promise<MessagePage>;
+
+  saveThreadId(interviewId: string, threadId: string): Promise<void>;
+
+  /** Merge newly recorded attributes into the ones already stored */
+  saveAttributes(interviewId: string, attributes: Record<string, string>): Promise<void>;
+
+  /**
+   * Store messages at their positions: new ones are appended, and earlier
+   * answers that were settled or revised replace what was stored. Only the
+   * messages passed are written; messages are never removed once stored.
+   */
+  saveMessages(interviewId: string, messages: IndexedMessage[], progress: MessageProgress): Promise<void>;
+
+  /**
+   * Store new versions of one report at their positions. The report itself, the
+   * last version, becomes the one shown and downloaded.
+   */
+  saveReport(interviewId: string, report: StructuredReport, versions: IndexedReportVersion[]): Promise<void>;
+
+  /** Every stored version of each report, oldest first */
+  loadReportVersions(interviewId: string): Promise<ReportVersions>;
+
+  transitionPhase(interviewId: string, phase: PhaseId): Promise<void>;
+
+  /** Add one run to the interview's usage totals, overall and per phase, and keep the run's own record */
+  recordUsage(interviewId: string, record: RunUsageRecord): Promise<void>;
+
+  /** Add one question's timing to the statistics shared by all interviews */
+  recordQuestionTiming(timing: QuestionTiming): Promise<void>;
+
+  loadTimingStats(): Promise<TimingStats>;
+}
@@ -0,0 +1,260 @@
+// src/services/llm/AssistantsProvider.ts
+
+import OpenAI from 'openai';
+import type { AssistantStream } from 'openai/lib/AssistantStream';
+import type { Message as ThreadMessage } from 'openai/resources/beta/threads/messages';
+import { APP_CONFIG } from '../../types/constants';
+import { ChatError } from '../errors';
+import { classifyRejectedOnly, withRetry } from '../retry';
+import { ConversationSeed, renderConversationSeed } from './seed';
+import { INTERVIEW_TOOLS, InterviewToolCall, parseToolCall } from './tools';
+import { AssistantTurn, AwaitTurnOptions, LLMProvider, TurnUsage } from './types';
+
+interface AssistantsProviderOptions {
+  apiKey: string;
+  assistantId: string;
+  /** Upper bound for a single run before it is treated as timed out */
+  maxWaitMs?: number;
+}
+
+// How long a run may go without producing output before onLongRunning fires
+const LONG_RUNNING_THRESHOLD_MS = 15000;
+
+const messageText = (message: ThreadMessage): string => {
+  return message.content
+    .map(part => (part.type === 'text' ? part.text.value : ''))
+    .filter(Boolean)
+    .join('\n\n');
+};
+
+/**
+ * LLMProvider backed by the OpenAI Assistants API.
+ * Conversations map to threads and turns map to streamed runs; tool calls are
+ * validated here and answered through the run's requires_action state.
+ * Holds the OpenAI key, so it only runs inside the API server (see server/).
+ */
+export class AssistantsProvider implements LLMProvider {
+  public readonly id = 'assistants' as const;
+  private readonly openai: OpenAI;
+  private readonly assistantId: string;
+  private readonly maxWaitMs: number;
+  private readonly streams = new Map<string, AssistantStream>();
+  // User message that started each run, so a cancelled turn can be removed from the thread
+  private readonly userMessageIds = new Map<string, string>();
+
+  constructor({ apiKey, assistantId, maxWaitMs = APP_CONFIG.OPENAI_MAX_WAIT_TIME }: AssistantsProviderOptions) {
+    // Retries go through services/retry.ts so they follow APP_CONFIG and show up in telemetry
+    this.openai = new OpenAI({ apiKey, maxRetries: 0 });
+    this.assistantId = assistantId;
+    this.maxWaitMs = maxWaitMs;
+  }
+
+  public async createConversation(_interviewId: string, seed?: ConversationSeed): Promise<string> {
+    const thread = await withRetry('Create thread', () => this.openai.beta.threads.create(seed ? {
+      messages: [
+        { role: 'user', content: renderConversationSeed(seed) },
+        ...(seed.lastAssistantMessage ? [{ role: 'assistant' as const, content: seed.lastAssistantMessage }] : [])
+      ]
+    } : {}));
+    return thread.id;
+  }
+
+  public async sendUserTurn(threadId: string, content: string): Promise<string> {
+    // Neither call is safe to repeat after an ambiguous failure: it could duplicate the message or the run
+    const userMessage = await withRetry('Add message', () => this.openai.beta.threads.messages.create(threadId, {
+      role: 'user',
+      content
+    }), { classify: classifyRejectedOnly });
+
+    const { runId, stream } = await withRetry('Start run', () => this.startRun(threadId), { classify: classifyRejectedOnly });
+
+    this.streams.set(runId, stream);
+    this.userMessageIds.set(runId, userMessage.id);
+    return runId;
+  }
+
+  public async awaitAssistantTurn(threadId: string, runId: string, { onDelta, onLongRunning }: AwaitTurnOptions = {}): Promise<AssistantTurn> {
+    let stream = this.streams.get(runId);
+    if (!stream) {
+      throw new ChatError(`No active stream for run ${runId} on thread ${threadId}`, 'api');
+    }
+
+    // A run that calls tools spans several streams; text from finished ones is kept here
+    const segments: string[] = [];
+    const toolCalls: InterviewToolCall[] = [];
+    let usage: TurnUsage | null = null;
+    const emitDelta = (current: string) => onDelta?.([...segments, current].filter(Boolean).join('\n\n'));
+
+    let lastOutputAt = Date.now();
+    const longRunningTimer = setInterval(() => {
+      if (Date.now() - lastOutputAt > LONG_RUNNING_THRESHOLD_MS) {
+        onLongRunning?.();
+        lastOutputAt = Date.now();
+      }
+    }, 5000);
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      stream?.abort();
+    }, this.maxWaitMs);
+
+    try {
+      for (;;) {
+        // Catch up on any text that streamed in before we started listening
+        const snapshot = stream.currentMessageSnapshot();
+        if (snapshot) {
+          emitDelta(messageText(snapshot));
+        }
+        stream.on('textDelta', (_delta, text) => {
+          lastOutputAt = Date.now();
+          emitDelta(text.value);
+        });
+
+        const run = await stream.finalRun();
+        (await stream.finalMessages())
+          .filter(message => message.role === 'assistant')
+          .map(messageText)
+          .filter(Boolean)
+          .forEach(text => segments.push(text));
+
+        if (run.status === 'requires_action' && run.required_action?.type === 'submit_tool_outputs') {
+          lastOutputAt = Date.now();
+          const toolOutputs = run.required_action.submit_tool_outputs.tool_calls.map(call => {
+            const result = parseToolCall(call.function.name, call.function.arguments);
+            if (result.ok) {
+              toolCalls.push(result.call);
+            } else {
+              console.warn(`Tool call ${call.function.name} rejected:`, result.error);
+            }
+            return {
+              tool_call_id: call.id,
+              output: JSON.stringify(result.ok ? { status: 'accepted' } : { status: 'rejected', error: result.error })
+            };
+          });
+
+          stream = this.openai.beta.threads.runs.submitToolOutputsStream(threadId, runId, {
+            tool_outputs: toolOutputs
+          });
+          continue;
+        }
+
+        if (run.status === 'cancelled') {
+          throw new ChatError('Run cancelled', 'cancelled');
+        }
+        if (run.status !== 'completed') {
+          console.error('Run failed:', run.last_error);
+          throw new ChatError(`Run ${run.status}: ${run.last_error?.message || 'Unknown error'}`, 'api');
+        }
+        // Usage is only reported once the run has finished, and covers every step of it
+        usage = run.usage
+          ? { model: run.model, promptTokens: run.usage.prompt_tokens, completionTokens: run.usage.completion_tokens }
+          : null;
+        break;
+      }
+
+      const content = segments.join('\n\n');
+      if (!content && toolCalls.length === 0) {
+        throw new ChatError('Assistant did not return a reply', 'api');
+      }
+
+      return { content, toolCalls, usage };
+    } catch (error) {
+      if (error instanceof ChatError) throw error;
+      if (timedOut) {
+        throw new ChatError('Request timed out after extended wait', 'timeout');
+      }
+      console.error('Run stream failed:', error);
+      throw new ChatError(`Run stream failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'network');
+    } finally {
+      clearInterval(longRunningTimer);
+      clearTimeout(timeout);
+      this.streams.delete(runId);
+      this.userMessageIds.delete(runId);
+    }
+  }
+
+  public async cancelTurn(threadId: string, runId: string): Promise<void> {
+    // A turn that already finished is part of the conversation and is left alone
+    if (!this.streams.has(runId)) return;
+    const userMessageId = this.userMessageIds.get(runId);
+
+    try {
+      await this.cancelRun(threadId, runId);
+
+      // Drop the partial reply and the user message so the thread reads as if the turn never happened
+      const replies = await withRetry('List run messages', () => this.openai.beta.threads.messages.list(threadId, { run_id: runId }));
+      const messageIds = replies.data.map(message => message.id);
+      if (userMessageId) messageIds.push(userMessageId);
+
+      for (const messageId of messageIds) {
+        await withRetry('Delete message', () => this.openai.beta.threads.messages.del(threadId, messageId));
+      }
+    } catch (error) {
+      console.error('Error cancelling turn:', error);
+      throw new ChatError('Failed to cancel the active run', 'api');
+    }
+  }
+
+  public async cancel(threadId: string): Promise<void> {
+    try {
+      const runs = await withRetry('List runs', () => this.openai.beta.threads.runs.list(threadId));
+      const activeRuns = runs.data.filter(run =>
+        ['in_progress', 'queued', 'requires_action', 'cancelling'].includes(run.status)
+      );
+
+      for (const run of activeRuns) {
+        await this.cancelRun(threadId, run.id);
+      }
+
+      if (activeRuns.length > 0) {
+        await new Promise(resolve => setTimeout(resolve, 3000));
+      }
+    } catch (error) {
+      console.error('Error managing active runs:', error);
+      throw new ChatError('Failed to manage active runs', 'api');
+    }
+  }
+
+  private async startRun(threadId: string): Promise<{ runId: string; stream: AssistantStream }> {
+    const stream = this.openai.beta.threads.runs.stream(threadId, {
+      assistant_id: this.assistantId,
+      tools: INTERVIEW_TOOLS
+    });
+
+    // The run id arrives with the first event; keep the stream so the reply can be awaited later
+    const runId = await new Promise<string>((resolve, reject) => {
+      stream.on('event', event => {
+        if (event.event === 'thread.run.created') resolve(event.data.id);
+      });
+      stream.on('error', reject);
+      stream.on('end', () => reject(new ChatError('Run stream ended before the run was created', 'api')));
+    });
+
+    return { runId, stream };
+  }
+
+  private async checkRunStatus(threadId: string, runId: string) {
+    try {
+      const runStatus = await withRetry('Check run status', () => this.openai.beta.threads.runs.retrieve(threadId, runId));
+      return runStatus.status;
+    } catch (error) {
+      console.error('Error checking run status:', error);
+      return 'failed';
+    }
+  }
+
+  private async cancelRun(threadId: string, runId: string) {
+    try {
+      await withRetry('Cancel run', () => this.openai.beta.threads.runs.cancel(threadId, runId));
+
+      let status;
+      do {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        status = await this.checkRunStatus(threadId, runId);
+      } while (status === 'cancelling');
+
+    } catch {
+      // The run had already completed or been cancelled
+    }
+  }
+}
@@ -0,0 +1,218 @@
+// src/services/llm/ProxyProvider.ts
+
+import { APP_CONFIG } from '../../types/constants';
+import { ChatError, ChatErrorType } from '../errors';
+import { classifyRejectedOnly, parseRetryAfter, withRetry } from '../retry';
+import type {
+  CreateConversationRequest,
+  CreateConversationResponse,
+  ErrorResponse,
+  RunStatusResponse,
+  SendMessageResponse
+} from './proxyApi';
+import type { ConversationSeed } from './seed';
+import { AssistantTurn, AwaitTurnOptions, LLMProvider } from './types';
+
+interface ProxyProviderOptions {
+  /** Origin of the API server; empty for same-origin (the Vite dev proxy) */
+  baseUrl: string;
+  pollIntervalMs?: number;
+  maxWaitMs?: number;
+  /** Where each interview's session token is kept; localStorage, so it outlives the tab */
+  tokenStorage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+}
+
+// How long a run may go without producing output before onLongRunning fires
+const LONG_RUNNING_THRESHOLD_MS = 15000;
+
+const tokenKey = (interviewId: string) => `interview_${interviewId}_session`;
+const conversationPath = (interviewId: string) => `/api/interviews/${encodeURIComponent(interviewId)}/conversation`;
+
+// 402 is how the server refuses a run once the interview's token budget is used up
+const errorTypeForStatus = (status: number): ChatErrorType => {
+  if (status === 400) return 'validation';
+  if (status === 402) return 'budget';
+  return 'api';
+};
+
+/**
+ * LLMProvider that talks to our API server (server/) instead of OpenAI.
+ * The server owns threads and runs; conversations are keyed by interview id.
+ * The first call for an interview claims it, and the session token the server
+ * returns is sent with every later call for that interview.
+ */
+export class ProxyProvider implements LLMProvider {
+  public readonly id = 'proxy' as const;
+  private readonly baseUrl: string;
+  private readonly pollIntervalMs: number;
+  private readonly maxWaitMs: number;
+  private readonly tokenStorage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+  private readonly pendingClaims = new Map<string, Promise<string>>();
+
+  constructor({ baseUrl, pollIntervalMs = 500, maxWaitMs = APP_CONFIG.OPENAI_MAX_WAIT_TIME, tokenStorage = localStorage }: ProxyProviderOptions) {
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+    this.pollIntervalMs = pollIntervalMs;
+    this.maxWaitMs = maxWaitMs;
+    this.tokenStorage = tokenStorage;
+  }
+
+  public async createConversation(interviewId: string, seed?: ConversationSeed): Promise<string> {
+    // Claiming the interview creates its conversation too
+    if (!seed && !this.tokenStorage.getItem(tokenKey(interviewId))) {
+      return this.claim(interviewId);
+    }
+
+    const body: CreateConversationRequest = seed ? { seed } : {};
+    // Without a seed the call only returns the existing thread, so repeating it is harmless
+    const { conversationId } = await this.request<CreateConversationResponse>(
+      'POST',
+      interviewId,
+      conversationPath(interviewId),
+      body,
+      { idempotent: !seed }
+    );
+    return conversationId;
+  }
+
+  public async sendUserTurn(interviewId: string, content: string): Promise<string> {
+    const { runId } = await this.request<SendMessageResponse>(
+      'POST',
+      interviewId,
+      `/api/interviews/${encodeURIComponent(interviewId)}/messages`,
+      { content },
+      { idempotent: false }
+    );
+    return runId;
+  }
+
+  public async awaitAssistantTurn(interviewId: string, runId: string, { onDelta, onLongRunning }: AwaitTurnOptions = {}): Promise<AssistantTurn> {
+    const startedAt = Date.now();
+    let lastOutputAt = startedAt;
+    let lastContent = '';
+
+    while (Date.now() - startedAt < this.maxWaitMs) {
+      const run = await this.request<RunStatusResponse>(
+        'GET',
+        interviewId,
+        `/api/interviews/${encodeURIComponent(interviewId)}/runs/${encodeURIComponent(runId)}`
+      );
+
+      if (run.content !== lastContent) {
+        lastContent = run.content;
+        lastOutputAt = Date.now();
+        onDelta?.(run.content);
+      }
+
+      if (run.status === 'completed') {
+        return { content: run.content, toolCalls: run.toolCalls, usage: run.usage };
+      }
+      if (run.status === 'cancelled') {
+        throw new ChatError('Run cancelled', 'cancelled');
+      }
+      if (run.status === 'failed') {
+        throw new ChatError(`Run failed: ${run.error || 'Unknown error'}`, 'api');
+      }
+
+      if (Date.now() - lastOutputAt > LONG_RUNNING_THRESHOLD_MS) {
+        onLongRunning?.();
+        lastOutputAt = Date.now();
+      }
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+    }
+
+    throw new ChatError('Request timed out after extended wait', 'timeout');
+  }
+
+  public async cancel(interviewId: string): Promise<void> {
+    await this.request<void>('POST', interviewId, `/api/interviews/${encodeURIComponent(interviewId)}/cancel`);
+  }
+
+  public async cancelTurn(interviewId: string, runId: string): Promise<void> {
+    await this.request<void>(
+      'POST',
+      interviewId,
+      `/api/interviews/${encodeURIComponent(interviewId)}/runs/${encodeURIComponent(runId)}/cancel`
+    );
+  }
+
+  /**
+   * Claim the interview for this browser and keep its session token. Claims made
+   * together, e.g. by an effect that runs twice, share one request: only one can succeed.
+   */
+  private claim(interviewId: string): Promise<string> {
+    const pending = this.pendingClaims.get(interviewId);
+    if (pending) return pending;
+
+    const path = conversationPath(interviewId);
+    // A repeated claim would be refused, so it is only retried when the server turned it away
+    const claim = withRetry('POST /api/interviews/:id/conversation', () => this.send<CreateConversationResponse>('POST', path, {}, null), {
+      classify: classifyRejectedOnly
+    })
+      .then(({ conversationId, sessionToken }) => {
+        if (sessionToken) {
+          this.tokenStorage.setItem(tokenKey(interviewId), sessionToken);
+        }
+        return conversationId;
+      })
+      .finally(() => this.pendingClaims.delete(interviewId));
+    this.pendingClaims.set(interviewId, claim);
+    return claim;
+  }
+
+  /**
+   * Call the API server under the shared retry policy. Requests that are not
+   * idempotent are only repeated when the server turned them away (429/503).
+   */
+  private async request<T>(method: 'GET' | 'POST', interviewId: string, path: string, body?: unknown, { idempotent = true } = {}): Promise<T> {
+    // An interview opened before this browser held its token is claimed on first use
+    if (!this.tokenStorage.getItem(tokenKey(interviewId))) {
+      await this.claim(interviewId);
+    }
+
+    // Ids are left out of the operation name so telemetry groups by route
+    const route = path.replace(/\/interviews\/[^/]+/, '/interviews/:id').replace(/\/runs\/[^/]+/, '/runs/:runId');
+    const attempt = () => {
+      const token = this.tokenStorage.getItem(tokenKey(interviewId));
+      return withRetry(`${method} ${route}`, () => this.send<T>(method, path, body, token), {
+        classify: idempotent ? undefined : classifyRejectedOnly
+      });
+    };
+
+    try {
+      return await attempt();
+    } catch (error) {
+      // The session went idle and was claimed elsewhere; claim it back, which only works once that one is idle too
+      if (!(error instanceof ChatError && error.status === 401)) throw error;
+      this.tokenStorage.removeItem(tokenKey(interviewId));
+      await this.claim(interviewId);
+      return attempt();
+    }
+  }
+
+  private async send<T>(method: 'GET' | 'POST', path: string, body: unknown, token: string | null): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+          ...(token ? { Authorization: `Bearer ${token}` } : {})
+        },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+    } catch (error) {
+      console.error(`${method} ${path} failed:`, error);
+      throw new ChatError('Could not reach the assistant service', 'network');
+    }
+
+    if (!response.ok) {
+      const { error } = await response.json().catch(() => ({})) as Partial<ErrorResponse>;
+      throw new ChatError(error || `Assistant service responded with ${response.status}`, errorTypeForStatus(response.status), {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After'))
+      });
+    }
+
+    return (response.status === 204 ? undefined : await response.json()) as T;
+  }
+}
@@ -0,0 +1,556 @@
+// src/services/llm/ScriptedProvider.ts
+
+import { DEFAULT_LOCALE, Locale } from '../../i18n';
+import { ReportType, StructuredReport, isReportType } from '../../types/report';
+import { ChatError } from '../errors';
+import { Questionnaire, getQuestionnaire, questionnaire } from '../questionnaire';
+import { parseLanguageNote } from './language';
+import { ConversationSeed, renderConversationSeed } from './seed';
+import { AssistantTurn, AwaitTurnOptions, LLMProvider } from './types';
+
+interface ScriptedConversation {
+  brandName: string;
+  /** Language the kickoff or seed asked for */
+  locale: Locale;
+  /** Answers in the order the questions were asked */
+  answers: string[];
+  attributes: Record<string, string>;
+  /** Characters exchanged so far, used to estimate prompt tokens */
+  transcriptLength: number;
+  pendingTurns: Map<string, PendingTurn>;
+  cancelled: Set<string>;
+}
+
+interface PendingTurn {
+  reply: AssistantTurn;
+  /** Conversation state from before the turn, restored if it is cancelled */
+  answers: string[];
+  attributes: Record<string, string>;
+  transcriptLength: number;
+}
+
+interface ScriptedProviderOptions {
+  /** Simulated time before the first token of each turn, in milliseconds */
+  latencyMs?: number;
+  /** Simulated delay between streamed chunks, in milliseconds */
+  chunkDelayMs?: number;
+}
+
+const MIN_ANSWER_LENGTH = 20;
+// The app appends this note when the next question is a branch; it is not part of the answer
+const PATH_NOTE_PATTERN = /\n*\[Interview Path:[^\]]*\]/g;
+// The app wraps an answer in this note when it asks for a follow-up, or for the answer to be accepted
+const SYSTEM_NOTE_PATTERN = /^\[System Note: ([^\]]*)\]\s*My answer was: "([\s\S]*)"$/;
+// Sent when the user revises an earlier answer and its reports have to be written again
+const REVISION_PATTERN = /^\[Answer Revision: question ([^;\]]+); reports ([^\]]+)\]/;
+const REVISED_ANSWER_PATTERN = /My new answer is: "([\s\S]*?)"\n\n/;
+
+// Stand-in for the assistant's judgement, enough to exercise conditional questions offline
+const BUSINESS_MODEL_HINTS: [string, RegExp][] = [
+  ['b2b', /\b(b2b|businesses|companies|enterprises?|clients)\b/i],
+  ['b2c', /\b(b2c|consumers|shoppers|families|individuals)\b/i]
+];
+const WORDS_PER_CHUNK = 4;
+// Rough rule of thumb for English text
+const CHARS_PER_TOKEN = 4;
+
+interface ScriptLines {
+  welcome: (brandName: string) => string;
+  thanks: string;
+  followUp: string;
+  followUpMissing: (missing: string) => string;
+  discoveryDone: string;
+  messagingDone: string;
+  audienceDone: string;
+  journeyComplete: string;
+  revised: (count: number) => string;
+}
+
+// What the assistant says between questions; the reports it writes stay in English, as in its templates
+const SCRIPT_LINES: Record<Locale, ScriptLines> = {
+  en: {
+    welcome: brandName => `Welcome! I'm excited to explore what makes ${brandName} unique. We'll work through three short phases — Discovery, Messaging and Audience — and I'll prepare a report after each one.\n\nLet's begin with your brand's core essence.`,
+    thanks: "Thank you, that's really helpful.",
+    followUp: 'Thanks — could you tell me a little more? A sentence or two of detail will make your report much more useful.',
+    followUpMissing: missing => `Thanks — could you add a little more? In particular: ${missing}.`,
+    discoveryDone: "Thank you for sharing such a vivid picture of your brand's personality.\n\nNow that we've uncovered your brand's core essence, let's transform these insights into consistent messaging across all touchpoints.",
+    messagingDone: "Thank you for that honest look at your messaging.\n\nNow that we've refined your messaging approach, let's explore how to create deeper connections with the people you're meant to serve.",
+    audienceDone: 'Thank you — that completes our conversation.',
+    journeyComplete: 'Your brand development journey is complete. You can download all of your reports from the progress ribbon above.',
+    revised: count => `Thank you for refining that answer. I've updated your ${count === 1 ? 'report' : 'reports'} to reflect it.`
+  },
+  es: {
+    welcome: brandName => `¡Te doy la bienvenida! Me encanta la idea de descubrir qué hace única a ${brandName}. Recorreremos tres fases breves (Descubrimiento, Mensajes y Público) y prepararé un informe al terminar cada una.\n\nEmpecemos por la esencia de tu marca.`,
+    thanks: 'Gracias, me resulta muy útil.',
+    followUp: 'Gracias. ¿Podrías contarme un poco más? Una o dos frases con detalle harán tu informe mucho más útil.',
+    followUpMissing: missing => `Gracias. ¿Podrías añadir un poco más? En particular: ${missing}.`,
+    discoveryDone: 'Gracias por describir con tanta viveza la personalidad de tu marca.\n\nAhora que hemos descubierto la esencia de tu marca, convirtamos estas ideas en un mensaje coherente en todos tus puntos de contacto.',
+    messagingDone: 'Gracias por esa mirada sincera a tus mensajes.\n\nAhora que hemos afinado tu forma de comunicar, exploremos cómo crear conexiones más profundas con las personas a las que quieres servir.',
+    audienceDone: 'Gracias, con esto terminamos nuestra conversación.',
+    journeyComplete: 'Tu recorrido de desarrollo de marca ha terminado. Puedes descargar todos tus informes desde la barra de progreso de arriba.',
+    revised: count => `Gracias por precisar esa respuesta. He actualizado ${count === 1 ? 'tu informe' : 'tus informes'} para reflejarla.`
+  }
+};
+
+const excerpt = (answer: string, maxLength = 160): string => {
+  const singleLine = answer.replace(/\s+/g, ' ').trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+};
+
+/**
+ * Replay the answers along the question path. Conditions only look at earlier
+ * answers, so each answer belongs to the question at its position on the path so far.
+ */
+const resolveConversation = ({ answers, attributes, locale }: ScriptedConversation): { path: Questionnaire; answersById: Record<string, string> } => {
+  const source = getQuestionnaire(locale);
+  const answersById: Record<string, string> = {};
+  let path = source.resolvePath({ answers: answersById, attributes });
+  answers.forEach((answer, i) => {
+    const question = path.getQuestion(i);
+    if (!question) return;
+    answersById[question.id] = answer;
+    path = source.resolvePath({ answers: answersById, attributes });
+  });
+  return { path, answersById };
+};
+
+// Reports look answers up by question id; branch alternatives are tried in order
+const answerTo = (conversation: ScriptedConversation, ...questionIds: string[]): string => {
+  const { answersById } = resolveConversation(conversation);
+  return questionIds.map(questionId => answersById[questionId]).find(Boolean) || '';
+};
+
+const questionText = (path: Questionnaire, index: number): string => path.getQuestion(index)?.text || '';
+
+/**
+ * Fully local LLMProvider that plays back the three-phase interview.
+ * It asks the questionnaire's questions in order, follows up on brief answers,
+ * and makes the same tool calls (reports, phase completion, clarifications) the real assistant does,
+ * so the whole interview can run offline in dev and test builds.
+ */
+export class ScriptedProvider implements LLMProvider {
+  public readonly id = 'scripted' as const;
+  private readonly conversations = new Map<string, ScriptedConversation>();
+  private readonly latencyMs: number;
+  private readonly chunkDelayMs: number;
+  private turnSequence = 0;
+
+  constructor({ latencyMs = 600, chunkDelayMs = 25 }: ScriptedProviderOptions = {}) {
+    this.latencyMs = latencyMs;
+    this.chunkDelayMs = chunkDelayMs;
+  }
+
+  public async createConversation(_interviewId: string, seed?: ConversationSeed): Promise<string> {
+    const conversationId = `scripted_${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+    // A seeded conversation picks up the script where the compacted one left off
+    const answers = seed
+      ? seed.phases.flatMap(phase => phase.exchanges.map(exchange => exchange.answer)).filter(answer => answer.length >= MIN_ANSWER_LENGTH)
+      : [];
+    this.conversations.set(conversationId, {
+      brandName: seed?.brandName || 'your brand',
+      locale: seed?.locale || DEFAULT_LOCALE,
+      answers,
+      attributes: { ...seed?.attributes },
+      transcriptLength: seed ? renderConversationSeed(seed).length : 0,
+      pendingTurns: new Map(),
+      cancelled: new Set()
+    });
+    return conversationId;
+  }
+
+  public async sendUserTurn(conversationId: string, content: string): Promise<string> {
+    const conversation = this.getConversation(conversationId);
+    const turnId = `turn_${++this.turnSequence}`;
+    const answers = [...conversation.answers];
+    const attributes = { ...conversation.attributes };
+    const transcriptLength = conversation.transcriptLength;
+    const reply = this.replyTo(conversation, content);
+
+    // Report estimated usage in the same shape as a real run, so accounting and budgets can be exercised offline
+    const completionLength = reply.content.length + JSON.stringify(reply.toolCalls).length;
+    conversation.transcriptLength += content.length;
+    const usage = {
+      model: 'scripted',
+      promptTokens: Math.ceil(conversation.transcriptLength / CHARS_PER_TOKEN),
+      completionTokens: Math.ceil(completionLength / CHARS_PER_TOKEN)
+    };
+    conversation.transcriptLength += completionLength;
+
+    conversation.pendingTurns.set(turnId, { reply: { ...reply, usage }, answers, attributes, transcriptLength });
+    return turnId;
+  }
+
+  public async awaitAssistantTurn(conversationId: string, turnId: string, { onDelta }: AwaitTurnOptions = {}): Promise<AssistantTurn> {
+    const conversation = this.getConversation(conversationId);
+    const pending = conversation.pendingTurns.get(turnId);
+    if (pending === undefined) {
+      throw new ChatError(`Unknown turn ${turnId}`, 'api');
+    }
+    const { reply } = pending;
+
+    try {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+
+      // Stream the reply a few words at a time, like a real run would
+      const words = reply.content.match(/\S+\s*/g) || [];
+      for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+        if (conversation.cancelled.has(turnId)) {
+          throw new ChatError('Run cancelled', 'cancelled');
+        }
+        onDelta?.(words.slice(0, i + WORDS_PER_CHUNK).join(''));
+        await new Promise(resolve => setTimeout(resolve, this.chunkDelayMs));
+      }
+      if (conversation.cancelled.has(turnId)) {
+        throw new ChatError('Run cancelled', 'cancelled');
+      }
+
+      return reply;
+    } finally {
+      conversation.pendingTurns.delete(turnId);
+      conversation.cancelled.delete(turnId);
+    }
+  }
+
+  public async cancel(conversationId: string): Promise<void> {
+    const conversation = this.getConversation(conversationId);
+    conversation.pendingTurns.forEach((_, turnId) => conversation.cancelled.add(turnId));
+  }
+
+  public async cancelTurn(conversationId: string, turnId: string): Promise<void> {
+    const conversation = this.getConversation(conversationId);
+    const pending = conversation.pendingTurns.get(turnId);
+    if (!pending) return;
+
+    conversation.cancelled.add(turnId);
+    conversation.answers = pending.answers;
+    conversation.attributes = pending.attributes;
+    conversation.transcriptLength = pending.transcriptLength;
+  }
+
+  private getConversation(conversationId: string): ScriptedConversation {
+    let conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      // Conversations only live in memory, so pick up unknown ids (e.g. after a reload) from scratch
+      conversation = { brandName: 'your brand', locale: DEFAULT_LOCALE, answers: [], attributes: {}, transcriptLength: 0, pendingTurns: new Map(), cancelled: new Set() };
+      this.conversations.set(conversationId, conversation);
+    }
+    return conversation;
+  }
+
+  private replyTo(conversation: ScriptedConversation, rawContent: string): Omit<AssistantTurn, 'usage'> {
+    const unpathed = rawContent.replace(PATH_NOTE_PATTERN, '');
+    const systemNote = unpathed.trim().match(SYSTEM_NOTE_PATTERN);
+    const content = systemNote ? systemNote[2] : unpathed;
+    const revision = content.match(REVISION_PATTERN);
+    if (revision) {
+      return this.reviseAnswer(conversation, revision[1].trim(), content.match(REVISED_ANSWER_PATTERN)?.[1], revision[2]);
+    }
+    const language = parseLanguageNote(content);
+    const kickoff = language.content.split('\n')[0].match(/begin the brand development process for (.+?)\.?$/i);
+    if (kickoff) {
+      conversation.brandName = kickoff[1].trim();
+      conversation.locale = language.locale || DEFAULT_LOCALE;
+      return {
+        content: `${SCRIPT_LINES[conversation.locale].welcome(conversation.brandName)} ${questionText(resolveConversation(conversation).path, 0)}`,
+        toolCalls: []
+      };
+    }
+
+    const lines = SCRIPT_LINES[conversation.locale];
+    const { path } = resolveConversation(conversation);
+    const questionIndex = conversation.answers.length;
+    if (questionIndex >= path.totalQuestions) {
+      return { content: lines.journeyComplete, toolCalls: [] };
+    }
+
+    // The app's depth check decides when it sends a note; otherwise only very short answers get a follow-up
+    const followUpRequested = systemNote
+      ? systemNote[1].includes('follow-up question')
+      : content.trim().length < MIN_ANSWER_LENGTH;
+    if (followUpRequested) {
+      const missing = systemNote?.[1].match(/It is missing: (.+)\.$/)?.[1];
+      const ask = missing ? lines.followUpMissing(missing) : lines.followUp;
+      return {
+        content: '',
+        toolCalls: [{
+          name: 'request_clarification',
+          arguments: { question: `${ask}\n\n${questionText(path, questionIndex)}` }
+        }]
+      };
+    }
+
+    conversation.answers.push(content.trim());
+    const attributeCalls = this.classifyAnswer(conversation, content);
+    const answered = conversation.answers.length;
+    const { phase } = path.questions[questionIndex];
+    // The answer and any new attribute can change what comes next
+    const nextPath = resolveConversation(conversation).path;
+
+    // The phase ends with its last question
+    if (answered < nextPath.getQuestionsThrough(phase)) {
+      return { content: `${lines.thanks}\n\n${questionText(nextPath, answered)}`, toolCalls: attributeCalls };
+    }
+
+    switch (phase) {
+      case 'discovery':
+        return {
+          content: `${lines.discoveryDone}\n\n${questionText(nextPath, answered)}`,
+          toolCalls: [
+            ...attributeCalls,
+            { name: 'submit_phase_report', arguments: { report: this.discoveryReport(conversation) } },
+            { name: 'complete_phase', arguments: { phase } }
+          ]
+        };
+      case 'messaging':
+        return {
+          content: `${lines.messagingDone}\n\n${questionText(nextPath, answered)}`,
+          toolCalls: [
+            ...attributeCalls,
+            { name: 'submit_phase_report', arguments: { report: this.messagingReport(conversation) } },
+            { name: 'complete_phase', arguments: { phase } }
+          ]
+        };
+      default:
+        return {
+          content: lines.audienceDone,
+          toolCalls: [
+            ...attributeCalls,
+            { name: 'submit_phase_report', arguments: { report: this.audienceReport(conversation) } },
+            { name: 'complete_phase', arguments: { phase } },
+            { name: 'submit_phase_report', arguments: { report: this.finalReport(conversation) } }
+          ]
+        };
+    }
+  }
+
+  /** Swap in the revised answer and write the requested reports again */
+  private reviseAnswer(conversation: ScriptedConversation, questionId: string, answer: string | undefined, reportList: string): Omit<AssistantTurn, 'usage'> {
+    const index = resolveConversation(conversation).path.questions.findIndex(question => question.id === questionId);
+    if (answer && index !== -1 && index < conversation.answers.length) {
+      conversation.answers[index] = answer;
+    }
+
+    const reports = reportList.split(',').map(type => type.trim()).filter(isReportType)
+      .map(type => this.reportFor(conversation, type));
+    return {
+      content: SCRIPT_LINES[conversation.locale].revised(reports.length),
+      toolCalls: reports.map(report => ({ name: 'submit_phase_report', arguments: { report } }))
+    };
+  }
+
+  private reportFor(conversation: ScriptedConversation, type: ReportType): StructuredReport {
+    switch (type) {
+      case 'discovery':
+        return this.discoveryReport(conversation);
+      case 'messaging':
+        return this.messagingReport(conversation);
+      case 'audience':
+        return this.audienceReport(conversation);
+      case 'complete':
+        return this.finalReport(conversation);
+    }
+  }
+
+  /** Record the business model from the first answer that makes it clear, like the assistant would */
+  private classifyAnswer(conversation: ScriptedConversation, content: string): AssistantTurn['toolCalls'] {
+    const declared = questionnaire.attributes.some(attribute => attribute.id === 'businessModel');
+    if (!declared || conversation.attributes.businessModel) return [];
+
+    const match = BUSINESS_MODEL_HINTS.find(([, pattern]) => pattern.test(content));
+    if (!match) return [];
+
+    conversation.attributes.businessModel = match[0];
+    return [{ name: 'record_attribute', arguments: { attribute: 'businessModel', value: match[0] } }];
+  }
+
+  private discoveryReport(conversation: ScriptedConversation): StructuredReport {
+    const { brandName } = conversation;
+    const answer = (...questionIds: string[]) => answerTo(conversation, ...questionIds);
+    return {
+      type: 'discovery',
+      title: 'Brand Elements Discovery',
+      sections: [
+        {
+          heading: 'Core Brand Essence',
+          paragraphs: [`${brandName} sets itself apart in its own words: "${excerpt(answer('discovery.differentiation'))}"`]
+        },
+        {
+          heading: 'Foundational Principles',
+          items: [
+            { label: 'Principle 1', text: excerpt(answer('discovery.principles'), 120) },
+            { label: 'Principle 2', text: 'Demonstrated consistently in day-to-day operations.' },
+            { label: 'Principle 3', text: 'Reflected in how customers are treated at every touchpoint.' }
+          ]
+        },
+        {
+          heading: 'Distinctive Expression',
+          paragraphs: [`If ${brandName} walked into a networking event: "${excerpt(answer('discovery.personality'))}"`]
+        },
+        {
+          heading: 'Immediate Opportunities for Growth',
+          items: [
+            { text: 'Turn your differentiator into a one-line positioning statement.' },
+            { text: 'Share concrete stories that show your principles in action.' },
+            { text: 'Let your brand personality lead in customer-facing copy.' }
+          ]
+        }
+      ]
+    };
+  }
+
+  private messagingReport(conversation: ScriptedConversation): StructuredReport {
+    const { brandName } = conversation;
+    const answer = (...questionIds: string[]) => answerTo(conversation, ...questionIds);
+    return {
+      type: 'messaging',
+      title: 'Brand Voice Analysis',
+      sections: [
+        {
+          heading: 'Messaging Alignment',
+          paragraphs: [`${brandName} describes itself as: "${excerpt(answer('messaging.one-sentence'))}"`]
+        },
+        {
+          heading: 'Communication Patterns',
+          ordered: true,
+          items: [
+            { label: 'Pattern 1', text: excerpt(answer('messaging.communication-style'), 120) },
+            { label: 'Pattern 2', text: 'Tone is anchored in the personality described during Discovery.' },
+            { label: 'Pattern 3', text: excerpt(answer('messaging.consistency'), 120) }
+          ]
+        },
+        {
+          heading: 'Consistency Opportunities',
+          items: [
+            { text: 'Align every channel with your one-sentence positioning.' },
+            { text: `Document your voice so anyone writing for ${brandName} sounds the same.` },
+            { text: 'Close the gaps you identified in your messaging audit.' }
+          ]
+        },
+        {
+          heading: 'Immediate Actions for Messaging',
+          items: [
+            { text: 'Rewrite your homepage headline to lead with your differentiator.' },
+            { text: 'Highlight your core principles across social media.' },
+            { text: 'Emphasize the customer outcome in key touchpoints like email.' }
+          ]
+        }
+      ]
+    };
+  }
+
+  private audienceReport(conversation: ScriptedConversation): StructuredReport {
+    const { brandName } = conversation;
+    const answer = (...questionIds: string[]) => answerTo(conversation, ...questionIds);
+    return {
+      type: 'audience',
+      title: 'Brand Audience Alignment Analysis',
+      sections: [
+        {
+          heading: 'Ideal Audience Overview',
+          paragraphs: [`Your favorite customers: "${excerpt(answer('audience.favorite-customer'))}"`]
+        },
+        {
+          heading: 'Value Connection Points',
+          ordered: true,
+          items: [
+            { label: 'Connection Point 1', text: `${brandName}'s essence speaks directly to these customers.` },
+            { label: 'Connection Point 2', text: excerpt(answer('audience.customer-problems'), 120) },
+            { label: 'Connection Point 3', text: 'Your personality attracts the right people.' }
+          ]
+        },
+        {
+          heading: 'Engagement Opportunities',
+          items: [
+            { text: 'Target customers who share the traits of your favorite clients.' },
+            { text: 'Create content around the problems they face before finding you.' },
+            { text: excerpt(answer('audience.message-relevance', 'audience.sales-material-relevance'), 120) }
+          ]
+        },
+        {
+          heading: 'Immediate Actions for Audience Targeting',
+          items: [
+            { text: "Develop a campaign focused on your ideal customer's biggest challenge." },
+            { text: 'Use your strongest channel to highlight the value they care about.' },
+            { text: 'Collaborate with complementary businesses to reach like-minded customers.' }
+          ]
+        }
+      ]
+    };
+  }
+
+  private finalReport(conversation: ScriptedConversation): StructuredReport {
+    const { brandName } = conversation;
+    const answer = (...questionIds: string[]) => answerTo(conversation, ...questionIds);
+    return {
+      type: 'complete',
+      title: 'Elevate Your Brand, Empower Your Vision',
+      sections: [
+        {
+          heading: 'Brand Breakthrough',
+          paragraphs: [`Most brands in your space compete on features, but your strength is this: "${excerpt(answer('discovery.differentiation'), 120)}" Leaning into that fully could make ${brandName} the go-to choice for your ideal customers.`]
+        },
+        {
+          heading: 'Your Brand at a Glance',
+          paragraphs: [`${brandName} is a brand rooted in "${excerpt(answer('messaging.one-sentence'), 120)}"`]
+        },
+        {
+          heading: 'Key Observations and Insights',
+          subsections: [
+            {
+              heading: '1. Strengths Driving Your Success',
+              items: [
+                { label: 'Core Identity', text: excerpt(answer('discovery.principles'), 120) },
+                { label: 'Messaging Alignment', text: excerpt(answer('messaging.communication-style'), 120) },
+                { label: 'Audience Connection', text: excerpt(answer('audience.favorite-customer'), 120) }
+              ]
+            },
+            {
+              heading: '2. Opportunities to Build Momentum',
+              items: [
+                { label: 'Consistency in Storytelling', text: excerpt(answer('messaging.consistency'), 120) },
+                { label: 'Targeted Audience Outreach', text: excerpt(answer('audience.customer-problems'), 120) }
+              ]
+            }
+          ]
+        },
+        {
+          heading: 'Personalized Growth Roadmap',
+          subsections: [
+            { heading: 'Month 1: Foundation Strengthening', items: [{ text: 'Publish your one-sentence positioning everywhere.' }] },
+            { heading: 'Month 2: Audience Expansion', items: [{ text: "Create content addressing your customers' top problems." }] },
+            { heading: 'Month 3: Refinement and Scaling', items: [{ text: 'Scale the channels that perform best.' }] }
+          ]
+        },
+        {
+          heading: 'Action Plan: Where to Focus Next',
+          subsections: [
+            { heading: 'Step 1: Sharpen Your Messaging', items: [{ text: 'Revise your website copy to reflect your brand personality.' }] },
+            { heading: 'Step 2: Deepen Audience Engagement', items: [{ text: excerpt(answer('audience.message-relevance', 'audience.sales-material-relevance'), 120) }] },
+            { heading: 'Step 3: Focus on Consistency', items: [{ text: 'Align every platform with your strongest message.' }] }
+          ]
+        },
+        {
+          heading: 'Next Steps for Growth',
+          ordered: true,
+          items: [
+            { label: 'Refining Your Brand Identity', text: 'A clear, cohesive identity reinforces your values and goals.' },
+            { label: 'Developing Detailed Audience Personas', text: 'Understanding your audience unlocks authentic connection.' }
+          ]
+        },
+        {
+          heading: 'Prioritization Matrix'
+        },
+        {
+          heading: 'The Brand Alchemy Mastery Course',
+          paragraphs: ['Ready to go deeper? The Brand Alchemy Mastery course turns these insights into a complete brand strategy.']
+        }
+      ],
+      prioritizationMatrix: [
+        { recommendation: 'Publish one-sentence positioning', impact: 'High', effort: 'Low', priority: 'Quick Win' },
+        { recommendation: 'Problem-focused content series', impact: 'High', effort: 'Medium', priority: 'Major Project' },
+        { recommendation: 'Voice and tone guide', impact: 'Medium', effort: 'Low', priority: 'Quick Win' },
+        { recommendation: 'Full website redesign', impact: 'Medium', effort: 'High', priority: 'Avoid for now' }
+      ]
+    };
+  }
+}
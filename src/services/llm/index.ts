@@ -0,0 +1,25 @@
+// src/services/llm/index.ts
+
+import { config } from '../../config/environment';
+import { ProxyProvider } from './ProxyProvider';
+import { ScriptedProvider } from './ScriptedProvider';
+import { LLMProvider } from './types';
+
+export type { AssistantTurn, AwaitTurnOptions, LLMProvider, LLMProviderId, TurnUsage } from './types';
+export type { CompletablePhase, InterviewToolCall } from './tools';
+export type { ConversationSeed, SeedExchange, SeedPhase } from './seed';
+export { parseLanguageNote, renderLanguageNote } from './language';
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Shared provider instance, chosen by VITE_LLM_PROVIDER ('proxy' by default).
+ */
+export const getLLMProvider = (): LLMProvider => {
+  if (!provider) {
+    provider = config.llm.provider === 'scripted'
+      ? new ScriptedProvider()
+      : new ProxyProvider({ baseUrl: config.api.baseUrl });
+  }
+  return provider;
+};
@@ -0,0 +1,22 @@
+// src/services/llm/language.ts
+// Tells the assistant which language to hold the interview in. Instructions stay in English either way.
+
+import { DEFAULT_LOCALE, Locale, getLocaleDefinition, isLocale } from '../../i18n';
+
+const LANGUAGE_NOTE_PATTERN = /\[Interview Language: (\w+)[^\]]*\]\s*/;
+
+/** The note that opens a non-English interview; English interviews get none */
+export const renderLanguageNote = (locale: Locale): string => {
+  if (locale === DEFAULT_LOCALE) return '';
+  const { language } = getLocaleDefinition(locale);
+  return `[Interview Language: ${locale} (${language}). Conduct the whole interview in ${language}: ask the questions as worded in ${language} below, and write every reply and report in ${language}. Keep the report section headings exactly as in the templates; the app translates them.]`;
+};
+
+/** The locale a message's language note asks for, and the message without the note */
+export const parseLanguageNote = (content: string): { locale: Locale | null; content: string } => {
+  const match = content.match(LANGUAGE_NOTE_PATTERN);
+  return {
+    locale: match && isLocale(match[1]) ? match[1] : null,
+    content: match ? content.replace(LANGUAGE_NOTE_PATTERN, '') : content
+  };
+};
@@ -0,0 +1,46 @@
+// src/services/llm/proxyApi.ts
+// Request/response shapes shared by ProxyProvider and the API server in server/
+
+import type { ConversationSeed } from './seed';
+import type { InterviewToolCall } from './tools';
+import type { TurnUsage } from './types';
+
+export type ProxyRunStatus = 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface CreateConversationRequest {
+  /** Start a fresh, compacted conversation instead of reusing the interview's thread */
+  seed?: ConversationSeed;
+}
+
+export interface CreateConversationResponse {
+  conversationId: string;
+  /**
+   * Only in the response that claims the interview. Every later call for the
+   * interview must send it as an `Authorization: Bearer` header.
+   */
+  sessionToken?: string;
+}
+
+export interface SendMessageRequest {
+  content: string;
+}
+
+export interface SendMessageResponse {
+  runId: string;
+}
+
+export interface RunStatusResponse {
+  runId: string;
+  status: ProxyRunStatus;
+  /** Reply text received so far; the full reply once status is 'completed' */
+  content: string;
+  /** Validated tool calls from the turn; empty until status is 'completed' */
+  toolCalls: InterviewToolCall[];
+  /** Token usage for the run; null until status is 'completed' */
+  usage: TurnUsage | null;
+  error?: string;
+}
+
+export interface ErrorResponse {
+  error: string;
+}
@@ -0,0 +1,90 @@
+// src/services/llm/seed.ts
+// Compact context used to start a fresh conversation part-way through an interview.
+
+import { Locale, isLocale } from '../../i18n';
+import { questionnaire } from '../questionnaire';
+import { renderLanguageNote } from './language';
+import type { CompletablePhase } from './tools';
+
+export interface SeedExchange {
+  question: string;
+  answer: string;
+}
+
+export interface SeedPhase {
+  phase: CompletablePhase;
+  /** The user's answers in this phase, each with the question it responded to */
+  exchanges: SeedExchange[];
+  /** The phase report as rendered markdown, carried forward in full */
+  report: string | null;
+}
+
+export interface ConversationSeed {
+  brandName: string;
+  /** Completed phases, oldest first */
+  phases: SeedPhase[];
+  /** Attributes already recorded with record_attribute */
+  attributes: Record<string, string>;
+  /** The assistant's latest message, which the user is about to answer */
+  lastAssistantMessage: string | null;
+  /** Interview language; English when absent */
+  locale?: Locale;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+/** Shape check for seeds that arrive over the wire (see server/index.ts) */
+export const isConversationSeed = (value: unknown): value is ConversationSeed => {
+  if (!isObject(value) || typeof value.brandName !== 'string' || !Array.isArray(value.phases)) return false;
+  if (!isObject(value.attributes) || !Object.values(value.attributes).every(attribute => typeof attribute === 'string')) return false;
+  if (value.lastAssistantMessage !== null && typeof value.lastAssistantMessage !== 'string') return false;
+  if (value.locale !== undefined && !isLocale(value.locale)) return false;
+
+  return value.phases.every(phase =>
+    isObject(phase) &&
+    questionnaire.completablePhases.includes(phase.phase as string) &&
+    (phase.report === null || typeof phase.report === 'string') &&
+    Array.isArray(phase.exchanges) &&
+    phase.exchanges.every(exchange =>
+      isObject(exchange) && typeof exchange.question === 'string' && typeof exchange.answer === 'string'
+    )
+  );
+};
+
+/**
+ * Render the seed as the opening message of the new conversation.
+ * The assistant's latest message is not included here; providers add it as
+ * an assistant turn so the thread reads naturally.
+ */
+export const renderConversationSeed = (seed: ConversationSeed): string => {
+  const blocks = [
+    `[Context carried over from earlier in this interview with ${seed.brandName}. Earlier turns have been condensed to keep the conversation short.]`
+  ];
+
+  seed.phases.forEach(({ phase, exchanges, report }) => {
+    const answers = exchanges
+      .map((exchange, i) => `${i + 1}. Q: ${exchange.question}\n   A: ${exchange.answer}`)
+      .join('\n');
+    const label = questionnaire.getPhase(phase)?.label || phase;
+    blocks.push(`## ${label} phase (${phase}) - complete\n\nThe user's answers:\n${answers || '(none recorded)'}`);
+    if (report) {
+      blocks.push(`The ${phase} report you already submitted:\n\n${report}`);
+    }
+  });
+
+  const attributes = Object.entries(seed.attributes);
+  if (attributes.length > 0) {
+    blocks.push(`Already recorded about the business: ${attributes.map(([id, value]) => `${id} = ${value}`).join(', ')}`);
+  }
+
+  const languageNote = seed.locale ? renderLanguageNote(seed.locale) : '';
+  if (languageNote) {
+    blocks.push(languageNote);
+  }
+
+  blocks.push('Continue the interview from where it left off. These phases are complete: do not repeat their questions or submit their reports again. Use these answers and reports when writing later reports, including the Final Transformation Summary.');
+
+  return blocks.join('\n\n');
+};
@@ -0,0 +1,158 @@
+// src/services/llm/tools.ts
+// Functions the assistant calls instead of writing control markers into its reply.
+
+import type { FunctionTool } from 'openai/resources/beta/assistants';
+import type { PhaseId } from '../../types/interview';
+import { StructuredReport } from '../../types/report';
+import { questionnaire } from '../questionnaire';
+import { REPORT_JSON_SCHEMA, validateReport } from '../reports/schema';
+
+/** Any phase before 'complete'; the list comes from the questionnaire definition */
+export type CompletablePhase = PhaseId;
+
+const COMPLETABLE_PHASES: readonly CompletablePhase[] = questionnaire.completablePhases;
+
+export type InterviewToolCall =
+  | { name: 'complete_phase'; arguments: { phase: CompletablePhase } }
+  | { name: 'submit_phase_report'; arguments: { report: StructuredReport } }
+  | { name: 'request_clarification'; arguments: { question: string } }
+  | { name: 'record_attribute'; arguments: { attribute: string; value: string } };
+
+export type ToolCallParseResult =
+  | { ok: true; call: InterviewToolCall }
+  | { ok: false; error: string };
+
+// The report schema's definitions have to sit at the root of the tool parameters for its $refs to resolve
+const { definitions, properties: reportProperties, required: reportRequired } = REPORT_JSON_SCHEMA;
+
+const recordAttributeTool = (): FunctionTool => {
+  const attributeList = questionnaire.attributes
+    .map(attribute => `${attribute.id} (${attribute.values.join(' | ')}): ${attribute.description}`)
+    .join('\n');
+  return {
+    type: 'function',
+    function: {
+      name: 'record_attribute',
+      description: `Record something you have learned about the business as soon as the user's answers make it clear. Later questions depend on it. Attributes:\n${attributeList}`,
+      parameters: {
+        type: 'object',
+        required: ['attribute', 'value'],
+        additionalProperties: false,
+        properties: {
+          attribute: { type: 'string', enum: questionnaire.attributes.map(attribute => attribute.id) },
+          value: { type: 'string' }
+        }
+      }
+    }
+  };
+};
+
+/** Tool declarations sent with every run, so the assistant config never drifts from the app */
+export const INTERVIEW_TOOLS: FunctionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'complete_phase',
+      description: 'Mark an interview phase as finished after the user has answered its last question. Call this after submit_phase_report for the same phase.',
+      parameters: {
+        type: 'object',
+        required: ['phase'],
+        additionalProperties: false,
+        properties: {
+          phase: { type: 'string', enum: COMPLETABLE_PHASES }
+        }
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'submit_phase_report',
+      description: 'Submit a finished report. Use type "complete" for the Final Transformation Summary. Invalid reports are rejected with a list of errors; fix them and call again.',
+      parameters: {
+        type: 'object',
+        required: ['report'],
+        additionalProperties: false,
+        properties: {
+          report: {
+            type: 'object',
+            required: reportRequired,
+            additionalProperties: false,
+            properties: reportProperties
+          }
+        },
+        definitions
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'request_clarification',
+      description: 'Ask the user a follow-up because their last answer was too brief or unclear. The question is shown to the user as your reply; end your turn afterwards.',
+      parameters: {
+        type: 'object',
+        required: ['question'],
+        additionalProperties: false,
+        properties: {
+          question: { type: 'string', minLength: 1 }
+        }
+      }
+    }
+  },
+  // Only offered when the questionnaire declares attributes for its conditional questions
+  ...(questionnaire.attributes.length > 0 ? [recordAttributeTool()] : [])
+];
+
+/**
+ * Parse and validate the raw JSON arguments of a tool call.
+ * Errors are phrased for the assistant, which receives them as the tool output.
+ */
+export const parseToolCall = (name: string, rawArguments: string): ToolCallParseResult => {
+  let args: Record<string, unknown>;
+  try {
+    const parsed: unknown = JSON.parse(rawArguments || '{}');
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return { ok: false, error: 'Arguments must be a JSON object' };
+    }
+    args = parsed as Record<string, unknown>;
+  } catch (error) {
+    return { ok: false, error: `Arguments are not valid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  switch (name) {
+    case 'complete_phase':
+      if (!COMPLETABLE_PHASES.includes(args.phase as CompletablePhase)) {
+        return { ok: false, error: `phase must be one of ${COMPLETABLE_PHASES.join(', ')}` };
+      }
+      return { ok: true, call: { name, arguments: { phase: args.phase as CompletablePhase } } };
+
+    case 'submit_phase_report': {
+      const result = validateReport(args.report);
+      if (!result.valid) {
+        return { ok: false, error: `Report rejected:\n${result.errors.map(error => `- ${error}`).join('\n')}` };
+      }
+      return { ok: true, call: { name, arguments: { report: result.report } } };
+    }
+
+    case 'request_clarification':
+      if (typeof args.question !== 'string' || !args.question.trim()) {
+        return { ok: false, error: 'question must be a non-empty string' };
+      }
+      return { ok: true, call: { name, arguments: { question: args.question.trim() } } };
+
+    case 'record_attribute': {
+      const attribute = questionnaire.attributes.find(candidate => candidate.id === args.attribute);
+      if (!attribute) {
+        return { ok: false, error: `attribute must be one of ${questionnaire.attributes.map(candidate => candidate.id).join(', ')}` };
+      }
+      if (typeof args.value !== 'string' || !attribute.values.includes(args.value)) {
+        return { ok: false, error: `value for ${attribute.id} must be one of ${attribute.values.join(', ')}` };
+      }
+      return { ok: true, call: { name, arguments: { attribute: attribute.id, value: args.value } } };
+    }
+
+    default:
+      return { ok: false, error: `Unknown function: ${name}` };
+  }
+};
@@ -0,0 +1,59 @@
+// src/services/llm/types.ts
+
+import type { ConversationSeed } from './seed';
+import type { InterviewToolCall } from './tools';
+
+export type LLMProviderId = 'assistants' | 'proxy' | 'scripted';
+
+export interface TurnUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AssistantTurn {
+  content: string;
+  /** Validated function calls the assistant made during the turn, in call order */
+  toolCalls: InterviewToolCall[];
+  /** Token usage for the whole turn, when the backend reports it */
+  usage: TurnUsage | null;
+}
+
+export interface AwaitTurnOptions {
+  /** Called with the full reply text received so far, each time more of it streams in */
+  onDelta?: (contentSoFar: string) => void;
+  /** Called periodically while a turn is taking longer than usual without producing output */
+  onLongRunning?: () => void;
+}
+
+/**
+ * Backend-agnostic contract the interview engine talks to.
+ * A conversation holds the full turn history; a turn is one user message
+ * plus the assistant reply generated for it.
+ */
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+
+  /**
+   * Create a conversation for an interview and return its id. With a seed, the
+   * conversation starts from that condensed context instead of empty, and
+   * replaces the interview's previous conversation.
+   */
+  createConversation(interviewId: string, seed?: ConversationSeed): Promise<string>;
+
+  /** Append a user message and start generating a reply; returns the turn id */
+  sendUserTurn(conversationId: string, content: string): Promise<string>;
+
+  /** Stream the assistant reply and resolve with it once the turn has finished */
+  awaitAssistantTurn(conversationId: string, turnId: string, options?: AwaitTurnOptions): Promise<AssistantTurn>;
+
+  /** Cancel any turn still generating in the conversation */
+  cancel(conversationId: string): Promise<void>;
+
+  /**
+   * Stop one turn and remove it from the conversation: its user message and
+   * any partial reply are discarded, so the next turn starts from a clean history.
+   * The pending awaitAssistantTurn rejects with a 'cancelled' ChatError.
+   */
+  cancelTurn(conversationId: string, turnId: string): Promise<void>;
+}
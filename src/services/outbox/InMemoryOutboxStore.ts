@@ -0,0 +1,27 @@
+// src/services/outbox/InMemoryOutboxStore.ts
+
+import type { OutboxEntry, OutboxItem, OutboxStore } from './types';
+
+/**
+ * Entries kept for the lifetime of the page. Used with the in-memory interview
+ * repository, whose interviews do not survive a reload either, and where IndexedDB is missing.
+ */
+export class InMemoryOutboxStore implements OutboxStore {
+  public readonly id = 'memory';
+  private entries: OutboxEntry[] = [];
+  private nextId = 1;
+
+  public async add(item: OutboxItem): Promise<OutboxEntry> {
+    const entry: OutboxEntry = { ...structuredClone(item), id: this.nextId++, queuedAt: new Date() };
+    this.entries.push(entry);
+    return structuredClone(entry);
+  }
+
+  public async list(interviewId: string): Promise<OutboxEntry[]> {
+    return structuredClone(this.entries.filter(entry => entry.interviewId === interviewId));
+  }
+
+  public async remove(entryId: number): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.id !== entryId);
+  }
+}
@@ -0,0 +1,74 @@
+// src/services/outbox/IndexedDbOutboxStore.ts
+
+import type { OutboxEntry, OutboxItem, OutboxStore } from './types';
+
+const DB_NAME = 'aurum-outbox';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const INTERVIEW_INDEX = 'interviewId';
+
+const result = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// A write is only durable once its transaction has committed, not when its request succeeds
+const committed = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Entries in an IndexedDB object store, so they survive a reload or a closed tab.
+ * Ids come from the store's key generator, so they grow in the order entries were added.
+ */
+export class IndexedDbOutboxStore implements OutboxStore {
+  public readonly id = 'indexeddb';
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const entries = request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'id', autoIncrement: true });
+        entries.createIndex(INTERVIEW_INDEX, 'interviewId');
+      };
+      this.db = result(request);
+      // A failed open, e.g. storage blocked in a private window, is tried again on the next call
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  public async add(item: OutboxItem): Promise<OutboxEntry> {
+    const db = await this.open();
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    const done = committed(transaction);
+    const queuedAt = new Date();
+    const id = await result(transaction.objectStore(ENTRIES_STORE).add({ ...item, queuedAt }));
+    await done;
+    return { ...item, queuedAt, id: id as number };
+  }
+
+  public async list(interviewId: string): Promise<OutboxEntry[]> {
+    const db = await this.open();
+    const index = db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).index(INTERVIEW_INDEX);
+    const entries: OutboxEntry[] = await result(index.getAll(interviewId));
+    return entries.sort((a, b) => a.id - b.id);
+  }
+
+  public async remove(entryId: number): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    const done = committed(transaction);
+    transaction.objectStore(ENTRIES_STORE).delete(entryId);
+    await done;
+  }
+}
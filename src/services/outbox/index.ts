@@ -0,0 +1,30 @@
+// src/services/outbox/index.ts
+
+import { config } from '../../config/environment';
+import { IndexedDbOutboxStore } from './IndexedDbOutboxStore';
+import { InMemoryOutboxStore } from './InMemoryOutboxStore';
+import { OutboxStore } from './types';
+
+export type {
+  OutboxEntry,
+  OutboxItem,
+  OutboxStore,
+  OutboxStoreId,
+  QueuedMessages,
+  QueuedTurn
+} from './types';
+export { pendingMessages, queuedTurns, withQueuedSaves } from './queue';
+
+let store: OutboxStore | null = null;
+
+/**
+ * Shared outbox store: IndexedDB, unless interviews are kept in memory or the browser has no IndexedDB.
+ */
+export const getOutboxStore = (): OutboxStore => {
+  if (!store) {
+    store = config.storage.backend === 'memory' || typeof indexedDB === 'undefined'
+      ? new InMemoryOutboxStore()
+      : new IndexedDbOutboxStore();
+  }
+  return store;
+};
@@ -0,0 +1,33 @@
+// src/services/outbox/queue.ts
+
+import type { Message } from '../../types/interview';
+import type { OutboxEntry, OutboxItem, QueuedTurn } from './types';
+
+/** The transcript as it will be stored once every queued save has gone through */
+export const withQueuedSaves = (stored: Message[], entries: OutboxEntry[]): Message[] => {
+  const messages = [...stored];
+  entries.forEach(entry => {
+    if (entry.type !== 'messages') return;
+    entry.messages.forEach(({ index, message }) => {
+      messages[index] = message;
+    });
+  });
+  return messages;
+};
+
+export const queuedTurns = (entries: OutboxEntry[]): QueuedTurn[] => {
+  return entries.filter((entry): entry is OutboxEntry & QueuedTurn => entry.type === 'turn');
+};
+
+/** Transcript positions still waiting on the outbox, and whether each is an unsent turn or an unsaved message */
+export const pendingMessages = (entries: OutboxEntry[]): Map<number, OutboxItem['type']> => {
+  const pending = new Map<number, OutboxItem['type']>();
+  entries.forEach(entry => {
+    if (entry.type === 'turn') {
+      pending.set(entry.index, 'turn');
+    } else {
+      entry.messages.forEach(({ index }) => pending.set(index, 'messages'));
+    }
+  });
+  return pending;
+};
@@ -0,0 +1,44 @@
+// src/services/outbox/types.ts
+
+import type { Message } from '../../types/interview';
+import type { IndexedMessage, MessageProgress } from '../interviews';
+
+export type OutboxStoreId = 'indexeddb' | 'memory';
+
+/** A user turn that never reached the assistant */
+export interface QueuedTurn {
+  type: 'turn';
+  interviewId: string;
+  /** Position of the message in the transcript */
+  index: number;
+  message: Message;
+  /** What is sent to the assistant, system notes included */
+  content: string;
+}
+
+/** A save of changed messages that never reached the interview repository */
+export interface QueuedMessages {
+  type: 'messages';
+  interviewId: string;
+  messages: IndexedMessage[];
+  progress: MessageProgress;
+}
+
+export type OutboxItem = QueuedTurn | QueuedMessages;
+
+export type OutboxEntry = OutboxItem & {
+  /** Assigned by the store, in the order entries were queued */
+  id: number;
+  queuedAt: Date;
+};
+
+/**
+ * Work waiting for the connection to come back. Entries are listed in the
+ * order they were queued, which is the order they must be replayed in.
+ */
+export interface OutboxStore {
+  readonly id: OutboxStoreId;
+  add(item: OutboxItem): Promise<OutboxEntry>;
+  list(interviewId: string): Promise<OutboxEntry[]>;
+  remove(entryId: number): Promise<void>;
+}
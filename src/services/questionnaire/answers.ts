@@ -0,0 +1,61 @@
+// src/services/questionnaire/answers.ts
+// Answers from answer widgets and the text rendering the assistant receives in their place.
+
+import { DEFAULT_LOCALE, Locale, Strings, format, getStrings } from '../../i18n';
+import type { AnswerInput, StructuredAnswer } from '../../types/questionnaire';
+
+const joinList = (values: string[], strings: Strings): string => {
+  return values.length <= 1 ? values.join('') : `${values.slice(0, -1).join(', ')} ${strings.answers.and} ${values[values.length - 1]}`;
+};
+
+const renderScale = ({ min, max, minLabel, maxLabel }: Extract<AnswerInput, { type: 'scale' }>, value: number, strings: Strings): string => {
+  const middle = (min + max) / 2;
+  const summary = value === min ? minLabel
+    : value === max ? maxLabel
+    : value < middle ? format(strings.answers.leaning, { label: minLabel.toLowerCase() })
+    : value > middle ? format(strings.answers.leaning, { label: maxLabel.toLowerCase() })
+    : strings.answers.balanced;
+  return format(strings.answers.scale, { summary, value, min, max, minLabel: minLabel.toLowerCase(), maxLabel: maxLabel.toLowerCase() });
+};
+
+/** Whether the widget's value is a full answer to the question's input */
+export const isAnswerComplete = (input: AnswerInput, answer: StructuredAnswer): boolean => {
+  switch (answer.type) {
+    case 'scale':
+      return input.type === 'scale' && answer.value >= input.min && answer.value <= input.max;
+    case 'single-choice':
+      return input.type === 'single-choice' && input.options.includes(answer.value);
+    case 'multi-choice':
+      return input.type === 'multi-choice' && answer.values.length > 0 &&
+        answer.values.length <= (input.maxSelections ?? input.options.length);
+    case 'ranked':
+      return input.type === 'ranked' && answer.values.length === input.count && answer.values.every(value => value.trim());
+  }
+};
+
+/** The answer as text in the interview's language, which is what the assistant reads */
+export const renderAnswer = (input: AnswerInput, answer: StructuredAnswer, locale: Locale = DEFAULT_LOCALE): string => {
+  const strings = getStrings(locale);
+  switch (answer.type) {
+    case 'scale':
+      return input.type === 'scale' ? renderScale(input, answer.value, strings) : String(answer.value);
+    case 'ranked':
+      return answer.values.map((value, i) => `${i + 1}. ${value.trim()}`).join('\n');
+    default: {
+      const choices = joinList(answer.type === 'multi-choice' ? answer.values : [answer.value], strings);
+      const label = input.type === 'single-choice' || input.type === 'multi-choice' ? input.label : undefined;
+      return label ? `${label}: ${choices}` : choices;
+    }
+  }
+};
+
+/** The message content for a widget answer: its rendering, then anything the user typed alongside it */
+export const composeAnswer = (input: AnswerInput, answer: StructuredAnswer, note: string, locale: Locale = DEFAULT_LOCALE): string => {
+  return [renderAnswer(input, answer, locale), note.trim()].filter(Boolean).join('\n\n');
+};
+
+/** The note part of a composed answer, e.g. to put it back in the input box for a revision */
+export const getAnswerNote = (input: AnswerInput, answer: StructuredAnswer, content: string, locale: Locale = DEFAULT_LOCALE): string => {
+  const rendering = renderAnswer(input, answer, locale);
+  return content.startsWith(rendering) ? content.slice(rendering.length).trim() : content;
+};
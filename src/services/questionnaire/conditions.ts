@@ -0,0 +1,38 @@
+// src/services/questionnaire/conditions.ts
+
+import type { QuestionCondition, QuestionPathContext } from '../../types/questionnaire';
+
+/** Whether a question's condition holds for one interview. Unrecorded attributes and unanswered questions match nothing. */
+export const evaluateCondition = (condition: QuestionCondition, context: QuestionPathContext): boolean => {
+  if ('all' in condition) return condition.all.every(part => evaluateCondition(part, context));
+  if ('any' in condition) return condition.any.some(part => evaluateCondition(part, context));
+  if ('not' in condition) return !evaluateCondition(condition.not, context);
+
+  if ('attribute' in condition) {
+    const value = context.attributes[condition.attribute];
+    return value !== undefined && condition.in.includes(value);
+  }
+
+  const answer = context.answers[condition.answer]?.toLowerCase();
+  return answer !== undefined && condition.mentions.some(phrase => answer.includes(phrase.toLowerCase()));
+};
+
+export interface ConditionReferences {
+  questions: string[];
+  attributes: { id: string; values: string[] }[];
+}
+
+/** Questions and attribute values a condition depends on, for validation */
+export const conditionReferences = (condition: QuestionCondition): ConditionReferences => {
+  if ('all' in condition || 'any' in condition) {
+    const parts = 'all' in condition ? condition.all : condition.any;
+    const references = parts.map(conditionReferences);
+    return {
+      questions: references.flatMap(reference => reference.questions),
+      attributes: references.flatMap(reference => reference.attributes)
+    };
+  }
+  if ('not' in condition) return conditionReferences(condition.not);
+  if ('attribute' in condition) return { questions: [], attributes: [{ id: condition.attribute, values: condition.in }] };
+  return { questions: [condition.answer], attributes: [] };
+};
@@ -0,0 +1,53 @@
+// src/services/questionnaire/depth.ts
+// Decides whether an answer is deep enough to move on, using the question's rubric.
+
+import type { RequiredElement } from '../../types/questionnaire';
+import { questionnaire } from './index';
+import type { Questionnaire } from './questionnaire';
+
+export interface DepthAssessment {
+  sufficient: boolean;
+  /** What the answer lacks, phrased for the follow-up prompt */
+  missing: string[];
+}
+
+// Heuristics for a concrete detail: a number, a quote or an example phrase...
+const SPECIFIC_DETAIL = /\d|["“”«»]|\b(for example|for instance|such as|e\.g\.|specifically|recently|last (week|month|year)|por ejemplo|tales como|en concreto|concretamente|recientemente|la semana pasada|el mes pasado|el año pasado)\b/i;
+// ...or a name, i.e. a capitalised word in the middle of a sentence
+const MID_SENTENCE_NAME = /[a-z,;:]\s+[A-Z][a-z]/;
+
+/** Items in an answer: list lines and numbered points when it has them, otherwise sentences */
+const countItems = (content: string): number => {
+  const listItems = content
+    .split(/\n+|;|(?:^|\s)(?:\d+[.)]|[-*•])\s+/)
+    .filter(item => item.trim().length >= 3);
+  const sentences = content
+    .split(/[.!?]+(?:\s+|$)/)
+    .filter(sentence => sentence.trim().length >= 3);
+  return Math.max(listItems.length, sentences.length);
+};
+
+const coversElement = (content: string, element: RequiredElement): boolean => {
+  if (element.minItems !== undefined && countItems(content) < element.minItems) return false;
+  if (element.mentions && !element.mentions.some(phrase => content.toLowerCase().includes(phrase.toLowerCase()))) return false;
+  return true;
+};
+
+/** Check an answer against the rubric of the question it answers */
+export const assessAnswer = (content: string, questionId: string, source: Questionnaire = questionnaire): DepthAssessment => {
+  const rubric = source.getDepthRubric(questionId);
+  const trimmed = content.trim();
+  const missing: string[] = [];
+
+  if (rubric.minLength !== undefined && trimmed.length < rubric.minLength) {
+    missing.push('more detail');
+  }
+  if (rubric.requireSpecifics && !SPECIFIC_DETAIL.test(trimmed) && !MID_SENTENCE_NAME.test(trimmed)) {
+    missing.push('a concrete example');
+  }
+  (rubric.requiredElements || [])
+    .filter(element => !coversElement(trimmed, element))
+    .forEach(element => missing.push(element.label));
+
+  return { sufficient: missing.length === 0, missing };
+};
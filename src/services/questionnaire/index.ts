@@ -0,0 +1,96 @@
+// src/services/questionnaire/index.ts
+
+import definition from '../../config/questionnaire.json';
+import esTranslation from '../../config/questionnaire.es.json';
+import personaLibrary from '../../config/personas.json';
+import esPersonas from '../../config/personas.es.json';
+import { DEFAULT_LOCALE, Locale } from '../../i18n';
+import type { DemoPersona, QuestionnaireDefinition } from '../../types/questionnaire';
+import { PersonaValidationResult, translatePersonas, validatePersonas } from './personas';
+import { Questionnaire } from './questionnaire';
+import { validateQuestionnaire } from './schema';
+import { translateQuestionnaire } from './translation';
+
+export class QuestionnaireError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid questionnaire definition:\n${errors.map(error => `- ${error}`).join('\n')}`);
+    this.name = 'QuestionnaireError';
+  }
+}
+
+export const loadQuestionnaire = (value: unknown): Questionnaire => {
+  const result = validateQuestionnaire(value);
+  if (!result.valid) {
+    throw new QuestionnaireError(result.errors);
+  }
+  return new Questionnaire(result.definition);
+};
+
+// Validated once when the app starts, so a broken definition fails loudly instead of mid-interview
+export const questionnaire = loadQuestionnaire(definition);
+
+const loadTranslation = (translation: unknown): Questionnaire => {
+  // The definition itself was validated just above
+  const result = translateQuestionnaire(definition as unknown as QuestionnaireDefinition, translation);
+  if (!result.valid) {
+    throw new QuestionnaireError(result.errors);
+  }
+  return new Questionnaire(result.definition);
+};
+
+// The same questionnaire in each locale's wording, checked at startup as well
+const localized: Record<Locale, Questionnaire> = {
+  en: questionnaire,
+  es: loadTranslation(esTranslation)
+};
+
+const checkPersonas = (result: PersonaValidationResult): DemoPersona[] => {
+  if (!result.valid) {
+    throw new QuestionnaireError(result.errors);
+  }
+  return result.personas;
+};
+
+// The persona library in each locale, checked against the questionnaire at startup too
+const englishPersonas = checkPersonas(validatePersonas(personaLibrary, definition as unknown as QuestionnaireDefinition));
+const personas: Record<Locale, DemoPersona[]> = {
+  en: englishPersonas,
+  es: checkPersonas(translatePersonas(englishPersonas, esPersonas, definition as unknown as QuestionnaireDefinition))
+};
+
+/** Offered first on the entry form */
+export const DEFAULT_PERSONA_ID = englishPersonas[0].id;
+
+/** Demo personas worded for a locale, in the order they are offered */
+export const getPersonas = (locale: Locale = DEFAULT_LOCALE): DemoPersona[] => personas[locale];
+
+export const getPersona = (personaId: string | null | undefined, locale: Locale = DEFAULT_LOCALE): DemoPersona | null => {
+  return personas[locale].find(persona => persona.id === personaId) || null;
+};
+
+// One instance per locale and persona, so components can depend on it without re-rendering
+const withPersonas = new Map<string, Questionnaire>();
+
+/**
+ * The questionnaire worded for an interview's locale. With a demo persona its
+ * demo answers are that persona's; without one it has none.
+ */
+export const getQuestionnaire = (locale: Locale = DEFAULT_LOCALE, personaId?: string | null): Questionnaire => {
+  const persona = getPersona(personaId, locale);
+  if (!persona) return localized[locale];
+
+  const key = `${locale}:${persona.id}`;
+  let source = withPersonas.get(key);
+  if (!source) {
+    source = localized[locale].withDemoAnswers(persona.answers);
+    withPersonas.set(key, source);
+  }
+  return source;
+};
+
+export { Questionnaire } from './questionnaire';
+export { validateQuestionnaire } from './schema';
+export { translateQuestionnaire } from './translation';
+export { translatePersonas, validatePersonas } from './personas';
+export type { QuestionnaireValidationResult } from './schema';
+export type { PersonaValidationResult } from './personas';
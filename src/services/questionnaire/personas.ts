@@ -0,0 +1,123 @@
+// src/services/questionnaire/personas.ts
+// Demo personas: each is a made-up business with an answer for every question,
+// so a demo can show how the interview plays out for very different brands.
+
+import type { DemoPersona, DemoPersonaTranslation, QuestionnaireDefinition } from '../../types/questionnaire';
+
+// Persona ids are stored on the interview, so keep them as simple as phase ids
+const PERSONA_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+const PERSONA_STRING_FIELDS = ['label', 'description', 'brandName'] as const;
+
+export type PersonaValidationResult =
+  | { valid: true; personas: DemoPersona[] }
+  | { valid: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+const questionIdsOf = (definition: QuestionnaireDefinition): string[] => {
+  return definition.phases.flatMap(phase => phase.questions.map(question => question.id));
+};
+
+const checkAnswers = (answers: unknown, path: string, questionIds: string[], errors: string[]) => {
+  if (!isObject(answers)) {
+    errors.push(`${path} must be an object keyed by question id`);
+    return;
+  }
+  Object.entries(answers).forEach(([id, answer]) => {
+    if (!questionIds.includes(id)) {
+      errors.push(`${path}.${id} is not in the questionnaire`);
+    } else if (!isNonEmptyString(answer)) {
+      errors.push(`${path}.${id} must be a non-empty string`);
+    }
+  });
+};
+
+/**
+ * Check a persona library against the questionnaire. Every persona answers every
+ * question, conditional ones included, so a demo never runs out of suggestions.
+ */
+export const validatePersonas = (value: unknown, definition: QuestionnaireDefinition): PersonaValidationResult => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { valid: false, errors: ['Personas must be a non-empty array'] };
+  }
+
+  const errors: string[] = [];
+  const questionIds = questionIdsOf(definition);
+  const seen = new Set<string>();
+  value.forEach((persona, i) => {
+    const path = `personas[${i}]`;
+    if (!isObject(persona)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+    if (!isNonEmptyString(persona.id) || !PERSONA_ID_PATTERN.test(persona.id)) {
+      errors.push(`${path}.id must be lowercase letters, digits and dashes`);
+    } else if (seen.has(persona.id)) {
+      errors.push(`${path}.id "${persona.id}" is used twice`);
+    } else {
+      seen.add(persona.id);
+    }
+    PERSONA_STRING_FIELDS
+      .filter(field => !isNonEmptyString(persona[field]))
+      .forEach(field => errors.push(`${path}.${field} must be a non-empty string`));
+
+    checkAnswers(persona.answers, `${path}.answers`, questionIds, errors);
+    if (isObject(persona.answers)) {
+      const answers = persona.answers;
+      questionIds
+        .filter(id => answers[id] === undefined)
+        .forEach(id => errors.push(`${path}.answers has no answer for ${id}`));
+    }
+  });
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, personas: value as DemoPersona[] };
+};
+
+/** Apply a locale's wording, keyed by persona id, to a validated persona library */
+export const translatePersonas = (
+  personas: DemoPersona[],
+  value: unknown,
+  definition: QuestionnaireDefinition
+): PersonaValidationResult => {
+  if (!isObject(value)) {
+    return { valid: false, errors: ['Persona translation must be a JSON object keyed by persona id'] };
+  }
+
+  const errors: string[] = [];
+  const questionIds = questionIdsOf(definition);
+  Object.entries(value).forEach(([id, entry]) => {
+    if (!personas.some(persona => persona.id === id)) {
+      errors.push(`${id} is not a persona`);
+    } else if (!isObject(entry)) {
+      errors.push(`${id} must be an object`);
+    } else {
+      Object.keys(entry)
+        .filter(field => field !== 'answers' && !(PERSONA_STRING_FIELDS as readonly string[]).includes(field))
+        .forEach(field => errors.push(`${id}.${field} cannot be translated`));
+      PERSONA_STRING_FIELDS
+        .filter(field => entry[field] !== undefined && !isNonEmptyString(entry[field]))
+        .forEach(field => errors.push(`${id}.${field} must be a non-empty string when present`));
+      if (entry.answers !== undefined) {
+        checkAnswers(entry.answers, `${id}.answers`, questionIds, errors);
+      }
+    }
+  });
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const translations = value as Record<string, DemoPersonaTranslation>;
+  return {
+    valid: true,
+    personas: personas.map(persona => {
+      const { answers, ...wording } = translations[persona.id] || {};
+      return { ...persona, ...wording, answers: { ...persona.answers, ...answers } };
+    })
+  };
+};
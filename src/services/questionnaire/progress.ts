@@ -0,0 +1,111 @@
+// src/services/questionnaire/progress.ts
+// Question progress worked out from the questionId and answerStatus stored on each message.
+
+import type { AnswerStatus, Message } from '../../types/interview';
+import { questionnaire } from './index';
+import type { Questionnaire } from './questionnaire';
+
+export interface QuestionProgress {
+  /** Questions answered or skipped */
+  answeredCount: number;
+  /** Position of the next open question on the path; equals path.totalQuestions once all are done */
+  nextQuestionIndex: number;
+  path: Questionnaire;
+}
+
+// Statuses that close a question; needs-follow-up keeps it open for another answer
+const RESOLVED_STATUSES: readonly AnswerStatus[] = ['answered', 'skipped'];
+
+/**
+ * Whether an answer has enough substance to count. Very short answers do not,
+ * and neither does a demo answer pasted in for a different question.
+ */
+export const isSubstantive = (content: string, questionId: string, source: Questionnaire = questionnaire): boolean => {
+  const trimmed = content.trim();
+  if (trimmed.length < 20) return false;
+
+  const demoFor = source.questions.find(question => question.demoAnswer === trimmed);
+  return !demoFor || demoFor.id === questionId;
+};
+
+/** Follow-ups already asked for a question, i.e. its answers the depth gate held back for more detail */
+export const countFollowUps = (messages: Message[], questionId: string): number => {
+  return messages.filter(message =>
+    message.role === 'user' && message.questionId === questionId && message.followUpRequested
+  ).length;
+};
+
+/** Derive progress from the stored messages and the interview's attributes, on the questionnaire in the interview's locale */
+export const deriveQuestionProgress = (
+  messages: Message[],
+  attributes: Record<string, string>,
+  source: Questionnaire = questionnaire
+): QuestionProgress => {
+  const answers: Record<string, string> = {};
+  messages.forEach(message => {
+    if (message.role === 'user' && message.questionId && message.answerStatus && RESOLVED_STATUSES.includes(message.answerStatus)) {
+      // A skipped question is settled but has nothing for conditions to match
+      answers[message.questionId] = message.answerStatus === 'answered' ? message.content : '';
+    }
+  });
+
+  const path = source.resolvePath({ answers, attributes });
+  const firstOpen = path.questions.findIndex(question => answers[question.id] === undefined);
+  return {
+    answeredCount: Object.keys(answers).length,
+    nextQuestionIndex: firstOpen === -1 ? path.totalQuestions : firstOpen,
+    path
+  };
+};
+
+/**
+ * Settle the latest pending answer once the assistant has replied: a follow-up the
+ * depth gate asked for, or a clarification, keeps the question open whether or not the
+ * assistant called a tool for it. Otherwise it is answered, or skipped if the assistant
+ * moved on without a substantive answer.
+ */
+export const settleLatestAnswer = (
+  messages: Message[],
+  clarificationRequested: boolean,
+  source: Questionnaire = questionnaire
+): Message[] => {
+  const index = messages.map(message => message.role).lastIndexOf('user');
+  const message = messages[index];
+  if (!message?.questionId || message.answerStatus) return messages;
+
+  const answerStatus: AnswerStatus = message.followUpRequested || clarificationRequested
+    ? 'needs-follow-up'
+    : isSubstantive(message.content, message.questionId, source) ? 'answered' : 'skipped';
+  return messages.map((candidate, i) => (i === index ? { ...candidate, answerStatus } : candidate));
+};
+
+/**
+ * Interviews saved before messages carried question ids: recover them by
+ * matching question signatures, the way progress used to be worked out.
+ * Those interviews all predate localization, so the English signatures apply.
+ * Follow-ups without a signature still belong to the question left open.
+ */
+export const backfillQuestionIds = (messages: Message[]): Message[] => {
+  if (messages.some(message => message.questionId)) return messages;
+
+  const matched = new Set<number>();
+  let openIndex = -1;
+  const backfilled = messages.map((message): Message => {
+    if (message.role === 'assistant') {
+      const questionIndex = questionnaire.findQuestionIndex(message.content, matched);
+      if (questionIndex !== -1) openIndex = questionIndex;
+      return openIndex === -1 ? message : { ...message, questionId: questionnaire.questions[openIndex].id };
+    }
+
+    if (openIndex === -1) return message;
+    const questionId = questionnaire.questions[openIndex].id;
+    if (!isSubstantive(message.content, questionId)) {
+      return { ...message, questionId, answerStatus: 'needs-follow-up' };
+    }
+    matched.add(openIndex);
+    openIndex = -1;
+    return { ...message, questionId, answerStatus: 'answered' };
+  });
+  // Same array when nothing matched, so callers can skip saving
+  return backfilled.some(message => message.questionId) ? backfilled : messages;
+};
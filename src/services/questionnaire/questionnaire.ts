@@ -0,0 +1,162 @@
+// src/services/questionnaire/questionnaire.ts
+
+import type { PhaseId } from '../../types/interview';
+import type {
+  AttributeDefinition,
+  DepthRubric,
+  PhaseDefinition,
+  QuestionnaireDefinition,
+  QuestionnaireQuestion,
+  QuestionPathContext
+} from '../../types/questionnaire';
+import { evaluateCondition } from './conditions';
+
+/**
+ * Read-only view over a validated questionnaire definition.
+ * Everything that used to count "3 per phase" asks this class instead.
+ *
+ * The loaded questionnaire holds every question, including all branches.
+ * resolvePath() narrows it to the questions one interview is asked; indexes,
+ * phase boundaries and totals on the result follow that path.
+ */
+export class Questionnaire {
+  public readonly version: number;
+  public readonly depth: DepthRubric;
+  public readonly attributes: readonly AttributeDefinition[];
+  public readonly phases: readonly PhaseDefinition[];
+  /** Every question in interview order */
+  public readonly questions: readonly QuestionnaireQuestion[];
+
+  constructor(definition: QuestionnaireDefinition, private readonly source: QuestionnaireDefinition = definition) {
+    this.version = definition.version;
+    this.depth = definition.depth;
+    this.attributes = definition.attributes;
+    this.phases = definition.phases;
+
+    const questions: QuestionnaireQuestion[] = [];
+    definition.phases.forEach(phase => {
+      phase.questions.forEach((question, indexInPhase) => {
+        questions.push({ ...question, phase: phase.id, index: questions.length, indexInPhase });
+      });
+    });
+    this.questions = questions;
+  }
+
+  public get totalQuestions(): number {
+    return this.questions.length;
+  }
+
+  public isPhaseId(value: string): value is PhaseId {
+    return this.phases.some(phase => phase.id === value);
+  }
+
+  public getPhase(phaseId: PhaseId): PhaseDefinition | null {
+    return this.phases.find(phase => phase.id === phaseId) || null;
+  }
+
+  public getNextPhase(phaseId: PhaseId): PhaseId | null {
+    const index = this.phases.findIndex(phase => phase.id === phaseId);
+    return index === -1 ? null : this.phases[index + 1]?.id ?? null;
+  }
+
+  public getQuestion(index: number): QuestionnaireQuestion | null {
+    return this.questions[index] || null;
+  }
+
+  public getQuestionById(questionId: string): QuestionnaireQuestion | null {
+    return this.questions.find(question => question.id === questionId) || null;
+  }
+
+  /** The question's rubric on top of the questionnaire's defaults */
+  public getDepthRubric(questionId: string): DepthRubric {
+    return { ...this.depth, ...this.getQuestionById(questionId)?.depth };
+  }
+
+  /**
+   * The questions one interview is asked: every question whose condition holds,
+   * plus any question already answered, so a later attribute never drops an answer.
+   * Always resolved from the full definition, so it can be called on a path too.
+   */
+  public resolvePath(context: QuestionPathContext = { answers: {}, attributes: {} }): Questionnaire {
+    const phases = this.source.phases.map(phase => ({
+      ...phase,
+      questions: phase.questions.filter(question =>
+        context.answers[question.id] !== undefined || !question.when || evaluateCondition(question.when, context)
+      )
+    }));
+    return new Questionnaire({ ...this.source, phases }, this.source);
+  }
+
+  /** The full questionnaire with a demo persona's answers as its demo answers; resolve the path afterwards */
+  public withDemoAnswers(answers: Record<string, string>): Questionnaire {
+    const phases = this.source.phases.map(phase => ({
+      ...phase,
+      questions: phase.questions.map(question => ({ ...question, demoAnswer: answers[question.id] }))
+    }));
+    return new Questionnaire({ ...this.source, phases });
+  }
+
+  public getPhaseQuestions(phaseId: PhaseId): QuestionnaireQuestion[] {
+    return this.questions.filter(question => question.phase === phaseId);
+  }
+
+  /** Number of questions asked before the phase starts */
+  public getPhaseStartIndex(phaseId: PhaseId): number {
+    const index = this.phases.findIndex(phase => phase.id === phaseId);
+    return this.phases.slice(0, Math.max(index, 0)).reduce((total, phase) => total + phase.questions.length, 0);
+  }
+
+  /** Number of answered questions needed before the phase counts as finished */
+  public getQuestionsThrough(phaseId: PhaseId): number {
+    return this.getPhaseStartIndex(phaseId) + (this.getPhase(phaseId)?.questions.length || 0);
+  }
+
+  /**
+   * The first phase `answeredCount` answers do not finish. A phase without
+   * questions is never finished by answers, so it is returned as soon as it is reached.
+   */
+  public getPhaseForQuestionCount(answeredCount: number): PhaseId {
+    const phase = this.phases.find(candidate =>
+      candidate.questions.length === 0 || answeredCount < this.getQuestionsThrough(candidate.id)
+    );
+    return phase ? phase.id : this.phases[this.phases.length - 1].id;
+  }
+
+  /** Phases the assistant can mark complete with complete_phase: every phase but the last */
+  public get completablePhases(): PhaseId[] {
+    return this.phases.slice(0, -1).map(phase => phase.id);
+  }
+
+  /**
+   * Find which question an assistant message asks, by its signatures.
+   * Questions in `skip` (e.g. already answered) are not considered.
+   */
+  public findQuestionIndex(content: string, skip: ReadonlySet<number> = new Set()): number {
+    const contentLower = content.toLowerCase();
+    const match = this.questions.find(question =>
+      !skip.has(question.index) &&
+      question.signatures.some(signature => contentLower.includes(signature.toLowerCase()))
+    );
+    return match ? match.index : -1;
+  }
+
+  /**
+   * Demo answer for the question at `questionIndex`, but only when the assistant
+   * message really asks that question; showing nothing beats showing the wrong answer.
+   */
+  public getDemoAnswer(assistantContent: string, phaseId: PhaseId, questionIndex: number): string | null {
+    const question = this.getQuestion(questionIndex);
+    if (!question || question.phase !== phaseId || !question.demoAnswer) {
+      return null;
+    }
+
+    const contentLower = assistantContent.toLowerCase();
+    if (question.signatures.some(signature => contentLower.includes(signature.toLowerCase()))) {
+      console.log(`Direct signature match for question ${questionIndex}, providing demo answer.`);
+      return question.demoAnswer;
+    }
+
+    console.warn(`Could not find a direct signature match for question index ${questionIndex}. No demo answer will be provided.`);
+    return null;
+  }
+}
@@ -0,0 +1,294 @@
+// src/services/questionnaire/schema.ts
+
+import type { AttributeDefinition, PhaseDefinition, QuestionDefinition, QuestionnaireDefinition } from '../../types/questionnaire';
+import { REPORT_TYPES, isReportType } from '../../types/report';
+import { conditionReferences } from './conditions';
+
+// Phase and attribute ids end up in Firestore field paths and tool arguments, so keep them simple
+const PHASE_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+const ATTRIBUTE_ID_PATTERN = /^[a-z][a-zA-Z0-9]*$/;
+const PHASE_STRING_FIELDS = ['label', 'description', 'color', 'icon'] as const;
+const INPUT_TYPES = ['text', 'scale', 'single-choice', 'multi-choice', 'ranked'];
+
+export type QuestionnaireValidationResult =
+  | { valid: true; definition: QuestionnaireDefinition }
+  | { valid: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+const isStringArray = (value: unknown): value is string[] => {
+  return Array.isArray(value) && value.length > 0 && value.every(isNonEmptyString);
+};
+
+const validateCondition = (condition: unknown, path: string, errors: string[]) => {
+  if (!isObject(condition)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if ('all' in condition || 'any' in condition) {
+    const parts = 'all' in condition ? condition.all : condition.any;
+    const key = 'all' in condition ? 'all' : 'any';
+    if (!Array.isArray(parts) || parts.length === 0) {
+      errors.push(`${path}.${key} must be a non-empty array of conditions`);
+    } else {
+      parts.forEach((part, i) => validateCondition(part, `${path}.${key}[${i}]`, errors));
+    }
+  } else if ('not' in condition) {
+    validateCondition(condition.not, `${path}.not`, errors);
+  } else if ('attribute' in condition) {
+    if (!isNonEmptyString(condition.attribute)) errors.push(`${path}.attribute must be a non-empty string`);
+    if (!isStringArray(condition.in)) errors.push(`${path}.in must be a non-empty array of values`);
+  } else if ('answer' in condition) {
+    if (!isNonEmptyString(condition.answer)) errors.push(`${path}.answer must be a question id`);
+    if (!isStringArray(condition.mentions)) errors.push(`${path}.mentions must be a non-empty array of phrases`);
+  } else {
+    errors.push(`${path} must have one of attribute, answer, all, any or not`);
+  }
+};
+
+const isCount = (value: unknown): value is number => {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+};
+
+const validateDepth = (depth: unknown, path: string, errors: string[]) => {
+  if (!isObject(depth)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (depth.minLength !== undefined && !isCount(depth.minLength)) {
+    errors.push(`${path}.minLength must be a whole number of characters`);
+  }
+  if (depth.maxFollowUps !== undefined && !isCount(depth.maxFollowUps)) {
+    errors.push(`${path}.maxFollowUps must be a whole number`);
+  }
+  if (depth.requireSpecifics !== undefined && typeof depth.requireSpecifics !== 'boolean') {
+    errors.push(`${path}.requireSpecifics must be true or false`);
+  }
+  if (depth.requiredElements === undefined) return;
+  if (!Array.isArray(depth.requiredElements)) {
+    errors.push(`${path}.requiredElements must be an array`);
+    return;
+  }
+  depth.requiredElements.forEach((element, i) => {
+    const elementPath = `${path}.requiredElements[${i}]`;
+    if (!isObject(element) || !isNonEmptyString(element.label)) {
+      errors.push(`${elementPath}.label must be a non-empty string`);
+      return;
+    }
+    if (element.minItems === undefined && element.mentions === undefined) {
+      errors.push(`${elementPath} needs minItems or mentions`);
+    }
+    if (element.minItems !== undefined && !isCount(element.minItems)) {
+      errors.push(`${elementPath}.minItems must be a whole number`);
+    }
+    if (element.mentions !== undefined && !isStringArray(element.mentions)) {
+      errors.push(`${elementPath}.mentions must be a non-empty array of phrases`);
+    }
+  });
+};
+
+const validateInput = (input: unknown, path: string, errors: string[]) => {
+  if (!isObject(input) || typeof input.type !== 'string' || !INPUT_TYPES.includes(input.type)) {
+    errors.push(`${path}.type must be one of ${INPUT_TYPES.join(', ')}`);
+    return;
+  }
+  switch (input.type) {
+    case 'scale':
+      if (!Number.isInteger(input.min) || !Number.isInteger(input.max) || !((input.min as number) < (input.max as number))) {
+        errors.push(`${path} needs whole numbers min and max, with min below max`);
+      }
+      if (!isNonEmptyString(input.minLabel) || !isNonEmptyString(input.maxLabel)) {
+        errors.push(`${path} needs a minLabel and a maxLabel`);
+      }
+      break;
+    case 'single-choice':
+    case 'multi-choice':
+      if (!isStringArray(input.options) || input.options.length < 2 || new Set(input.options).size !== input.options.length) {
+        errors.push(`${path}.options must be at least two different options`);
+      }
+      if (input.label !== undefined && !isNonEmptyString(input.label)) {
+        errors.push(`${path}.label must be a non-empty string when present`);
+      }
+      if (input.maxSelections !== undefined && (!isCount(input.maxSelections) || input.maxSelections === 0)) {
+        errors.push(`${path}.maxSelections must be a whole number above 0`);
+      }
+      break;
+    case 'ranked':
+      if (!isCount(input.count) || input.count < 2) {
+        errors.push(`${path}.count must be a whole number of at least 2`);
+      }
+      if (input.itemLabel !== undefined && !isNonEmptyString(input.itemLabel)) {
+        errors.push(`${path}.itemLabel must be a non-empty string when present`);
+      }
+      break;
+  }
+};
+
+const validateAttribute = (attribute: unknown, path: string, errors: string[]) => {
+  if (!isObject(attribute)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof attribute.id !== 'string' || !ATTRIBUTE_ID_PATTERN.test(attribute.id)) {
+    errors.push(`${path}.id must be a camelCase identifier`);
+  }
+  if (!isNonEmptyString(attribute.description)) {
+    errors.push(`${path}.description must be a non-empty string`);
+  }
+  if (!isStringArray(attribute.values)) {
+    errors.push(`${path}.values must be a non-empty array of non-empty strings`);
+  }
+};
+
+const validateQuestion = (question: unknown, path: string, errors: string[]) => {
+  if (!isObject(question)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (!isNonEmptyString(question.id)) {
+    errors.push(`${path}.id must be a non-empty string`);
+  }
+  if (!isNonEmptyString(question.text)) {
+    errors.push(`${path}.text must be a non-empty string`);
+  }
+  if (!Array.isArray(question.signatures) || question.signatures.length === 0 || !question.signatures.every(isNonEmptyString)) {
+    errors.push(`${path}.signatures must be a non-empty array of non-empty strings`);
+  }
+  if (question.demoAnswer !== undefined && !isNonEmptyString(question.demoAnswer)) {
+    errors.push(`${path}.demoAnswer must be a non-empty string when present`);
+  }
+  if (question.when !== undefined) {
+    validateCondition(question.when, `${path}.when`, errors);
+  }
+  if (question.depth !== undefined) {
+    validateDepth(question.depth, `${path}.depth`, errors);
+  }
+  if (question.input !== undefined) {
+    validateInput(question.input, `${path}.input`, errors);
+  }
+};
+
+const validatePhase = (phase: unknown, path: string, errors: string[]) => {
+  if (!isObject(phase)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof phase.id !== 'string' || !PHASE_ID_PATTERN.test(phase.id)) {
+    errors.push(`${path}.id must be lowercase letters, digits and dashes`);
+  }
+  PHASE_STRING_FIELDS.forEach(field => {
+    if (!isNonEmptyString(phase[field])) {
+      errors.push(`${path}.${field} must be a non-empty string`);
+    }
+  });
+  if (typeof phase.estimatedMinutes !== 'number' || !(phase.estimatedMinutes >= 0)) {
+    errors.push(`${path}.estimatedMinutes must be a number of minutes (0 or more)`);
+  }
+  if (phase.reportTemplate !== null && !isReportType(phase.reportTemplate)) {
+    errors.push(`${path}.reportTemplate must be null or one of ${REPORT_TYPES.join(', ')}`);
+  }
+  if (!Array.isArray(phase.questions)) {
+    errors.push(`${path}.questions must be an array`);
+  } else {
+    phase.questions.forEach((question, i) => validateQuestion(question, `${path}.questions[${i}]`, errors));
+  }
+};
+
+// Cross-references the per-field checks cannot see: duplicate ids, ambiguous signatures and condition targets
+const validateReferences = (phases: PhaseDefinition[], attributes: AttributeDefinition[], errors: string[]) => {
+  const attributeValues = new Map<string, string[]>();
+  attributes.forEach(attribute => {
+    if (attributeValues.has(attribute.id)) errors.push(`attribute id "${attribute.id}" is used more than once`);
+    attributeValues.set(attribute.id, attribute.values);
+  });
+
+  const phaseIds = new Set<string>();
+  const questionIds = new Set<string>();
+  const signatures = new Map<string, string>();
+
+  phases.forEach(phase => {
+    if (phaseIds.has(phase.id)) errors.push(`phase id "${phase.id}" is used more than once`);
+    phaseIds.add(phase.id);
+
+    phase.questions.forEach((question: QuestionDefinition) => {
+      if (question.when) {
+        const references = conditionReferences(question.when);
+        // Only earlier answers are known when deciding whether to ask a question
+        references.questions
+          .filter(id => !questionIds.has(id))
+          .forEach(id => errors.push(`${question.id} depends on "${id}", which is not an earlier question`));
+        references.attributes.forEach(({ id, values }) => {
+          const known = attributeValues.get(id);
+          if (!known) {
+            errors.push(`${question.id} depends on unknown attribute "${id}"`);
+            return;
+          }
+          values
+            .filter(value => !known.includes(value))
+            .forEach(value => errors.push(`${question.id} expects "${value}", which is not a value of ${id}`));
+        });
+      }
+      if (questionIds.has(question.id)) errors.push(`question id "${question.id}" is used more than once`);
+      questionIds.add(question.id);
+
+      question.signatures.forEach(signature => {
+        const key = signature.toLowerCase();
+        const owner = signatures.get(key);
+        if (owner && owner !== question.id) {
+          errors.push(`signature "${signature}" is shared by ${owner} and ${question.id}`);
+        }
+        signatures.set(key, question.id);
+      });
+    });
+  });
+
+  const lastPhase = phases[phases.length - 1];
+  if (lastPhase?.id !== 'complete') {
+    errors.push('the last phase must be "complete"');
+  } else if (lastPhase.questions.length > 0) {
+    errors.push('the "complete" phase cannot have questions');
+  }
+  if (phases.length < 2) {
+    errors.push('phases must include at least one phase before "complete"');
+  }
+};
+
+/**
+ * Validate a questionnaire definition (normally src/config/questionnaire.json).
+ * Errors carry a path so a broken edit can be found quickly.
+ */
+export const validateQuestionnaire = (value: unknown): QuestionnaireValidationResult => {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { valid: false, errors: ['Questionnaire must be a JSON object'] };
+  }
+  if (typeof value.version !== 'number') {
+    errors.push('version must be a number');
+  }
+  validateDepth(value.depth, 'depth', errors);
+  if (!Array.isArray(value.attributes)) {
+    errors.push('attributes must be an array');
+  } else {
+    value.attributes.forEach((attribute, i) => validateAttribute(attribute, `attributes[${i}]`, errors));
+  }
+  if (!Array.isArray(value.phases) || value.phases.length === 0) {
+    errors.push('phases must be a non-empty array');
+    return { valid: false, errors };
+  }
+
+  value.phases.forEach((phase, i) => validatePhase(phase, `phases[${i}]`, errors));
+  if (errors.length === 0) {
+    validateReferences(value.phases as PhaseDefinition[], value.attributes as AttributeDefinition[], errors);
+  }
+
+  return errors.length === 0
+    ? { valid: true, definition: value as unknown as QuestionnaireDefinition }
+    : { valid: false, errors };
+};
@@ -0,0 +1,77 @@
+// src/services/questionnaire/translation.ts
+// A locale's wording laid over the questionnaire definition. Ids, order, conditions
+// and input types come from the definition, so every locale asks the same interview.
+
+import type {
+  AnswerInput,
+  QuestionDefinition,
+  QuestionnaireDefinition,
+  QuestionnaireTranslation,
+  QuestionTranslation
+} from '../../types/questionnaire';
+import { QuestionnaireValidationResult, validateQuestionnaire } from './schema';
+
+const PHASE_FIELDS = ['label', 'description'];
+const QUESTION_FIELDS = ['text', 'signatures', 'input', 'depth'];
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Ids that match nothing are almost always typos, and other fields are not the translation's to change
+const checkEntries = (entries: unknown, path: string, ids: Set<string>, fields: string[], errors: string[]) => {
+  if (entries === undefined) return;
+  if (!isObject(entries)) {
+    errors.push(`${path} must be an object keyed by id`);
+    return;
+  }
+  Object.entries(entries).forEach(([id, entry]) => {
+    if (!ids.has(id)) {
+      errors.push(`${path}.${id} is not in the questionnaire`);
+    } else if (!isObject(entry)) {
+      errors.push(`${path}.${id} must be an object`);
+    } else {
+      Object.keys(entry)
+        .filter(field => !fields.includes(field))
+        .forEach(field => errors.push(`${path}.${id}.${field} cannot be translated`));
+    }
+  });
+};
+
+const translateQuestion = (question: QuestionDefinition, translation: QuestionTranslation | undefined): QuestionDefinition => {
+  if (!translation) return question;
+  const { input, depth, ...wording } = translation;
+  return {
+    ...question,
+    ...wording,
+    // Only the input's labels and options are translated, never its type
+    ...(question.input && input ? { input: { ...question.input, ...input, type: question.input.type } as AnswerInput } : {}),
+    ...(depth ? { depth: { ...question.depth, ...depth } } : {})
+  };
+};
+
+/** Apply a translation to a validated definition, then validate the result like any definition */
+export const translateQuestionnaire = (definition: QuestionnaireDefinition, value: unknown): QuestionnaireValidationResult => {
+  if (!isObject(value)) {
+    return { valid: false, errors: ['Translation must be a JSON object'] };
+  }
+
+  const errors: string[] = [];
+  const phaseIds = new Set(definition.phases.map(phase => phase.id));
+  const questionIds = new Set(definition.phases.flatMap(phase => phase.questions.map(question => question.id)));
+  checkEntries(value.phases, 'phases', phaseIds, PHASE_FIELDS, errors);
+  checkEntries(value.questions, 'questions', questionIds, QUESTION_FIELDS, errors);
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const translation = value as QuestionnaireTranslation;
+  return validateQuestionnaire({
+    ...definition,
+    phases: definition.phases.map(phase => ({
+      ...phase,
+      ...translation.phases?.[phase.id],
+      questions: phase.questions.map(question => translateQuestion(question, translation.questions?.[question.id]))
+    }))
+  });
+};
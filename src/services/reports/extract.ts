@@ -0,0 +1,80 @@
+// src/services/reports/extract.ts
+
+import { ReportType, StructuredReport, isReportType } from '../../types/report';
+import { validateReport } from './schema';
+
+export interface InvalidReport {
+  /** The fenced block exactly as the assistant wrote it */
+  raw: string;
+  /** Best guess at the intended report type, when the block says */
+  type: ReportType | null;
+  errors: string[];
+}
+
+export interface ExtractedReports {
+  reports: StructuredReport[];
+  invalidReports: InvalidReport[];
+  /** The reply with every report block removed */
+  remainingContent: string;
+}
+
+// ```json blocks carry reports; ```markdown blocks are the legacy format and are rejected
+const REPORT_BLOCK_REGEX = /```(json|markdown)\s*([\s\S]*?)\s*```/g;
+
+/**
+ * Pull report blocks out of an assistant reply and validate each one.
+ * Nothing is inferred from headings or titles: a report's type is whatever
+ * its `type` field says, and anything that fails the schema is returned
+ * with its errors so the caller can ask the assistant to fix it.
+ */
+export const extractReports = (content: string): ExtractedReports => {
+  const reports: StructuredReport[] = [];
+  const invalidReports: InvalidReport[] = [];
+  let remainingContent = content;
+  let match;
+
+  REPORT_BLOCK_REGEX.lastIndex = 0;
+  while ((match = REPORT_BLOCK_REGEX.exec(content)) !== null) {
+    const [block, language, body] = match;
+    remainingContent = remainingContent.replace(block, '');
+
+    if (language === 'markdown') {
+      invalidReports.push({
+        raw: body,
+        type: null,
+        errors: ['Reports must be returned as a JSON object in a ```json block, not as markdown']
+      });
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch (error) {
+      invalidReports.push({
+        raw: body,
+        type: null,
+        errors: [`Report is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]
+      });
+      continue;
+    }
+
+    const result = validateReport(parsed);
+    if (result.valid) {
+      reports.push(result.report);
+    } else {
+      const declaredType = (parsed as { type?: unknown } | null)?.type;
+      invalidReports.push({
+        raw: body,
+        type: isReportType(declaredType) ? declaredType : null,
+        errors: result.errors
+      });
+    }
+  }
+
+  return {
+    reports,
+    invalidReports,
+    remainingContent: remainingContent.replace(/\n{3,}/g, '\n\n').trim()
+  };
+};
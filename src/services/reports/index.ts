@@ -0,0 +1,9 @@
+// src/services/reports/index.ts
+
+export { extractReports } from './extract';
+export type { ExtractedReports, InvalidReport } from './extract';
+export { renderReportMarkdown } from './render';
+export { REPORT_JSON_SCHEMA, REQUIRED_SECTIONS, validateReport } from './schema';
+export type { ReportValidationResult } from './schema';
+export { createReportVersion, withUnversionedReports } from './versions';
+export type { ReportVersions } from './versions';
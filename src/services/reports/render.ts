@@ -0,0 +1,66 @@
+// src/services/reports/render.ts
+
+import { DEFAULT_LOCALE, Locale, Strings, getStrings } from '../../i18n';
+import { PrioritizationRow, ReportSection, StructuredReport } from '../../types/report';
+import { PRIORITIZATION_MATRIX_SECTION } from './schema';
+
+type ReportStrings = Strings['reports'];
+
+const renderMatrix = (rows: PrioritizationRow[], { matrix }: ReportStrings): string => {
+  return [
+    `| ${matrix.columns.join(' | ')} |`,
+    '|---------------|--------|--------|----------|',
+    ...rows.map(row => `| ${row.recommendation} | ${matrix.levels[row.impact]} | ${matrix.levels[row.effort]} | ${row.priority} |`)
+  ].join('\n');
+};
+
+// Reports keep the template's English headings, so validation can find them; the rendering translates them
+const renderHeading = (heading: string, { headings }: ReportStrings): string => headings[heading.trim()] || heading.trim();
+
+const renderSection = (section: ReportSection, depth: number, matrix: PrioritizationRow[] | undefined, strings: ReportStrings): string => {
+  const blocks: string[] = [`${'#'.repeat(depth)} ${renderHeading(section.heading, strings)}`];
+
+  section.paragraphs?.forEach(paragraph => {
+    if (paragraph.trim()) blocks.push(paragraph.trim());
+  });
+
+  if (section.items?.length) {
+    blocks.push(section.items.map((item, i) => {
+      const bullet = section.ordered ? `${i + 1}.` : '-';
+      const label = item.label?.trim() ? `**${item.label.trim()}**: ` : '';
+      return `${bullet} ${label}${item.text.trim()}`;
+    }).join('\n'));
+  }
+
+  if (matrix?.length && section.heading.trim().toLowerCase() === PRIORITIZATION_MATRIX_SECTION.toLowerCase()) {
+    blocks.push(renderMatrix(matrix, strings));
+  }
+
+  section.subsections?.forEach(sub => blocks.push(renderSection(sub, Math.min(depth + 1, 6), matrix, strings)));
+
+  return blocks.join('\n\n');
+};
+
+/**
+ * Render a validated report to the markdown stored on the interview and fed
+ * to the PDF generator. Headings and the matrix table match the templates in
+ * assistant_instructions.md, translated for the interview's locale.
+ */
+export const renderReportMarkdown = (report: StructuredReport, locale: Locale = DEFAULT_LOCALE): string => {
+  const strings = getStrings(locale).reports;
+  const hasMatrixSection = report.sections.some(
+    section => section.heading.trim().toLowerCase() === PRIORITIZATION_MATRIX_SECTION.toLowerCase()
+  );
+
+  const blocks = [
+    `# ${report.title.trim()}`,
+    ...report.sections.map(section => renderSection(section, 2, report.prioritizationMatrix, strings))
+  ];
+
+  // Never drop matrix rows just because the section heading was left out
+  if (report.prioritizationMatrix?.length && !hasMatrixSection) {
+    blocks.push(`## ${renderHeading(PRIORITIZATION_MATRIX_SECTION, strings)}\n\n${renderMatrix(report.prioritizationMatrix, strings)}`);
+  }
+
+  return blocks.join('\n\n');
+};
@@ -0,0 +1,237 @@
+// src/services/reports/schema.ts
+
+import {
+  MatrixLevel,
+  PrioritizationRow,
+  ReportItem,
+  ReportSection,
+  ReportType,
+  REPORT_TYPES,
+  StructuredReport,
+  isReportType
+} from '../../types/report';
+
+const MATRIX_LEVELS: readonly MatrixLevel[] = ['High', 'Medium', 'Low'];
+
+// Top-level sections each report must contain, in template order
+export const REQUIRED_SECTIONS: Record<ReportType, string[]> = {
+  discovery: [
+    'Core Brand Essence',
+    'Foundational Principles',
+    'Distinctive Expression',
+    'Immediate Opportunities for Growth'
+  ],
+  messaging: [
+    'Messaging Alignment',
+    'Communication Patterns',
+    'Consistency Opportunities',
+    'Immediate Actions for Messaging'
+  ],
+  audience: [
+    'Ideal Audience Overview',
+    'Value Connection Points',
+    'Engagement Opportunities',
+    'Immediate Actions for Audience Targeting'
+  ],
+  complete: [
+    'Brand Breakthrough',
+    'Your Brand at a Glance',
+    'Key Observations and Insights',
+    'Personalized Growth Roadmap',
+    'Action Plan: Where to Focus Next',
+    'Next Steps for Growth',
+    'Prioritization Matrix',
+    'The Brand Alchemy Mastery Course'
+  ]
+};
+
+export const PRIORITIZATION_MATRIX_SECTION = 'Prioritization Matrix';
+
+/**
+ * JSON Schema for StructuredReport, shared with the assistant so its output
+ * can be checked by validateReport before anything is stored.
+ */
+export const REPORT_JSON_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'StructuredReport',
+  type: 'object',
+  required: ['type', 'title', 'sections'],
+  additionalProperties: false,
+  properties: {
+    type: { type: 'string', enum: REPORT_TYPES },
+    title: { type: 'string', minLength: 1 },
+    sections: {
+      type: 'array',
+      minItems: 1,
+      items: { $ref: '#/definitions/section' }
+    },
+    prioritizationMatrix: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['recommendation', 'impact', 'effort', 'priority'],
+        additionalProperties: false,
+        properties: {
+          recommendation: { type: 'string', minLength: 1 },
+          impact: { type: 'string', enum: MATRIX_LEVELS },
+          effort: { type: 'string', enum: MATRIX_LEVELS },
+          priority: { type: 'string', minLength: 1 }
+        }
+      }
+    }
+  },
+  definitions: {
+    section: {
+      type: 'object',
+      required: ['heading'],
+      additionalProperties: false,
+      properties: {
+        heading: { type: 'string', minLength: 1 },
+        paragraphs: { type: 'array', items: { type: 'string' } },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['text'],
+            additionalProperties: false,
+            properties: {
+              label: { type: 'string' },
+              text: { type: 'string', minLength: 1 }
+            }
+          }
+        },
+        ordered: { type: 'boolean' },
+        subsections: { type: 'array', items: { $ref: '#/definitions/section' } }
+      }
+    }
+  }
+} as const;
+
+export type ReportValidationResult =
+  | { valid: true; report: StructuredReport }
+  | { valid: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+const normalizeHeading = (heading: string) => heading.trim().toLowerCase();
+
+const validateItem = (value: unknown, path: string, errors: string[]): value is ReportItem => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+  const before = errors.length;
+  if (!isNonEmptyString(value.text)) errors.push(`${path}.text must be a non-empty string`);
+  if (value.label !== undefined && typeof value.label !== 'string') errors.push(`${path}.label must be a string`);
+  return errors.length === before;
+};
+
+const validateSection = (value: unknown, path: string, errors: string[]): value is ReportSection => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+  const before = errors.length;
+
+  if (!isNonEmptyString(value.heading)) {
+    errors.push(`${path}.heading must be a non-empty string`);
+  }
+  if (value.paragraphs !== undefined) {
+    if (!Array.isArray(value.paragraphs) || value.paragraphs.some(p => typeof p !== 'string')) {
+      errors.push(`${path}.paragraphs must be an array of strings`);
+    }
+  }
+  if (value.items !== undefined) {
+    if (Array.isArray(value.items)) {
+      value.items.forEach((item, i) => validateItem(item, `${path}.items[${i}]`, errors));
+    } else {
+      errors.push(`${path}.items must be an array`);
+    }
+  }
+  if (value.ordered !== undefined && typeof value.ordered !== 'boolean') {
+    errors.push(`${path}.ordered must be a boolean`);
+  }
+  if (value.subsections !== undefined) {
+    if (Array.isArray(value.subsections)) {
+      value.subsections.forEach((sub, i) => validateSection(sub, `${path}.subsections[${i}]`, errors));
+    } else {
+      errors.push(`${path}.subsections must be an array`);
+    }
+  }
+
+  return errors.length === before;
+};
+
+const validateMatrixRow = (value: unknown, path: string, errors: string[]): value is PrioritizationRow => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return false;
+  }
+  const before = errors.length;
+  if (!isNonEmptyString(value.recommendation)) errors.push(`${path}.recommendation must be a non-empty string`);
+  (['impact', 'effort'] as const).forEach(key => {
+    if (!MATRIX_LEVELS.includes(value[key] as MatrixLevel)) {
+      errors.push(`${path}.${key} must be one of ${MATRIX_LEVELS.join(', ')}`);
+    }
+  });
+  if (!isNonEmptyString(value.priority)) errors.push(`${path}.priority must be a non-empty string`);
+  return errors.length === before;
+};
+
+/**
+ * Check an untrusted value (usually parsed assistant output) against the
+ * report schema and the required sections for its report type.
+ * Error messages are written so they can be sent back to the assistant as-is.
+ */
+export const validateReport = (value: unknown): ReportValidationResult => {
+  const errors: string[] = [];
+
+  if (!isObject(value)) {
+    return { valid: false, errors: ['Report must be a JSON object'] };
+  }
+
+  if (!isReportType(value.type)) {
+    errors.push(`type must be one of ${REPORT_TYPES.join(', ')}`);
+  }
+  if (!isNonEmptyString(value.title)) {
+    errors.push('title must be a non-empty string');
+  }
+
+  if (!Array.isArray(value.sections) || value.sections.length === 0) {
+    errors.push('sections must be a non-empty array');
+  } else {
+    value.sections.forEach((section, i) => validateSection(section, `sections[${i}]`, errors));
+  }
+
+  if (value.prioritizationMatrix !== undefined) {
+    if (Array.isArray(value.prioritizationMatrix)) {
+      value.prioritizationMatrix.forEach((row, i) => validateMatrixRow(row, `prioritizationMatrix[${i}]`, errors));
+    } else {
+      errors.push('prioritizationMatrix must be an array');
+    }
+  }
+
+  // Section checks only make sense once the structure itself is sound
+  if (errors.length === 0) {
+    const report = value as unknown as StructuredReport;
+    const headings = new Set(report.sections.map(section => normalizeHeading(section.heading)));
+    const missing = REQUIRED_SECTIONS[report.type].filter(heading => !headings.has(normalizeHeading(heading)));
+    if (missing.length > 0) {
+      errors.push(`Missing required sections: ${missing.join(', ')}`);
+    }
+    if (report.type === 'complete' && !report.prioritizationMatrix?.length) {
+      errors.push('prioritizationMatrix must contain at least one row for the complete report');
+    }
+  }
+
+  return errors.length === 0
+    ? { valid: true, report: value as unknown as StructuredReport }
+    : { valid: false, errors };
+};
@@ -0,0 +1,32 @@
+// src/services/reports/versions.ts
+
+import type { Locale } from '../../i18n';
+import type { Interview } from '../../types/interview';
+import { REPORT_TYPES, ReportType, ReportVersion, StructuredReport } from '../../types/report';
+import { renderReportMarkdown } from './render';
+
+export type ReportVersions = Partial<Record<ReportType, ReportVersion[]>>;
+
+export const createReportVersion = (report: StructuredReport, locale: Locale, revision?: ReportVersion['revision']): ReportVersion => ({
+  report,
+  markdown: renderReportMarkdown(report, locale),
+  createdAt: new Date(),
+  ...(revision ? { revision } : {})
+});
+
+/**
+ * The stored report versions, plus a first version for each report saved before
+ * versions were kept, so revising one never loses the original.
+ */
+export const withUnversionedReports = (
+  stored: ReportVersions,
+  { structuredReports, reports, lastUpdated, locale }: Interview
+): ReportVersions => {
+  const versions: ReportVersions = { ...stored };
+  REPORT_TYPES.forEach(type => {
+    const report = structuredReports?.[type];
+    if (versions[type]?.length || !report) return;
+    versions[type] = [{ report, markdown: reports[type] || renderReportMarkdown(report, locale), createdAt: lastUpdated }];
+  });
+  return versions;
+};
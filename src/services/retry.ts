@@ -0,0 +1,247 @@
+// src/services/retry.ts
+// One retry policy for every remote call: Firestore, the OpenAI API and our API server.
+
+import { APP_CONFIG } from '../types/constants';
+import { ChatError } from './errors';
+
+export interface RetryPolicy {
+  /** Total attempts, including the first */
+  maxAttempts: number;
+  baseDelayMs: number;
+  backoffFactor: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: APP_CONFIG.MAX_RETRY_ATTEMPTS,
+  baseDelayMs: APP_CONFIG.RETRY_DELAY_BASE,
+  backoffFactor: APP_CONFIG.EXPONENTIAL_BACKOFF_FACTOR,
+  maxDelayMs: APP_CONFIG.MAX_RETRY_DELAY
+};
+
+// A Retry-After longer than this is not worth waiting for inside a user action
+const MAX_RETRY_AFTER_MS = 60000;
+
+export type RetryKind = 'rate_limit' | 'transient' | 'fatal';
+
+export interface RetryDecision {
+  kind: RetryKind;
+  reason: string;
+  /** Server-requested wait from a Retry-After header */
+  retryAfterMs?: number;
+}
+
+/** Thrown by an operation to ask for another attempt, e.g. a read that has not caught up with a write yet */
+export class RetryableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RetryableError';
+  }
+}
+
+// Firestore codes that describe a temporary condition rather than a bad request
+const RETRYABLE_FIRESTORE_CODES = ['unavailable', 'deadline-exceeded', 'resource-exhausted', 'aborted', 'internal'];
+
+// OpenAI SDK errors that carry no status because the request never got a response
+const CONNECTION_ERROR_NAMES = ['APIConnectionError', 'APIConnectionTimeoutError'];
+
+/** Parse a Retry-After value (seconds or an HTTP date) into milliseconds */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const readHeader = (headers: unknown, name: string): string | undefined => {
+  if (!headers || typeof headers !== 'object') return undefined;
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+};
+
+// OpenAI sends a precise retry-after-ms alongside the standard header
+const retryAfterFromHeaders = (headers: unknown): number | undefined => {
+  const milliseconds = Number(readHeader(headers, 'retry-after-ms'));
+  if (readHeader(headers, 'retry-after-ms') && Number.isFinite(milliseconds)) return Math.max(0, milliseconds);
+  return parseRetryAfter(readHeader(headers, 'retry-after'));
+};
+
+const classifyStatus = (status: number, retryAfterMs: number | undefined, code?: unknown): RetryDecision => {
+  if (status === 429) {
+    // Running out of quota is a 429 too, but waiting will not fix it
+    if (code === 'insufficient_quota') return { kind: 'fatal', reason: 'quota exhausted' };
+    return { kind: 'rate_limit', reason: 'rate limited', retryAfterMs };
+  }
+  if (status === 408 || status === 409 || status >= 500) {
+    return { kind: 'transient', reason: `status ${status}`, retryAfterMs };
+  }
+  return { kind: 'fatal', reason: `status ${status}` };
+};
+
+/**
+ * Decide whether an error is worth another attempt. Errors are recognised by
+ * shape, so this module works without importing the Firebase or OpenAI SDKs.
+ */
+export const classifyError = (error: unknown): RetryDecision => {
+  if (error instanceof RetryableError) {
+    return { kind: 'transient', reason: error.message };
+  }
+
+  if (error instanceof ChatError) {
+    if (error.status !== undefined) return classifyStatus(error.status, error.retryAfterMs);
+    if (error.type === 'network' || error.type === 'timeout') return { kind: 'transient', reason: error.type };
+    return { kind: 'fatal', reason: error.type };
+  }
+
+  if (typeof error === 'object' && error !== null) {
+    const { status, code, name, headers } = error as { status?: unknown; code?: unknown; name?: unknown; headers?: unknown };
+
+    // OpenAI APIError (and anything else carrying an HTTP status)
+    if (typeof status === 'number') {
+      return classifyStatus(status, retryAfterFromHeaders(headers), code);
+    }
+    if (typeof name === 'string' && CONNECTION_ERROR_NAMES.includes(name)) {
+      return { kind: 'transient', reason: 'connection failed' };
+    }
+    // FirestoreError
+    if (typeof code === 'string' && RETRYABLE_FIRESTORE_CODES.includes(code)) {
+      return { kind: code === 'resource-exhausted' ? 'rate_limit' : 'transient', reason: code };
+    }
+  }
+
+  return { kind: 'fatal', reason: error instanceof Error ? error.message : 'unknown error' };
+};
+
+/**
+ * For calls that are not safe to repeat (e.g. adding a message): only retry
+ * when the server refused the request outright, never after an ambiguous failure.
+ */
+export const classifyRejectedOnly = (error: unknown): RetryDecision => {
+  const decision = classifyError(error);
+  // 503 means the request was turned away before it was handled
+  if (decision.kind === 'rate_limit' || (error as { status?: unknown } | null)?.status === 503) return decision;
+  return { kind: 'fatal', reason: `${decision.reason} (not safe to repeat)` };
+};
+
+export type RetryOutcome = 'retrying' | 'recovered' | 'gave_up' | 'fatal';
+
+export interface RetryEvent {
+  operation: string;
+  outcome: RetryOutcome;
+  /** The attempt that just finished (1-based) */
+  attempt: number;
+  kind: RetryKind | null;
+  reason: string | null;
+  /** Wait before the next attempt; only set when retrying */
+  delayMs?: number;
+  elapsedMs: number;
+}
+
+export interface RetryStats {
+  retries: number;
+  recovered: number;
+  gaveUp: number;
+  fatal: number;
+  rateLimited: number;
+}
+
+type RetryListener = (event: RetryEvent) => void;
+
+const listeners = new Set<RetryListener>();
+const stats = new Map<string, RetryStats>();
+
+/** Subscribe to retry telemetry; returns the unsubscribe function */
+export const onRetryEvent = (listener: RetryListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Counters per operation since the page (or server) started */
+export const getRetryStats = (): Record<string, RetryStats> => {
+  return Object.fromEntries(Array.from(stats.entries(), ([operation, entry]) => [operation, { ...entry }]));
+};
+
+const recordEvent = (event: RetryEvent) => {
+  const entry = stats.get(event.operation) || { retries: 0, recovered: 0, gaveUp: 0, fatal: 0, rateLimited: 0 };
+  if (event.outcome === 'retrying') entry.retries++;
+  if (event.outcome === 'recovered') entry.recovered++;
+  if (event.outcome === 'gave_up') entry.gaveUp++;
+  if (event.outcome === 'fatal') entry.fatal++;
+  if (event.kind === 'rate_limit') entry.rateLimited++;
+  stats.set(event.operation, entry);
+
+  if (event.outcome === 'retrying') {
+    console.warn(`${event.operation} failed (${event.reason}), retrying in ${event.delayMs}ms (attempt ${event.attempt})`);
+  } else if (event.outcome === 'recovered') {
+    console.log(`${event.operation} succeeded after ${event.attempt} attempts`);
+  } else if (event.outcome === 'gave_up') {
+    console.error(`${event.operation} failed after ${event.attempt} attempts (${event.reason})`);
+  }
+
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      console.error('Retry listener failed:', error);
+    }
+  });
+};
+
+const backoffDelay = (policy: RetryPolicy, attempt: number): number => {
+  const exponential = policy.baseDelayMs * Math.pow(policy.backoffFactor, attempt - 1);
+  // Jitter keeps several tabs (or server requests) from retrying in lockstep
+  const jittered = exponential * (0.8 + Math.random() * 0.4);
+  return Math.round(Math.min(jittered, policy.maxDelayMs));
+};
+
+export interface RetryOptions extends Partial<RetryPolicy> {
+  /** Replaces classifyError, e.g. classifyRejectedOnly for calls that are not safe to repeat */
+  classify?: (error: unknown) => RetryDecision;
+  /** Called before each wait, e.g. to show that the app is reconnecting */
+  onRetry?: (event: RetryEvent) => void;
+}
+
+/**
+ * Run an operation under the retry policy. Retryable failures back off
+ * exponentially (or wait as long as Retry-After asks); fatal ones and the
+ * last failure are rethrown unchanged.
+ */
+export const withRetry = async <T>(operation: string, fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { classify = classifyError, onRetry, ...overrides } = options;
+  const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await fn();
+      if (attempt > 1) {
+        recordEvent({ operation, outcome: 'recovered', attempt, kind: null, reason: null, elapsedMs: Date.now() - startedAt });
+      }
+      return result;
+    } catch (error) {
+      const decision = classify(error);
+      const base = { operation, attempt, kind: decision.kind, reason: decision.reason };
+
+      if (decision.kind === 'fatal') {
+        recordEvent({ ...base, outcome: 'fatal', elapsedMs: Date.now() - startedAt });
+        throw error;
+      }
+      if (attempt >= policy.maxAttempts || (decision.retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) {
+        recordEvent({ ...base, outcome: 'gave_up', elapsedMs: Date.now() - startedAt });
+        throw error;
+      }
+
+      const delayMs = decision.retryAfterMs ?? backoffDelay(policy, attempt);
+      const event: RetryEvent = { ...base, outcome: 'retrying', delayMs, elapsedMs: Date.now() - startedAt };
+      recordEvent(event);
+      onRetry?.(event);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+};
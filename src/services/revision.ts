@@ -0,0 +1,75 @@
+// src/services/revision.ts
+// Revising an earlier answer once its phase report exists, and asking for the affected reports again.
+
+import { Message, Reports } from '../types/interview';
+import type { ReportType } from '../types/report';
+import type { QuestionnaireQuestion, StructuredAnswer } from '../types/questionnaire';
+import { questionnaire } from './questionnaire';
+import type { Questionnaire } from './questionnaire/questionnaire';
+
+export interface RevisableAnswer {
+  question: QuestionnaireQuestion;
+  answer: string;
+  /** Position of the answering message in the transcript */
+  messageIndex: number;
+}
+
+// The answer that settled each question, after any follow-ups, in interview order
+const settledAnswers = (messages: Message[], source: Questionnaire): RevisableAnswer[] => {
+  const byQuestion = new Map<string, RevisableAnswer>();
+  messages.forEach((message, messageIndex) => {
+    if (message.role !== 'user' || message.answerStatus !== 'answered' || !message.questionId) return;
+    const question = source.getQuestionById(message.questionId);
+    if (question) byQuestion.set(question.id, { question, answer: message.content, messageIndex });
+  });
+  return [...byQuestion.values()].sort((a, b) => a.question.index - b.question.index);
+};
+
+/** Answers that went into a report already written, with questions worded for the interview's locale */
+export const getRevisableAnswers = (messages: Message[], reports: Reports, source: Questionnaire = questionnaire): RevisableAnswer[] => {
+  return settledAnswers(messages, source).filter(({ question }) => {
+    const reportType = questionnaire.getPhase(question.phase)?.reportTemplate;
+    return Boolean(reportType && reports[reportType]);
+  });
+};
+
+/** The question's phase report, plus the final report when it has been written */
+export const getAffectedReports = (question: QuestionnaireQuestion, reports: Reports): ReportType[] => {
+  const reportType = questionnaire.getPhase(question.phase)?.reportTemplate;
+  const affected: ReportType[] = reportType ? [reportType] : [];
+  if (reports.complete && reportType !== 'complete') affected.push('complete');
+  return affected;
+};
+
+/** Replace the answer, including its widget value; a revision typed as free text drops the old value */
+export const reviseAnswer = (messages: Message[], messageIndex: number, content: string, structuredAnswer: StructuredAnswer | null = null): Message[] => {
+  return messages.map((message, i) => {
+    if (i !== messageIndex) return message;
+    const revised: Message = { ...message, content, revisedAt: new Date() };
+    // Firestore rejects undefined fields, so the old value is removed rather than cleared
+    delete revised.structuredAnswer;
+    return structuredAnswer ? { ...revised, structuredAnswer } : revised;
+  });
+};
+
+/**
+ * Ask for the affected reports again. The phase's answers are repeated in full,
+ * since a compacted conversation only has summaries of earlier phases.
+ */
+export const buildRevisionPrompt = (
+  question: QuestionnaireQuestion,
+  messages: Message[],
+  reportTypes: ReportType[],
+  source: Questionnaire = questionnaire
+): string => {
+  const phase = source.getPhase(question.phase);
+  const phaseAnswers = settledAnswers(messages, source).filter(({ question: candidate }) => candidate.phase === question.phase);
+  const answer = phaseAnswers.find(({ question: candidate }) => candidate.id === question.id)?.answer || '';
+
+  return [
+    `[Answer Revision: question ${question.id}; reports ${reportTypes.join(', ')}]`,
+    `I have revised my answer to "${question.text}". My new answer is: "${answer}"`,
+    `My answers for the ${phase?.label || question.phase} phase are now:\n${phaseAnswers.map(({ question: candidate, answer: text }) => `- ${candidate.text}\n  ${text}`).join('\n')}`,
+    `Please regenerate the ${reportTypes.join(' and ')} report${reportTypes.length === 1 ? '' : 's'} with submit_phase_report, using my revised answer. Do not call complete_phase and do not ask another question; confirm the update in a sentence or two.`
+  ].join('\n\n');
+};
@@ -0,0 +1,61 @@
+// src/services/streamingContent.ts
+
+export interface StreamingContent {
+  /** Conversational text that is safe to render while the reply is still streaming */
+  visibleContent: string;
+  /** Set while a report fence has been opened but not yet closed */
+  reportInProgress: {
+    title: string | null;
+    length: number;
+  } | null;
+}
+
+// Reports arrive as ```json; ```markdown is the legacy format but still must not leak into the transcript
+const REPORT_FENCE_OPEN_REGEX = /```(?:json|markdown)/g;
+const REPORT_FENCE_CLOSE = '```';
+
+// A fence that has only partially streamed in, e.g. "``" or "```mark"
+const PARTIAL_FENCE_REGEX = /`{1,3}[a-z]*$/;
+
+/**
+ * Split a partially streamed assistant reply into the text to show the user
+ * and the report currently being written, if any. Completed report fences are
+ * dropped here; they are extracted from the final reply once the turn ends.
+ */
+export const parseStreamingContent = (raw: string): StreamingContent => {
+  let visibleContent = '';
+  let reportInProgress: StreamingContent['reportInProgress'] = null;
+  let cursor = 0;
+
+  while (cursor < raw.length) {
+    REPORT_FENCE_OPEN_REGEX.lastIndex = cursor;
+    const open = REPORT_FENCE_OPEN_REGEX.exec(raw);
+    if (!open) {
+      visibleContent += raw.slice(cursor);
+      break;
+    }
+
+    visibleContent += raw.slice(cursor, open.index);
+    const bodyStart = open.index + open[0].length;
+    const close = raw.indexOf(REPORT_FENCE_CLOSE, bodyStart);
+
+    if (close === -1) {
+      const body = raw.slice(bodyStart);
+      const title = body.match(/"title"\s*:\s*"([^"]+)"/) || body.match(/^#\s+(.+)$/m);
+      reportInProgress = {
+        title: title ? title[1].trim() : null,
+        length: body.trim().length
+      };
+      break;
+    }
+
+    cursor = close + REPORT_FENCE_CLOSE.length;
+  }
+
+  visibleContent = visibleContent
+    .replace(PARTIAL_FENCE_REGEX, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { visibleContent, reportInProgress };
+};
@@ -0,0 +1,80 @@
+// src/services/timings.ts
+// How long questions take in practice: each answered question's answer and reply times
+// are measured from message timestamps and pooled across interviews into histograms,
+// which the InterviewRepository stores.
+
+import type { Message } from '../types/interview';
+import type { DurationHistogram, QuestionTiming, QuestionTimingStats } from '../types/timing';
+import type { Questionnaire } from './questionnaire';
+
+/** Upper bounds of the histogram buckets, in seconds; anything longer goes in "longer" */
+export const DURATION_BUCKETS = [10, 20, 30, 45, 60, 90, 120, 180, 240, 300, 420, 600, 900] as const;
+const LONGER_BUCKET = 'longer';
+
+// Fewer answers than this say more about the people who gave them than about the question
+const MIN_SAMPLES = 5;
+
+/** Histogram bucket a duration is counted in */
+export const bucketFor = (seconds: number): string => {
+  const bound = DURATION_BUCKETS.find(upper => seconds <= upper);
+  return bound === undefined ? LONGER_BUCKET : String(bound);
+};
+
+// Messages carry Dates, except in state saved to sessionStorage before a reload, which has strings
+const toMillis = (value: Date | string): number => new Date(value).getTime();
+
+const secondsBetween = (from: Date | string, to: Date | string): number => {
+  const seconds = (toMillis(to) - toMillis(from)) / 1000;
+  return Number.isFinite(seconds) ? Math.max(0, seconds) : 0;
+};
+
+/**
+ * Time spent on the question the latest user message answered, once the assistant
+ * has replied at `repliedAt`. Follow-up rounds count towards the same question.
+ * Returns null unless that answer was just settled as answered, and for demo answers,
+ * which are pasted in rather than written and would only skew the estimates.
+ */
+export const measureLatestAnswer = (messages: Message[], repliedAt: Date, source: Questionnaire): QuestionTiming | null => {
+  const latest = messages.map(message => message.role).lastIndexOf('user');
+  const answer = messages[latest];
+  if (!answer?.questionId || answer.answerStatus !== 'answered') return null;
+  if (source.questions.some(question => question.demoAnswer === answer.content.trim())) return null;
+
+  let answerSeconds = 0;
+  let replySeconds = 0;
+  messages.forEach((message, index) => {
+    if (message.role !== 'user' || message.questionId !== answer.questionId) return;
+    const asked = messages.slice(0, index).reverse().find(candidate => candidate.role === 'assistant');
+    const reply = messages.slice(index + 1).find(candidate => candidate.role === 'assistant');
+    if (asked) answerSeconds += secondsBetween(asked.timestamp, message.timestamp);
+    replySeconds += secondsBetween(message.timestamp, reply ? reply.timestamp : repliedAt);
+  });
+
+  return { questionId: answer.questionId, answerSeconds, replySeconds };
+};
+
+/** Median of a histogram, interpolated within its bucket; null without enough samples */
+export const medianSeconds = (histogram: DurationHistogram | undefined): number | null => {
+  if (!histogram || histogram.count < MIN_SAMPLES) return null;
+
+  const target = histogram.count / 2;
+  let seen = 0;
+  let lower = 0;
+  for (const upper of DURATION_BUCKETS) {
+    const inBucket = histogram.buckets[String(upper)] || 0;
+    if (inBucket > 0 && seen + inBucket >= target) {
+      return lower + ((target - seen) / inBucket) * (upper - lower);
+    }
+    seen += inBucket;
+    lower = upper;
+  }
+  // The median answer is longer than the last bound, so that bound is a lower estimate
+  return lower;
+};
+
+/** Typical time for a question from answering to the end of the reply, or null when there is too little data */
+export const estimateQuestionSeconds = (stats: QuestionTimingStats | undefined): number | null => {
+  const answer = medianSeconds(stats?.answer);
+  const reply = medianSeconds(stats?.reply);
+  return answer === null || reply === null ? null : answer + reply;
+};
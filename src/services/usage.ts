@@ -0,0 +1,69 @@
+// src/services/usage.ts
+
+import { PhaseId } from '../types/interview';
+import { InterviewUsage, RunKind, RunUsageRecord, UsageTotals } from '../types/usage';
+import type { TurnUsage } from './llm';
+
+// USD per million tokens, matched by model-name prefix (most specific first).
+// Models not listed here are still counted, just with no estimated cost.
+const MODEL_PRICING: Array<{ prefix: string; prompt: number; completion: number }> = [
+  { prefix: 'gpt-4o-mini', prompt: 0.15, completion: 0.6 },
+  { prefix: 'gpt-4o', prompt: 2.5, completion: 10 },
+  { prefix: 'gpt-4.1-nano', prompt: 0.1, completion: 0.4 },
+  { prefix: 'gpt-4.1-mini', prompt: 0.4, completion: 1.6 },
+  { prefix: 'gpt-4.1', prompt: 2, completion: 8 },
+  { prefix: 'gpt-4-turbo', prompt: 10, completion: 30 },
+  { prefix: 'gpt-3.5-turbo', prompt: 0.5, completion: 1.5 }
+];
+
+export const estimateCostUsd = ({ model, promptTokens, completionTokens }: TurnUsage): number => {
+  const pricing = MODEL_PRICING.find(entry => model.startsWith(entry.prefix));
+  if (!pricing) return 0;
+  return (promptTokens * pricing.prompt + completionTokens * pricing.completion) / 1_000_000;
+};
+
+const emptyTotals = (): UsageTotals => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  estimatedCostUsd: 0,
+  runs: 0
+});
+
+const addToTotals = (totals: UsageTotals | undefined, record: RunUsageRecord): UsageTotals => {
+  const base = totals || emptyTotals();
+  return {
+    promptTokens: base.promptTokens + record.promptTokens,
+    completionTokens: base.completionTokens + record.completionTokens,
+    totalTokens: base.totalTokens + record.promptTokens + record.completionTokens,
+    estimatedCostUsd: base.estimatedCostUsd + record.estimatedCostUsd,
+    runs: base.runs + 1
+  };
+};
+
+/** One run's usage as it is stored, ready for InterviewRepository.recordUsage */
+export const createRunUsageRecord = (kind: RunKind, phase: PhaseId, usage: TurnUsage): RunUsageRecord => ({
+  kind,
+  phase,
+  model: usage.model,
+  promptTokens: usage.promptTokens,
+  completionTokens: usage.completionTokens,
+  estimatedCostUsd: estimateCostUsd(usage),
+  recordedAt: new Date()
+});
+
+/** Apply a recorded run to in-memory usage, mirroring what InterviewRepository.recordUsage stores */
+export const applyRunUsage = (usage: InterviewUsage | undefined, record: RunUsageRecord): InterviewUsage => {
+  return {
+    ...addToTotals(usage, record),
+    byPhase: {
+      ...usage?.byPhase,
+      [record.phase]: addToTotals(usage?.byPhase?.[record.phase], record)
+    }
+  };
+};
+
+/** A budget of 0 means unlimited */
+export const isOverBudget = (usage: InterviewUsage | undefined, tokenBudget: number): boolean => {
+  return tokenBudget > 0 && (usage?.totalTokens || 0) >= tokenBudget;
+};
@@ -1,62 +1,8 @@
-// Enhanced constants with improved question matching and robust logic
+// Enhanced constants for processing stages, errors and app configuration.
+// Questions and phases live in config/questionnaire.json (see services/questionnaire);
+// processing and error messages are UI strings, in each locale's dictionary (see i18n).
 
-export const PHASE_QUESTIONS = {
-    'discovery': 3,
-    'messaging': 3,
-    'audience': 3,
-    'complete': 0
-} as const;
-
-export const PREDEFINED_QUESTIONS = [
-    // Discovery Phase (0-2)
-    "When customers ask why they should choose your business over competitors, what's your answer? Think beyond just making money – what positive difference do you want to make for your customers?",
-    "What three principles or beliefs guide how you run your business and treat your customers? For each one, what's a specific way you demonstrate this in your day-to-day operations?",
-    "If your business were a person walking into a networking event, how would they act and speak? Describe their personality as if you're describing a friend.",
-    
-    // Messaging Phase (3-5)
-    "If you had to explain what makes your business special in one short sentence, what would you say? Try to capture both what you do and why customers should care.",
-    "When you talk about your business, do you tend to be more casual and friendly, or more professional and formal? Write a few lines about your business in this style to see how it sounds.",
-    "Look at your website, social media, and any marketing materials. Are you telling the same story everywhere? Note any places where your message differs.",
-    
-    // Audience Phase (6-8)
-    "Think about your favorite customer – the type you wish you had more of. What's the one thing that makes them such a great fit for your business?",
-    "What are the three biggest problems or challenges that your best customers typically face before they find your business? Consider what really motivates them to seek help.",
-    "When you look at your recent social media posts or emails to customers, do they directly address the problems you just identified? If not, what specific changes would make your message more relevant to your ideal customers?"
-] as const;
-
-// Enhanced mock answers with more realistic, detailed responses
-export const MOCK_ANSWERS = {
-  discovery: [
-    // Question 1: Why choose your business?
-    "Most AI companies rush to market with black-box solutions that work until they don't. We're different - every system we build is interpretable and has built-in safety guardrails. While others promise magic, we deliver AI that businesses can actually trust and understand. Our mission: make AI adoption safe for companies who can't afford catastrophic mistakes. We're not trying to replace human judgment, we're amplifying it with transparent, reliable automation that grows with your business.",
-    
-    // Question 2: Three guiding principles
-    "Safety Before Speed: Every model goes through extensive testing scenarios, including adversarial inputs. We document failure cases and edge case handling before deployment. Interpretability Always: Our clients get plain-English explanations for every AI decision. Monthly reports show exactly how the system arrived at recommendations, no black boxes. Human-Centered Design: Regular check-ins with end users. AI suggests, humans decide. Built-in override capabilities and clear escalation paths when the system encounters uncertainty.",
-    
-    // Question 3: Business personality
-    "Thoughtful listener who asks clarifying questions before offering solutions. Dressed professionally but approachably - think startup founder, not big tech executive. Explains AI concepts using relatable analogies instead of technical jargon. The person who stays engaged when others talk about their challenges, genuinely curious about how automation could help without overselling. Would follow up with relevant case studies, not generic sales pitches."
-  ],
-  messaging: [
-    // Question 1: One-sentence explanation
-    "We build AI systems that businesses can actually trust - transparent, safe, and designed to augment human decision-making rather than replace it.",
-    
-    // Question 2: Communication style
-    "Professional but accessible - we avoid both AI hype and overly technical language: 'AI doesn't have to be scary or mysterious. We build systems that show their work, explain their reasoning, and give you confidence in every recommendation. No black boxes, no unpredictable behavior - just reliable automation that makes your team more effective while keeping humans in control of important decisions.'",
-    
-    // Question 3: Message consistency
-    "Website emphasizes safety and interpretability strongly. LinkedIn posts sometimes focus too much on technical achievements, less on business value. Sales materials consistently highlight human-centered approach. Gap: case studies show impressive results but could better explain our safety methodology. Email nurture sequence needs more content addressing AI adoption fears and ROI concerns."
-  ],
-  audience: [
-    // Question 1: Favorite customer type
-    "Operations leaders at mid-sized companies who've been burned by overhyped tech solutions before. They value thorough vetting over flashy demos. Want to innovate but need to justify ROI and risk management to stakeholders. Appreciate vendors who understand regulatory constraints and the importance of explainable decisions in their industry.",
-    
-    // Question 2: Customer problems
-    "Problem 1: Fear of AI unpredictability - worried about system failures, biased outputs, or decisions they can't explain to customers/regulators. Problem 2: Resource constraints - need AI benefits but lack ML expertise to evaluate solutions or manage complex implementations. Problem 3: Stakeholder buy-in challenges - difficulty convincing leadership that AI investment is worth the risk, especially after hearing AI horror stories in the news.",
-    
-    // Question 3: Message relevance
-    "Content addresses safety concerns well but could better tackle the 'AI is too complex for us' worry. Recent posts focus on technical capabilities but miss the resource constraint angle - need more 'white glove implementation' messaging. Stakeholder buy-in challenge barely addressed in current materials. Should create more content around business cases, risk mitigation frameworks, and executive-level ROI discussions."
-  ]
-} as const;
+import type { Strings } from '../i18n';
 
 // Enhanced processing stages with more descriptive messages
 export type ProcessingStage = 
@@ -70,208 +16,6 @@ export type ProcessingStage =
   | 'connecting'
   | 'analyzing';
 
-export const processingMessages: Record<ProcessingStage, string> = {
-  sending: "Sending your message...",
-  translating: "Processing your response...",
-  reading: "Analyzing your input...",
-  thinking: "Generating insights...",
-  formulating: "Crafting response...",
-  finalizing: "Preparing recommendations...",
-  fixing: "Refining report format...",
-  connecting: "Establishing connection...",
-  analyzing: "Analyzing brand elements..."
-} as const;
-
-// Enhanced phase configuration with better metadata
-export const PHASE_CONFIG = {
-  discovery: {
-    label: 'Discovery',
-    description: 'Uncover your brand essence',
-    questionIndices: [0, 1, 2],
-    color: 'desert-sand',
-    icon: '🔍',
-    estimatedTime: '6-8 minutes'
-  },
-  messaging: {
-    label: 'Messaging',
-    description: 'Align your communication',
-    questionIndices: [3, 4, 5],
-    color: 'champagne',
-    icon: '💬',
-    estimatedTime: '5-7 minutes'
-  },
-  audience: {
-    label: 'Audience',
-    description: 'Connect with your people',
-    questionIndices: [6, 7, 8],
-    color: 'goldenrod',
-    icon: '🎯',
-    estimatedTime: '5-7 minutes'
-  },
-  complete: {
-    label: 'Complete',
-    description: 'Your brand transformation',
-    questionIndices: [],
-    color: 'dark-midnight',
-    icon: '✨',
-    estimatedTime: 'Complete'
-  }
-} as const;
-
-// FIXED: Much more robust question keywords with multiple matching strategies
-export const QUESTION_KEYWORDS = {
-  discovery: [
-    // Question 1: Competitors/differentiation - expanded keywords
-    ['competitors', 'choose', 'business', 'different', 'why', 'over', 'customers', 'ask', 'answer', 'difference', 'positive'],
-    // Question 2: Principles/beliefs - expanded keywords  
-    ['principles', 'beliefs', 'guide', 'demonstrate', 'values', 'three', 'run', 'treat', 'customers', 'operations', 'way'],
-    // Question 3: Personality - expanded keywords
-    ['personality', 'person', 'networking', 'act', 'speak', 'friend', 'business', 'walking', 'event', 'describe']
-  ],
-  messaging: [
-    // Question 1: One sentence explanation - expanded keywords
-    ['explain', 'special', 'sentence', 'capture', 'care', 'short', 'business', 'what', 'makes', 'customers', 'should'],
-    // Question 2: Communication style - expanded keywords
-    ['casual', 'friendly', 'professional', 'formal', 'style', 'talk', 'business', 'tend', 'lines', 'write', 'sounds'],
-    // Question 3: Consistency - expanded keywords
-    ['website', 'social', 'materials', 'story', 'message', 'everywhere', 'marketing', 'telling', 'same', 'differs', 'places']
-  ],
-  audience: [
-    // Question 1: Favorite customer - expanded keywords
-    ['favorite', 'customer', 'wish', 'fit', 'great', 'type', 'think', 'about', 'more', 'thing', 'makes'],
-    // Question 2: Customer problems - expanded keywords
-    ['problems', 'challenges', 'customers', 'face', 'motivates', 'biggest', 'three', 'before', 'find', 'business', 'help'],
-    // Question 3: Message relevance - expanded keywords
-    ['posts', 'emails', 'address', 'relevant', 'changes', 'recent', 'social', 'media', 'directly', 'problems', 'identified']
-  ]
-} as const;
-
-// REFINED: Signatures are now longer and more unique to prevent false positive matches.
-export const QUESTION_SIGNATURES = {
-  discovery: [
-    ['choose your business over competitors', 'positive difference do you want to make'],
-    ['three principles or beliefs guide how you run your business', 'demonstrate this in your day-to-day'],
-    ['business were a person walking into a networking event', 'describe their personality']
-  ],
-  messaging: [
-    ['explain what makes your business special in one short sentence', 'why customers should care'],
-    ['casual and friendly, or more professional and formal', 'write a few lines about your business'],
-    ['telling the same story everywhere', 'note any places where your message differs']
-  ],
-  audience: [
-    ['think about your favorite customer', 'makes them such a great fit'],
-    ['three biggest problems or challenges that your best customers typically face', 'motivates them to seek help'],
-    ['recent social media posts or emails to customers', 'address the problems you just identified']
-  ]
-} as const;
-
-// NEW: A flattened array of the refined signatures for easier iteration in the new `calculateQuestionProgress`.
-export const QUESTION_SIGNATURES_FLAT = [
-    ...QUESTION_SIGNATURES.discovery,
-    ...QUESTION_SIGNATURES.messaging,
-    ...QUESTION_SIGNATURES.audience
-];
-
-// Validation helpers with enhanced error handling
-export const isValidPhaseId = (phase: string): phase is keyof typeof PHASE_CONFIG => {
-  return phase in PHASE_CONFIG;
-};
-
-export const getQuestionsByPhase = (phase: keyof typeof PHASE_CONFIG) => {
-  return PHASE_CONFIG[phase].questionIndices.map(index => PREDEFINED_QUESTIONS[index]);
-};
-
-export const getMockAnswersByPhase = (phase: keyof typeof MOCK_ANSWERS) => {
-  return MOCK_ANSWERS[phase];
-};
-
-// COMPLETELY REWRITTEN: Super robust demo answer matching with multiple fallback strategies
-// SIMPLIFIED & REFINED: The logic for finding a demo answer is now more direct because it
-// can trust the `questionIndex` it receives.
-export const getDemoAnswerForQuestion = (
-  assistantContent: string,
-  currentPhase: keyof typeof MOCK_ANSWERS | 'complete',
-  questionIndex: number
-): string | null => {
-  console.log(`getDemoAnswerForQuestion called with phase: ${currentPhase}, questionIndex: ${questionIndex}`);
-
-  if (currentPhase === 'complete' || questionIndex >= PREDEFINED_QUESTIONS.length) {
-    return null;
-  }
-
-  const phaseStartIndices = { discovery: 0, messaging: 3, audience: 6 };
-  if (!(currentPhase in phaseStartIndices)) {
-    return null;
-  }
-
-  const phaseStartIndex = phaseStartIndices[currentPhase];
-  const questionInPhase = questionIndex - phaseStartIndex;
-
-  const phaseAnswers = MOCK_ANSWERS[currentPhase];
-
-  if (questionInPhase < 0 || questionInPhase >= phaseAnswers.length) {
-    return null;
-  }
-
-  // Use the refined, more reliable signatures for matching.
-  const expectedSignatures = QUESTION_SIGNATURES[currentPhase][questionInPhase];
-  const contentLower = assistantContent.toLowerCase();
-
-  for (const signature of expectedSignatures) {
-    if (contentLower.includes(signature.toLowerCase())) {
-      console.log(`Direct signature match for question ${questionIndex}, providing demo answer.`);
-      return phaseAnswers[questionInPhase];
-    }
-  }
-
-  // If no strong match is found, it's better to show nothing than the wrong thing.
-  console.warn(`Could not find a direct signature match for question index ${questionIndex}. No demo answer will be provided.`);
-  return null;
-};
-
-// Enhanced error messages with more specific guidance
-export const ERROR_MESSAGES = {
-  // Network and connectivity errors
-  NETWORK_ERROR: 'Connection issue. Please check your internet connection and try again.',
-  TIMEOUT_ERROR: 'Request timed out. Please try again in a moment.',
-  CONNECTION_LOST: 'Connection lost. Attempting to reconnect...',
-  
-  // Session and authentication errors
-  SESSION_EXPIRED: 'Your session has expired. Please start a new brand development journey.',
-  SESSION_INVALID: 'Invalid session. Please start a new journey.',
-  VALIDATION_FAILED: 'Unable to validate session. Please try refreshing the page.',
-  ACCESS_DENIED: 'Access denied. Please start a new brand development journey.',
-  
-  // API and service errors
-  API_ERROR: 'Service temporarily unavailable. Please try again in a moment.',
-  OPENAI_ERROR: 'AI service temporarily unavailable. Please try again.',
-  RATE_LIMIT_ERROR: 'Too many requests. Please wait a moment and try again.',
-  SERVICE_UNAVAILABLE: 'Service is currently unavailable. Please try again later.',
-  
-  // Data and processing errors
-  FIRESTORE_ERROR: 'Database connection issue. Your progress has been saved locally.',
-  DATA_CORRUPTION: 'Data integrity issue detected. Please refresh and try again.',
-  PROCESSING_ERROR: 'Error processing your request. Please try again.',
-  REPORT_GENERATION_ERROR: 'Report generation failed. Please try again.',
-  
-  // User input and validation errors
-  INVALID_INPUT: 'Invalid input. Please check your response and try again.',
-  MISSING_REQUIRED_FIELD: 'Please fill in all required fields.',
-  INPUT_TOO_LONG: 'Input is too long. Please shorten your response.',
-  INVALID_EMAIL: 'Please enter a valid email address.',
-  
-  // File and download errors
-  PDF_GENERATION_ERROR: 'Failed to generate PDF. Please try downloading again.',
-  DOWNLOAD_ERROR: 'Download failed. Please try again.',
-  FILE_NOT_FOUND: 'File not found. Please try generating the report again.',
-  
-  // General and fallback errors
-  UNKNOWN_ERROR: 'An unexpected error occurred. Your progress has been saved.',
-  REPORT_NOT_READY: 'Report not yet available. Please complete the current phase first.',
-  FEATURE_UNAVAILABLE: 'This feature is temporarily unavailable.',
-  MAINTENANCE_MODE: 'System is under maintenance. Please try again later.'
-} as const;
-
 // Enhanced app configuration with better defaults
 export const APP_CONFIG = {
   // Session management
@@ -289,6 +33,8 @@ export const APP_CONFIG = {
   API_REQUEST_TIMEOUT: 120000, // 2 minutes
   OPENAI_MAX_WAIT_TIME: 600000, // 10 minutes
   PDF_GENERATION_TIMEOUT: 60000, // 1 minute
+  MESSAGE_PAGE_SIZE: 100, // Messages read per request when an interview is loaded
+  OUTBOX_SAVE_TIMEOUT: 30000, // A queued save that takes longer counts as failed and stays queued
   
   // Input validation
   MAX_BRAND_NAME_LENGTH: 100,
@@ -302,6 +48,9 @@ export const APP_CONFIG = {
   MESSAGE_ANIMATION_DURATION: 500,
   TYPING_INDICATOR_DELAY: 1000,
   DEMO_ANSWER_DISPLAY_TIME: 1000,
+  AUTOPILOT_READ_DELAY: 1500, // Pause on each new question before autopilot starts typing
+  AUTOPILOT_TYPING_INTERVAL: 40, // Per word typed
+  AUTOPILOT_SEND_DELAY: 800, // Pause on the typed answer before it is sent
   
   // Demo and development
   DEMO_MODE_ENABLED: true,
@@ -314,8 +63,9 @@ export const URL_PATTERNS = {
   EMAIL: /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/,
   INTERVIEW_ID: /^[a-zA-Z0-9]{20}$/, // Firestore document ID pattern
   SAFE_FILENAME: /^[a-zA-Z0-9._-]+$/,
-  BRAND_NAME: /^[a-zA-Z0-9\s\-'".&]+$/,
-  USER_NAME: /^[a-zA-Z0-9\s\-'.]+$/,
+  // Letters in any script, so names like "Café Núñez" pass
+  BRAND_NAME: /^[\p{L}\p{N}\s\-'".&]+$/u,
+  USER_NAME: /^[\p{L}\p{N}\s\-'.]+$/u,
   PHONE: /^[\+]?[0-9\s\-\(\)]+$/
 } as const;
 
@@ -349,7 +99,7 @@ export const ERROR_CATEGORIES = {
 } as const;
 
 // Helper function to get error category
-export const getErrorCategory = (errorType: keyof typeof ERROR_MESSAGES): keyof typeof ERROR_CATEGORIES | null => {
+export const getErrorCategory = (errorType: keyof Strings['errors']): keyof typeof ERROR_CATEGORIES | null => {
   for (const [category, errors] of Object.entries(ERROR_CATEGORIES)) {
     if ((errors as readonly string[]).includes(errorType)) {
       return category as keyof typeof ERROR_CATEGORIES;
@@ -358,18 +108,6 @@ export const getErrorCategory = (errorType: keyof typeof ERROR_MESSAGES): keyof
   return null;
 };
 
-// Enhanced phase transition logic
-export const getNextPhase = (currentPhase: keyof typeof PHASE_CONFIG): keyof typeof PHASE_CONFIG | null => {
-  const phases = Object.keys(PHASE_CONFIG) as Array<keyof typeof PHASE_CONFIG>;
-  const currentIndex = phases.indexOf(currentPhase);
-  
-  if (currentIndex >= 0 && currentIndex < phases.length - 1) {
-    return phases[currentIndex + 1];
-  }
-  
-  return null;
-};
-
 // Enhanced validation functions
 export const validateBrandName = (name: string): boolean => {
   return name.length > 0 && 
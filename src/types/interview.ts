@@ -1,21 +1,43 @@
 // src/types/interview.ts
 
+import type { Locale } from '../i18n';
+import type { ReportType, StructuredReport } from './report';
+import type { InterviewUsage } from './usage';
+import type { StructuredAnswer } from './questionnaire';
+
 export interface Interview {
+  schemaVersion: number; // Older documents are upgraded on load, see services/interviews/migrations.ts
   brandName: string;
   threadId: string | null; // Allow null for newly created interviews
-  createdAt: Date | FirebaseFirestore.Timestamp; // Allow both Date and Firestore Timestamp
-  lastUpdated: Date | FirebaseFirestore.Timestamp;
+  createdAt: Date; // Stored as Firestore Timestamps; the repository always hands out Dates
+  lastUpdated: Date;
   currentPhase: PhaseId;
   questionCount: number; // Added to track completed questions
-  messages: Message[];
-  reports: Reports;
+  actualQuestionIndex: number; // Index of the next question to ask; both are derived from the messages on every save
+  // Messages are stored separately, in interviews/{id}/messages, and loaded page by page
+  reports: Reports; // Rendered markdown, used for display and PDFs
+  structuredReports?: Partial<Record<ReportType, StructuredReport>>; // Validated source data for each report
+  // Every version of each report is stored separately too, in interviews/{id}/reportVersions
+  usage?: InterviewUsage; // Token usage and estimated cost, rolled up per phase
+  attributes?: Record<string, string>; // Classified by the assistant (e.g. businessModel); decides conditional questions
+  locale?: Locale; // Chosen at BrandEntry; decides the UI strings, questions and interview language. Older interviews are English
+  persona?: string; // Demo persona (config/personas.json) whose answers are suggested; none when demo mode is off
   contactInfo?: {
     name: string;
     email: string;
   };
+  metadata?: InterviewMetadata; // Recorded by BrandEntry; not read by the app itself
+}
+
+export interface InterviewMetadata {
+  isDemo: boolean; // Any of the entry form fields was left for its demo default
+  sessionId: string;
+  userAgent: string;
+  timestamp: string; // ISO time the entry form was submitted
 }
 
-export type PhaseId = 'discovery' | 'messaging' | 'audience' | 'complete';
+// The built-in phases; a questionnaire definition can add its own, e.g. a zero-question review phase
+export type PhaseId = 'discovery' | 'messaging' | 'audience' | 'complete' | (string & {});
 
 export interface Reports {
   discovery?: string;
@@ -30,11 +52,23 @@ export function isValidPhase(phase: string): phase is keyof Reports {
   return ['discovery', 'messaging', 'audience', 'complete', 'combined'].includes(phase);
 }
 
+export type AnswerStatus = 'answered' | 'needs-follow-up' | 'skipped';
+
 export interface Message {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
   phase: PhaseId;
+  // Assistant messages: the question asked. User messages: the question answered.
+  questionId?: string;
+  // User messages only, set once the assistant has replied to the answer
+  answerStatus?: AnswerStatus;
+  // User messages only, set when the depth gate held the answer back for a follow-up
+  followUpRequested?: boolean;
+  // User messages only, set when the answer was revised after its phase report was written
+  revisedAt?: Date;
+  // User messages from an answer widget; content is its text rendering plus any note the user added
+  structuredAnswer?: StructuredAnswer;
 }
 
 // Helper interface for Firestore Timestamp (if not already available)
@@ -0,0 +1,154 @@
+// src/types/questionnaire.ts
+
+import type { PhaseId } from './interview';
+import type { ReportType } from './report';
+
+/**
+ * When a question is asked. Conditions may only look at attributes and at
+ * answers to questions that come earlier in the questionnaire.
+ */
+export type QuestionCondition =
+  /** The attribute has been recorded with one of these values */
+  | { attribute: string; in: string[] }
+  /** The earlier answer mentions any of these phrases (case-insensitive) */
+  | { answer: string; mentions: string[] }
+  | { all: QuestionCondition[] }
+  | { any: QuestionCondition[] }
+  | { not: QuestionCondition };
+
+/** Something about the business the assistant classifies during the interview, e.g. its business model */
+export interface AttributeDefinition {
+  /** e.g. "businessModel"; stored under the interview's `attributes` */
+  id: string;
+  /** Tells the assistant what the attribute means and when to record it */
+  description: string;
+  values: string[];
+}
+
+/** Something an answer has to cover before it counts as deep enough */
+export interface RequiredElement {
+  /** Named in the follow-up when it is missing, e.g. "three principles" */
+  label: string;
+  /** The answer lists at least this many items: lines, bullets, numbered points or sentences */
+  minItems?: number;
+  /** The answer mentions at least one of these phrases (case-insensitive) */
+  mentions?: string[];
+}
+
+/** How deep an answer has to be before the interview moves on */
+export interface DepthRubric {
+  /** Shortest answer that counts, in characters */
+  minLength?: number;
+  /** Ask for a concrete detail (an example, a number, a name) when the answer is all generalities */
+  requireSpecifics?: boolean;
+  requiredElements?: RequiredElement[];
+  /** Follow-ups asked for a shallow answer before it is accepted as it is */
+  maxFollowUps?: number;
+}
+
+/** The control MessageInput shows for a question; free text when a question has none */
+export type AnswerInput =
+  | { type: 'text' }
+  /** A slider between two labelled ends, e.g. 1 "Casual and friendly" to 5 "Professional and formal" */
+  | { type: 'scale'; min: number; max: number; minLabel: string; maxLabel: string }
+  /** `label` leads the text rendering, e.g. "Channels where my message differs: Website and Email" */
+  | { type: 'single-choice'; options: string[]; label?: string }
+  | { type: 'multi-choice'; options: string[]; label?: string; maxSelections?: number }
+  /** `count` free-text entries in order of importance, e.g. three principles */
+  | { type: 'ranked'; count: number; itemLabel?: string };
+
+/** What an answer widget produced; the message content holds its text rendering */
+export type StructuredAnswer =
+  | { type: 'scale'; value: number }
+  | { type: 'single-choice'; value: string }
+  | { type: 'multi-choice'; values: string[] }
+  | { type: 'ranked'; values: string[] };
+
+export interface QuestionDefinition {
+  /** Stable id, e.g. "discovery.principles"; never reuse one for a different question */
+  id: string;
+  text: string;
+  /** Phrases that identify the question inside an assistant message (matched case-insensitively) */
+  signatures: string[];
+  /** Suggested answer offered in demo sessions; filled in from the session's demo persona */
+  demoAnswer?: string;
+  /** Asked only when this holds; questions without one are always asked */
+  when?: QuestionCondition;
+  /** Overrides the questionnaire's default rubric, field by field */
+  depth?: DepthRubric;
+  input?: AnswerInput;
+}
+
+export interface PhaseDefinition {
+  id: PhaseId;
+  label: string;
+  description: string;
+  color: string;
+  icon: string;
+  /** Expected duration of the whole phase; drives progress weighting and time estimates */
+  estimatedMinutes: number;
+  /** Report produced when the phase completes, or null for phases without one */
+  reportTemplate: ReportType | null;
+  /** May be empty, e.g. for a review phase the assistant completes on its own */
+  questions: QuestionDefinition[];
+}
+
+export interface QuestionnaireDefinition {
+  version: number;
+  /** Default answer-depth rubric for every question */
+  depth: DepthRubric;
+  attributes: AttributeDefinition[];
+  /** In interview order; the last phase is always 'complete' */
+  phases: PhaseDefinition[];
+}
+
+/** A locale's wording for one question; its id, position, condition and input type stay with the definition */
+export interface QuestionTranslation {
+  text?: string;
+  signatures?: string[];
+  /** Labels and options of the question's input, e.g. a scale's minLabel and maxLabel */
+  input?: { label?: string; options?: string[]; minLabel?: string; maxLabel?: string; itemLabel?: string };
+  /** Field by field over the question's rubric; phrases in `mentions` have to be in the locale's language */
+  depth?: DepthRubric;
+}
+
+/** Wording for a locale, keyed by phase and question id (e.g. src/config/questionnaire.es.json) */
+export interface QuestionnaireTranslation {
+  phases?: Partial<Record<PhaseId, { label?: string; description?: string }>>;
+  questions?: Record<string, QuestionTranslation>;
+}
+
+/** A made-up business whose answers are suggested in demo sessions (src/config/personas.json) */
+export interface DemoPersona {
+  /** Stable id, stored on the interview */
+  id: string;
+  label: string;
+  description: string;
+  /** Offered as the brand name when the entry form leaves it empty */
+  brandName: string;
+  /** Suggested answer for each question, by question id */
+  answers: Record<string, string>;
+}
+
+/** A locale's wording for one persona; answers a locale leaves out fall back to the English ones */
+export interface DemoPersonaTranslation {
+  label?: string;
+  description?: string;
+  brandName?: string;
+  answers?: Record<string, string>;
+}
+
+/** What a question path depends on: answers by question id and recorded attributes */
+export interface QuestionPathContext {
+  answers: Record<string, string>;
+  attributes: Record<string, string>;
+}
+
+/** A question with its position in the whole interview */
+export interface QuestionnaireQuestion extends QuestionDefinition {
+  phase: PhaseId;
+  /** Position across all phases, starting at 0 */
+  index: number;
+  /** Position within its phase, starting at 0 */
+  indexInPhase: number;
+}
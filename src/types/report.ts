@@ -0,0 +1,53 @@
+// src/types/report.ts
+
+export type ReportType = 'discovery' | 'messaging' | 'audience' | 'complete';
+
+export type MatrixLevel = 'High' | 'Medium' | 'Low';
+
+export interface ReportItem {
+  /** Optional bold lead-in, e.g. "Principle 1" */
+  label?: string;
+  text: string;
+}
+
+export interface ReportSection {
+  heading: string;
+  paragraphs?: string[];
+  items?: ReportItem[];
+  /** Render items as a numbered list instead of bullets */
+  ordered?: boolean;
+  subsections?: ReportSection[];
+}
+
+export interface PrioritizationRow {
+  recommendation: string;
+  impact: MatrixLevel;
+  effort: MatrixLevel;
+  priority: string;
+}
+
+export interface StructuredReport {
+  type: ReportType;
+  title: string;
+  sections: ReportSection[];
+  /** Required for the final 'complete' report, rendered under its Prioritization Matrix section */
+  prioritizationMatrix?: PrioritizationRow[];
+}
+
+/** One saved version of a report; regenerating a report adds a version instead of replacing the old one */
+export interface ReportVersion {
+  report: StructuredReport;
+  markdown: string;
+  createdAt: Date;
+  /** Set when the report was regenerated because the user revised an answer */
+  revision?: {
+    questionId: string;
+    previousAnswer: string;
+  };
+}
+
+export const REPORT_TYPES: readonly ReportType[] = ['discovery', 'messaging', 'audience', 'complete'];
+
+export const isReportType = (value: unknown): value is ReportType => {
+  return typeof value === 'string' && (REPORT_TYPES as readonly string[]).includes(value);
+};
@@ -0,0 +1,30 @@
+// src/types/timing.ts
+
+/**
+ * Durations in seconds, counted into buckets keyed by their upper bound
+ * (see DURATION_BUCKETS in services/timings.ts) plus "longer" for the rest
+ */
+export interface DurationHistogram {
+  count: number;
+  totalSeconds: number;
+  buckets: Record<string, number>;
+}
+
+/** One question's timings across every interview, stored in questionTimings/{questionId} */
+export interface QuestionTimingStats {
+  /** From the assistant asking the question to the user's answer, follow-ups included */
+  answer?: DurationHistogram;
+  /** From the user's answer to the end of the assistant's reply, reports included */
+  reply?: DurationHistogram;
+  updatedAt?: Date;
+}
+
+/** Timing statistics by question id */
+export type TimingStats = Record<string, QuestionTimingStats>;
+
+/** How long one interview spent on one question */
+export interface QuestionTiming {
+  questionId: string;
+  answerSeconds: number;
+  replySeconds: number;
+}
@@ -0,0 +1,29 @@
+// src/types/usage.ts
+
+import type { PhaseId } from './interview';
+
+/** Which part of the interview flow started a run */
+export type RunKind = 'kickoff' | 'message' | 'report_fix' | 'revision';
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCostUsd: number;
+  runs: number;
+}
+
+export interface RunUsageRecord {
+  kind: RunKind;
+  phase: PhaseId;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCostUsd: number;
+  recordedAt: Date;
+}
+
+/** Kept on the interview document; each run's record is stored separately (see InterviewRepository.recordUsage) */
+export interface InterviewUsage extends UsageTotals {
+  byPhase: Partial<Record<PhaseId, UsageTotals>>;
+}
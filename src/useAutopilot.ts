@@ -0,0 +1,110 @@
+// src/useAutopilot.ts
+// Hands-free demo runs: the persona's suggested answer is typed into the input and sent,
+// question after question, until a report arrives or the presenter takes over.
+
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { APP_CONFIG } from './types/constants';
+
+/** off: the presenter answers; on: answering each question; paused: stopped at a report until resumed */
+export type AutopilotStatus = 'off' | 'on' | 'paused';
+
+interface AutopilotOptions {
+  /** Demo answer for the open question, once the assistant has asked it */
+  suggestedAnswer: string | null;
+  /** False while a reply is on its way or the input is busy with something else, e.g. a revision */
+  canAnswer: boolean;
+  /** True while a report is being written or saved */
+  reportInProgress: boolean;
+  setInput: (value: string) => void;
+  /** Sends the input as it stands */
+  sendMessage: () => void;
+  inputRef: RefObject<HTMLTextAreaElement>;
+}
+
+export interface Autopilot {
+  status: AutopilotStatus;
+  /** True while an answer is being typed out */
+  isTyping: boolean;
+  start: () => void;
+  /** Hand control back to the presenter; whatever was typed so far stays in the input */
+  takeOver: () => void;
+}
+
+interface TypingState {
+  answer: string;
+  length: number;
+}
+
+// Type a word at a time, so the audience can follow along
+const nextWordEnd = (answer: string, from: number): number => {
+  const next = answer.indexOf(' ', from + 1);
+  return next === -1 ? answer.length : next;
+};
+
+export const useAutopilot = ({
+  suggestedAnswer,
+  canAnswer,
+  reportInProgress,
+  setInput,
+  sendMessage,
+  inputRef
+}: AutopilotOptions): Autopilot => {
+  const [status, setStatus] = useState<AutopilotStatus>('off');
+  const [typing, setTyping] = useState<TypingState | null>(null);
+  // sendMessage reads the input from its own render, so always call the latest one
+  const sendRef = useRef(sendMessage);
+
+  useEffect(() => {
+    sendRef.current = sendMessage;
+  });
+
+  const start = useCallback(() => setStatus('on'), []);
+
+  const takeOver = useCallback(() => {
+    setStatus('off');
+    setTyping(null);
+  }, []);
+
+  // Stop at each report so the presenter can walk through it
+  useEffect(() => {
+    if (reportInProgress && status === 'on') {
+      setStatus('paused');
+      setTyping(null);
+    }
+  }, [reportInProgress, status]);
+
+  // Leave the question on screen long enough to be read before answering it
+  useEffect(() => {
+    if (status !== 'on' || typing || !suggestedAnswer || !canAnswer) return;
+    const timer = setTimeout(() => setTyping({ answer: suggestedAnswer, length: 0 }), APP_CONFIG.AUTOPILOT_READ_DELAY);
+    return () => clearTimeout(timer);
+  }, [status, typing, suggestedAnswer, canAnswer]);
+
+  useEffect(() => {
+    if (!typing) return;
+
+    if (inputRef.current) {
+      const textarea = inputRef.current;
+      textarea.style.height = 'inherit';
+      textarea.style.height = `${Math.max(56, Math.min(textarea.scrollHeight, 200))}px`;
+    }
+
+    if (typing.length < typing.answer.length) {
+      const timer = setTimeout(() => {
+        const length = nextWordEnd(typing.answer, typing.length);
+        setInput(typing.answer.slice(0, length));
+        setTyping({ ...typing, length });
+      }, APP_CONFIG.AUTOPILOT_TYPING_INTERVAL);
+      return () => clearTimeout(timer);
+    }
+
+    // Fully typed: let it sit a moment, then send it as if Send had been pressed
+    const timer = setTimeout(() => {
+      setTyping(null);
+      sendRef.current();
+    }, APP_CONFIG.AUTOPILOT_SEND_DELAY);
+    return () => clearTimeout(timer);
+  }, [typing, setInput, inputRef]);
+
+  return { status, isTyping: typing !== null, start, takeOver };
+};
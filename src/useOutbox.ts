@@ -0,0 +1,150 @@
+// src/useOutbox.ts
+// Turns and saves that could not reach the server wait in the outbox, which survives a reload,
+// and are replayed oldest first once the connection is back.
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChatError } from './services/errors';
+import { OutboxEntry, OutboxItem, getOutboxStore } from './services/outbox';
+import { APP_CONFIG } from './types/constants';
+
+// navigator.onLine can say online on a connection that goes nowhere, so a save that hangs counts as failed
+const withTimeout = <T>(operation: Promise<T>, description: string): Promise<T> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new ChatError(`${description} timed out after ${APP_CONFIG.OUTBOX_SAVE_TIMEOUT}ms`, 'timeout')),
+      APP_CONFIG.OUTBOX_SAVE_TIMEOUT
+    );
+  });
+  return Promise.race([operation, timeout]).finally(() => clearTimeout(timer));
+};
+
+interface OutboxOptions {
+  interviewId: string | null;
+  /** False until the transcript and conversation have loaded; nothing is replayed before then */
+  enabled: boolean;
+  /**
+   * Carry out an item, queued or not. Throws to leave it, and everything queued
+   * after it, for the next attempt.
+   */
+  replay: (item: OutboxItem) => Promise<void>;
+}
+
+export interface Outbox {
+  /** Oldest first */
+  entries: OutboxEntry[];
+  isOnline: boolean;
+  /** Read what is queued for the interview, e.g. by an earlier visit */
+  load: () => Promise<OutboxEntry[]>;
+  /** Queue an item without trying it first, e.g. a turn that already failed to send */
+  queue: (item: OutboxItem) => Promise<void>;
+  /** Carry out a save now, or queue it when offline, when it fails, or when earlier entries are still waiting */
+  save: (item: OutboxItem) => Promise<void>;
+}
+
+export const useOutbox = ({ interviewId, enabled, replay }: OutboxOptions): Outbox => {
+  const store = getOutboxStore();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  // Read synchronously, so a save made during a replay is queued behind it rather than overtaking it
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const flushingRef = useRef(false);
+  // replay reads state from its own render, so always call the latest one
+  const replayRef = useRef(replay);
+  const enabledRef = useRef(enabled);
+
+  useEffect(() => {
+    replayRef.current = replay;
+    enabledRef.current = enabled;
+  });
+
+  /**
+   * Carry out an item. Only saves are timed out: a turn lasts as long as the assistant's
+   * whole reply, so a timeout would report a reply that is still on its way as failed.
+   * A save still running when it times out writes the same documents as its queued copy.
+   */
+  const replayWithTimeout = useCallback((item: OutboxItem): Promise<void> => {
+    const replayed = replayRef.current(item);
+    return item.type === 'turn' ? replayed : withTimeout(replayed, `Save of ${item.messages.length} messages`);
+  }, []);
+
+  const update = useCallback((next: OutboxEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+  }, []);
+
+  const load = useCallback(async (): Promise<OutboxEntry[]> => {
+    if (!interviewId) return [];
+    const queued = await store.list(interviewId);
+    update(queued);
+    return queued;
+  }, [interviewId, store, update]);
+
+  const queue = useCallback(async (item: OutboxItem) => {
+    const entry = await store.add(item);
+    update([...entriesRef.current, entry]);
+  }, [store, update]);
+
+  // Stop at the first entry that fails or times out: later turns and saves build on it
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !enabledRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
+    try {
+      while (entriesRef.current.length > 0) {
+        const [entry] = entriesRef.current;
+        try {
+          await replayWithTimeout(entry);
+          await store.remove(entry.id);
+        } catch (error) {
+          console.warn(`Outbox entry ${entry.id} (${entry.type}) is still waiting:`, error);
+          return;
+        }
+        update(entriesRef.current.filter(queued => queued.id !== entry.id));
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [replayWithTimeout, store, update]);
+
+  const save = useCallback(async (item: OutboxItem) => {
+    if (entriesRef.current.length > 0) {
+      await queue(item);
+      // Earlier entries may have failed while online; a new save is as good a moment as any to retry them
+      flush();
+      return;
+    }
+    if (navigator.onLine) {
+      try {
+        await replayWithTimeout(item);
+        return;
+      } catch (error) {
+        console.error('Save failed, queueing it:', error);
+      }
+    }
+    await queue(item);
+  }, [queue, flush, replayWithTimeout]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [flush]);
+
+  // Whatever an earlier visit left behind goes out as soon as the interview is ready
+  useEffect(() => {
+    if (enabled) {
+      flush();
+    }
+  }, [enabled, flush]);
+
+  return { entries, isOnline, load, queue, save };
+};
@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Forward interview API calls to the local API server (npm run server)
+    proxy: {
+      '/api': `http://localhost:${process.env.API_PORT || 8787}`,
+    },
+  },
 })